@@ -1,10 +1,37 @@
-import React, { useState } from 'react';
-import { Upload, Dna, FileVideo, AlertTriangle, Loader2, Key, Info, FileText } from 'lucide-react';
-import VideoPlayer from './components/VideoPlayer';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Dna, FileVideo, AlertTriangle, Loader2, Key, Info, FileText, Save, Link, XCircle, RotateCcw } from 'lucide-react';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
 import AnalysisCharts from './components/AnalysisCharts';
 import EventLog from './components/EventLog';
-import { analyzeMicroscopyVideo } from './services/geminiService';
-import { AnalysisResult, AnalysisStatus } from './types';
+import LineageTree from './components/LineageTree';
+import DetectorSettings from './components/DetectorSettings';
+import CalibrationSettings from './components/CalibrationSettings';
+import MotilityPanel from './components/MotilityPanel';
+import ExportMenu from './components/ExportMenu';
+import TrackImportSettings from './components/TrackImportSettings';
+import AnalysisLibrary from './components/AnalysisLibrary';
+import CurationPanel from './components/CurationPanel';
+import SamplingSettings from './components/SamplingSettings';
+import FailedFramesNotice from './components/FailedFramesNotice';
+import ValidationWarnings from './components/ValidationWarnings';
+import ResponseCachePanel from './components/ResponseCachePanel';
+import CellInspector from './components/CellInspector';
+import { analyzeMicroscopyVideo, loadVideoMetadata, retryFailedFrames } from './services/analysisService';
+import { importTrackingResults } from './services/importService';
+import { createGeminiProvider } from './services/geminiService';
+import { createSimulatedProvider } from './services/simulatedProvider';
+import { createClassicalProvider, DEFAULT_CLASSICAL_PARAMS } from './services/classicalDetector';
+import { DEFAULT_CALIBRATION } from './services/calibrationService';
+import { captureThumbnail, createProject, fingerprintVideo, getProjectFilename, getVideoReference, saveToLibrary, serializeProject, updateLibraryProject } from './services/projectService';
+import { applyCurationEdit, replayCuration } from './services/curationService';
+import { downloadFile } from './services/exportService';
+import { isSequenceFile, loadImageSequence, releaseImageSequence } from './services/imageSequenceService';
+import { DEFAULT_SAMPLING_PLAN } from './services/samplingService';
+import { DEFAULT_QUEUE_SETTINGS, LOCAL_QUEUE_SETTINGS } from './services/frameQueue';
+import { getCheckpointTarget } from './services/checkpointService';
+import { DEFAULT_CONSENSUS } from './services/consensusService';
+import { TimelineEvent } from './services/eventService';
+import { AnalysisResult, AnalysisSettings, AnalysisStatus, Calibration, CellSelection, ClassicalDetectorParams, ConsensusSettings, CurationEdit, DetectionProvider, DetectorId, FrameData, ImageSequence, ProjectFile, QueueSettings, SamplingPlan, VideoMetadata } from './types';
 
 // Simple Markdown component to avoid heavy external dependencies
 const SimpleMarkdown: React.FC<{ content: string }> = ({ content }) => {
@@ -33,24 +60,100 @@ const SimpleMarkdown: React.FC<{ content: string }> = ({ content }) => {
 function App() {
   const [apiKey, setApiKey] = useState<string>('');
   const [isKeySet, setIsKeySet] = useState(false);
+  const [detectorId, setDetectorId] = useState<DetectorId>('gemini');
+  const [classicalParams, setClassicalParams] = useState<ClassicalDetectorParams>(DEFAULT_CLASSICAL_PARAMS);
+  const [calibration, setCalibration] = useState<Calibration>(DEFAULT_CALIBRATION);
+  const [samplingPlan, setSamplingPlan] = useState<SamplingPlan>(DEFAULT_SAMPLING_PLAN);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(DEFAULT_QUEUE_SETTINGS);
+  const [consensus, setConsensus] = useState<ConsensusSettings>(DEFAULT_CONSENSUS);
+  const [sourceMetadata, setSourceMetadata] = useState<VideoMetadata | null>(null);
   const [file, setFile] = useState<File | null>(null);
+  const [tracksFile, setTracksFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [sequence, setSequence] = useState<ImageSequence | null>(null);
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [project, setProject] = useState<ProjectFile | null>(null);
+  const [videoMismatch, setVideoMismatch] = useState(false);
+  const [editMode, setEditMode] = useState(false);
+  const [selection, setSelection] = useState<CellSelection | null>(null);
+  // Track shown in the cell inspector
+  const [inspectedTrackId, setInspectedTrackId] = useState<number | null>(null);
+  // Event picked in the event log, highlighted on the overlay
+  const [highlightedEvent, setHighlightedEvent] = useState<TimelineEvent | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const [redoStack, setRedoStack] = useState<CurationEdit[]>([]);
+  const [curationError, setCurationError] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null); // Shown above the settings, e.g. after a cancelled run
   const [currentTime, setCurrentTime] = useState(0);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState<string>('Initializing...');
+  const abortRef = useRef<AbortController | null>(null);
+  // Counts analyses, imports and opened projects, so a library save finishing late never attaches to a newer result
+  const runRef = useRef(0);
+  // Latest shown result, for a save that finishes after edits were made
+  const resultRef = useRef<AnalysisResult | null>(null);
+  resultRef.current = result;
+  const [retryMessage, setRetryMessage] = useState<string | null>(null); // Progress of "Retry failed frames"
+  const [retryError, setRetryError] = useState<string | null>(null);
+
+  // The loaded footage: a video file or an image sequence
+  const source: File | ImageSequence | null = sequence ?? file;
+  const sourceSize = sequence ? sequence.files.reduce((acc, f) => acc + f.size, 0) : file?.size ?? 0;
+
+  // Decoded sequence frames live in object URLs until the sequence is replaced
+  useEffect(() => () => {
+    if (sequence) releaseImageSequence(sequence);
+  }, [sequence]);
+
+  // Size and length of the footage, for the sampling estimate
+  useEffect(() => {
+    setSourceMetadata(null);
+    if (!source) return;
+    let cancelled = false;
+    loadVideoMetadata(source)
+      .then(metadata => { if (!cancelled) setSourceMetadata(metadata); })
+      .catch(err => console.warn("Could not read the video metadata:", err));
+    return () => { cancelled = true; };
+  }, [source]);
 
   const handleKeySubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (apiKey.trim().length > 0) {
+      setDetectorId('gemini');
       setIsKeySet(true);
     }
   };
 
+  // Without a key only the local detectors are available
+  const handleContinueWithoutKey = () => {
+    setApiKey('');
+    setDetectorId('classical');
+    setIsKeySet(true);
+  };
+
+  const createProvider = (id: DetectorId = detectorId): DetectionProvider => {
+    switch (id) {
+      case 'classical': return createClassicalProvider(classicalParams);
+      case 'simulated': return createSimulatedProvider();
+      default: return createGeminiProvider(apiKey);
+    }
+  };
+
+  // A region and time window drawn for one upload do not apply to the next
+  const resetSamplingWindow = () => {
+    setSamplingPlan(plan => ({ ...plan, startTime: 0, endTime: null, roi: null }));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      // TIFF stacks, several images or a folder become an image sequence
+      const selected = Array.from<File>(e.target.files);
+      if (selected.length > 1 || isSequenceFile(selected[0])) {
+        handleSequenceFiles(selected);
+        return;
+      }
       const selectedFile = e.target.files[0];
       // Expanded validation to include mov and mkv which are often valid but just wrong mime type in input
       const validTypes = ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-matroska'];
@@ -64,42 +167,369 @@ function App() {
 
       if (!isValid) {
         setStatus(AnalysisStatus.ERROR);
-        setErrorMsg("Invalid file format. Please upload an MP4, MOV, or WebM video.");
+        setErrorMsg("Invalid file format. Please upload an MP4, MOV, or WebM video, a TIFF stack or an image sequence.");
         return;
       }
+      setSequence(null);
       setFile(selectedFile);
+      resetSamplingWindow();
+      setTracksFile(null);
       setVideoUrl(URL.createObjectURL(selectedFile));
       setStatus(AnalysisStatus.IDLE);
       setResult(null);
       setErrorMsg(null);
+      setNotice(null);
       setProgress(0);
       setProgressMessage("Ready to analyze");
     }
   };
 
+  // Still frames are decoded up front, so a large 16-bit stack takes a moment before analysis can start
+  const handleSequenceFiles = async (selected: File[]) => {
+    try {
+      setStatus(AnalysisStatus.ANALYZING);
+      setResult(null);
+      setErrorMsg(null);
+      setNotice(null);
+      setProgress(0);
+      setProgressMessage("Reading images...");
+
+      const loaded = await loadImageSequence(selected, (p, msg) => {
+        setProgress(Math.round(p));
+        setProgressMessage(msg);
+      });
+
+      setSequence(loaded);
+      setFile(null);
+      setTracksFile(null);
+      setVideoUrl(null);
+      resetSamplingWindow();
+      // Sequence timestamps count frames, so time calibration is per frame at the preview rate
+      setCalibration({ ...calibration, timeMode: 'perFrame', videoFps: loaded.fps });
+      setStatus(AnalysisStatus.IDLE);
+      setProgress(0);
+      setProgressMessage("Ready to analyze");
+    } catch (err: any) {
+      console.error(err);
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(err.message || "Could not read the image sequence.");
+    }
+  };
+
   const handleAnalyze = async () => {
-    if (!file || !apiKey) return;
+    if (!source) return;
+    if (tracksFile) return handleImport(source, tracksFile);
+    if (detectorId === 'gemini' && !apiKey) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // A new result starts without curation state or a project; a stale redo must not apply to it
+    runRef.current++;
+    setProject(null);
+    setEditMode(false);
+    setSelection(null);
+    setRedoStack([]);
     try {
       setStatus(AnalysisStatus.ANALYZING);
       setProgress(0);
       setProgressMessage("Starting analysis engine...");
       setErrorMsg(null);
+      setNotice(null);
+      setRetryError(null);
       
-      const data = await analyzeMicroscopyVideo(file, apiKey, (p, msg) => {
+      const checkpoint = await getCheckpointTarget(source, detectorId, samplingPlan, classicalParams, consensus);
+      const data = await analyzeMicroscopyVideo(source, createProvider(), (p, msg) => {
         setProgress(Math.round(p));
         setProgressMessage(msg);
+      }, {
+        calibration,
+        samplingPlan,
+        queue: detectorId === 'gemini' ? queueSettings : LOCAL_QUEUE_SETTINGS,
+        signal: controller.signal,
+        checkpoint: checkpoint ?? undefined,
+        consensus
       });
       
       setResult(data);
+      setInspectedTrackId(null);
+      setHighlightedEvent(null);
       setStatus(AnalysisStatus.COMPLETE);
+      persistResult(data, source, { source: detectorId, classicalParams, calibration });
     } catch (err: any) {
       console.error(err);
+      if (controller.signal.aborted) {
+        // Cancelled on purpose: back to the settings, the checkpoint lets the next start resume
+        setStatus(AnalysisStatus.IDLE);
+        setNotice(err.message);
+        return;
+      }
       setStatus(AnalysisStatus.ERROR);
       setErrorMsg(err.message || "Failed to analyze video. Please check your API key and try again.");
+    } finally {
+      abortRef.current = null;
     }
   };
 
+  // Tracks from another tool: no detection, just convert and display
+  const handleImport = async (videoFile: File | ImageSequence, trackSource: File) => {
+    runRef.current++;
+    setProject(null);
+    setEditMode(false);
+    setSelection(null);
+    setRedoStack([]);
+    setInspectedTrackId(null);
+    setHighlightedEvent(null);
+    setNotice(null);
+    try {
+      setStatus(AnalysisStatus.ANALYZING);
+      setProgress(0);
+      setErrorMsg(null);
+
+      const data = await importTrackingResults(videoFile, trackSource, (p, msg) => {
+        setProgress(Math.round(p));
+        setProgressMessage(msg);
+      }, calibration);
+
+      setResult(data);
+      setStatus(AnalysisStatus.COMPLETE);
+      persistResult(data, videoFile, { source: 'import', calibration });
+    } catch (err: any) {
+      console.error(err);
+      setStatus(AnalysisStatus.ERROR);
+      setErrorMsg(err.message || "Failed to import the tracks file.");
+    }
+  };
+
+  // Every finished analysis becomes a project and is added to the local library.
+  // Saving is best effort: a full or unavailable IndexedDB must not hide the result.
+  const persistResult = async (data: AnalysisResult, videoFile: File | ImageSequence, settings: AnalysisSettings) => {
+    const run = runRef.current;
+    try {
+      const video = await getVideoReference(videoFile);
+      if (runRef.current !== run) return;
+      // Edits or retries made while the footage was hashed belong in the project too
+      const saved = createProject(resultRef.current ?? data, settings, video);
+      setProject(saved);
+      setVideoMismatch(false);
+      await saveToLibrary(saved, await captureThumbnail(videoFile));
+    } catch (err) {
+      console.warn("Could not save the analysis to the library:", err);
+    }
+  };
+
+  // Restores the dashboard from a saved project; the video is attached separately
+  const handleOpenProject = (opened: ProjectFile) => {
+    runRef.current++;
+    setEditMode(false);
+    setSelection(null);
+    setInspectedTrackId(null);
+    setHighlightedEvent(null);
+    setRedoStack([]);
+    setProject(opened);
+    setResult(opened.result);
+    setCalibration(opened.settings.calibration);
+    if (opened.settings.classicalParams) setClassicalParams(opened.settings.classicalParams);
+    if (opened.result.samplingPlan) setSamplingPlan({ ...DEFAULT_SAMPLING_PLAN, ...opened.result.samplingPlan });
+    setFile(null);
+    setSequence(null);
+    setTracksFile(null);
+    setVideoUrl(null);
+    setVideoMismatch(false);
+    setCurrentTime(0);
+    setErrorMsg(null);
+    setStatus(AnalysisStatus.COMPLETE);
+  };
+
+  // Flags footage that differs from the analysed one; when either of them cannot be hashed the check is skipped
+  const checkVideoMismatch = async (source: File | ImageSequence, expected: string | null) => {
+    if (expected === null) {
+      setVideoMismatch(false);
+      return;
+    }
+    try {
+      setVideoMismatch((await fingerprintVideo(source)).fingerprint !== expected);
+    } catch (err) {
+      console.warn("Could not compare the footage with the analysed one:", err);
+      setVideoMismatch(false);
+    }
+  };
+
+  const handleAttachVideo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from<File>(e.target.files ?? []);
+    if (selected.length === 0 || !project) return;
+    if (selected.length > 1 || isSequenceFile(selected[0])) {
+      try {
+        const loaded = await loadImageSequence(selected);
+        await checkVideoMismatch(loaded, project.video.fingerprint);
+        setSequence(loaded);
+        setFile(null);
+        setVideoUrl(null);
+      } catch (err: any) {
+        setStatus(AnalysisStatus.ERROR);
+        setErrorMsg(err.message || "Could not read the image sequence.");
+      }
+      return;
+    }
+    await checkVideoMismatch(selected[0], project.video.fingerprint);
+    setSequence(null);
+    setFile(selected[0]);
+    setVideoUrl(URL.createObjectURL(selected[0]));
+  };
+
+  const handleSaveProject = () => {
+    if (!project) return;
+    downloadFile({ filename: getProjectFilename(project), mimeType: 'application/json', content: serializeProject(project) });
+  };
+
+  // Detector that produced the shown result; failed frames are retried with the same one
+  const resultDetector: DetectorId | 'import' = project?.settings.source ?? detectorId;
+  const retryDisabledReason = !source
+    ? 'Attach the original video first'
+    : resultDetector === 'import'
+      ? 'Imported tracks cannot be re-analysed'
+      : result?.curation?.edits.length
+        ? 'The result has manual edits, which a retry would discard'
+        : resultDetector === 'gemini' && !apiKey
+          ? 'Requires a Gemini API key'
+          : null;
+
+  const handleRetryFailed = async () => {
+    if (!source || !result || resultDetector === 'import') return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRetryMessage("Starting...");
+    setRetryError(null);
+    try {
+      const updated = await retryFailedFrames(source, result, createProvider(resultDetector), (p, msg) => {
+        setRetryMessage(`${Math.round(p)}% · ${msg}`);
+      }, {
+        queue: resultDetector === 'gemini' ? queueSettings : LOCAL_QUEUE_SETTINGS,
+        signal: controller.signal
+      });
+      setResult(updated);
+      setSelection(null);
+      if (project) {
+        const saved = { ...project, result: updated };
+        setProject(saved);
+        updateLibraryProject(saved).catch(err => console.warn("Could not update the library:", err));
+      }
+    } catch (err: any) {
+      console.error(err);
+      if (!controller.signal.aborted) setRetryError(err.message || "Retrying the failed frames did not succeed.");
+    } finally {
+      abortRef.current = null;
+      setRetryMessage(null);
+    }
+  };
+
+  // --- Manual curation ---
+  // The result keeps the original frames and the edit list; the shown frames are the edits applied in order.
+  // Undoing the last edit drops the history, so the result counts as uncurated again.
+  const commitCuration = (frames: FrameData[], edits: CurationEdit[]) => {
+    if (!result) return;
+    const originalFrames = result.curation?.originalFrames ?? result.frames;
+    const { curation: _previous, ...base } = result;
+    const curated: AnalysisResult = edits.length > 0 ? { ...base, frames, curation: { originalFrames, edits } } : { ...base, frames };
+    setResult(curated);
+    setCurationError(null);
+    if (project) {
+      const updated = { ...project, result: curated };
+      setProject(updated);
+      updateLibraryProject(updated).catch(err => console.warn("Could not update the library:", err));
+    }
+  };
+
+  const handleCurationEdit = (edit: CurationEdit) => {
+    if (!result) return;
+    try {
+      const frames = applyCurationEdit(structuredClone(result.frames), edit);
+      commitCuration(frames, [...(result.curation?.edits ?? []), edit]);
+      setRedoStack([]);
+      if (edit.type === 'add') {
+        const added = frames[edit.frameIndex].cells.find(c => c.x === edit.x && c.y === edit.y);
+        setSelection(added ? { frameIndex: edit.frameIndex, cellId: added.id } : null);
+      } else if (edit.type === 'relabel') {
+        setSelection(selection && { ...selection, cellId: edit.newId });
+      } else if (edit.type !== 'move' && edit.type !== 'status') {
+        setSelection(null);
+      }
+    } catch (err: any) {
+      setCurationError(err.message || "This edit is not possible.");
+    }
+  };
+
+  const handleUndo = () => {
+    const history = result?.curation;
+    if (!history || history.edits.length === 0) return;
+    const edits = history.edits.slice(0, -1);
+    commitCuration(replayCuration({ originalFrames: history.originalFrames, edits }), edits);
+    setRedoStack([...redoStack, history.edits[history.edits.length - 1]]);
+    setSelection(null);
+  };
+
+  const handleRedo = () => {
+    if (!result || redoStack.length === 0) return;
+    const edit = redoStack[redoStack.length - 1];
+    try {
+      const frames = applyCurationEdit(structuredClone(result.frames), edit);
+      commitCuration(frames, [...(result.curation?.edits ?? []), edit]);
+      setRedoStack(redoStack.slice(0, -1));
+    } catch (err: any) {
+      setCurationError(err.message || "This edit cannot be redone.");
+    }
+  };
+
+  // Keyboard shortcuts while editing (ignored while typing in a field)
+  useEffect(() => {
+    if (!editMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if ((key === 'delete' || key === 'backspace') && selection) {
+        e.preventDefault();
+        handleCurationEdit({ type: 'delete', frameIndex: selection.frameIndex, cellId: selection.cellId });
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const selectedCell = result && selection
+    ? result.frames[selection.frameIndex]?.cells.find(c => c.id === selection.cellId) ?? null
+    : null;
+
+  // Jumps the player to an event from the log and marks the cells involved
+  const handleSelectEvent = (event: TimelineEvent) => {
+    setHighlightedEvent(event);
+    playerRef.current?.seek(event.timestamp);
+  };
+
+  const handleNewAnalysis = () => {
+    runRef.current++;
+    setEditMode(false);
+    setSelection(null);
+    setInspectedTrackId(null);
+    setHighlightedEvent(null);
+    setRedoStack([]);
+    setResult(null);
+    setProject(null);
+    setFile(null);
+    setSequence(null);
+    setTracksFile(null);
+    setVideoUrl(null);
+    setVideoMismatch(false);
+    setCurrentTime(0);
+    setStatus(AnalysisStatus.IDLE);
+  };
+
   if (!isKeySet) {
     return (
       <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
@@ -134,6 +564,13 @@ function App() {
             <p className="text-xs text-center text-slate-500 mt-4">
               Don't have a key? <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-emerald-400 hover:underline">Get one here</a>
             </p>
+            <button
+              type="button"
+              onClick={handleContinueWithoutKey}
+              className="w-full text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors"
+            >
+              Or continue without a key (classical detector or offline demo)
+            </button>
           </form>
         </div>
       </div>
@@ -154,11 +591,22 @@ function App() {
             </h1>
           </div>
           <div className="flex items-center space-x-4">
+            {result && (
+              <button
+                onClick={handleNewAnalysis}
+                className="text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors"
+              >
+                New Analysis
+              </button>
+            )}
+            {!apiKey && (
+              <span className="text-xs px-2 py-1 rounded bg-amber-500/10 text-amber-400 font-mono">Local detection only</span>
+            )}
             <button 
               onClick={() => { setIsKeySet(false); setApiKey(''); }}
               className="text-xs text-slate-500 hover:text-slate-300 font-mono transition-colors"
             >
-              Change API Key
+              {apiKey ? 'Change API Key' : 'Use API Key'}
             </button>
           </div>
         </div>
@@ -174,7 +622,15 @@ function App() {
                   type="file" 
                   id="video-upload" 
                   className="hidden" 
-                  accept="video/mp4,video/webm,video/quicktime,video/x-matroska"
+                  accept="video/mp4,video/webm,video/quicktime,video/x-matroska,.tif,.tiff,image/tiff,image/png,image/jpeg"
+                  multiple
+                  onChange={handleFileChange}
+                />
+                <input
+                  type="file"
+                  id="folder-upload"
+                  className="hidden"
+                  ref={(input) => input?.setAttribute('webkitdirectory', '')}
                   onChange={handleFileChange}
                 />
                 <label htmlFor="video-upload" className="cursor-pointer flex flex-col items-center">
@@ -183,18 +639,29 @@ function App() {
                   </div>
                   <h3 className="text-xl font-semibold text-slate-100 mb-2">Upload Microscopy Video</h3>
                   <p className="text-slate-400 max-w-sm mx-auto mb-6">
-                    Support for MP4, WebM, and MOV. <br/>AI will extract frames, identify cells, and visualize tracking.
+                    Support for MP4, WebM, and MOV, multi-page TIFF stacks (8/16-bit) and numbered image files. <br/>AI will extract frames, identify cells, and visualize tracking.
                   </p>
                   <span className="px-6 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white font-medium rounded-lg transition-colors shadow-lg shadow-emerald-600/20">
                     Select File
                   </span>
                 </label>
+                <label htmlFor="folder-upload" className="inline-block mt-4 cursor-pointer text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors">
+                  or open a folder of images
+                </label>
              </div>
+             {!source && (
+               <div className="mt-8">
+                 <AnalysisLibrary
+                   onOpen={handleOpenProject}
+                   onError={(message) => { setStatus(AnalysisStatus.ERROR); setErrorMsg(message); }}
+                 />
+               </div>
+             )}
           </div>
         )}
 
         {/* Processing State with Detailed Feedback */}
-        {(status === AnalysisStatus.ANALYZING || (status === AnalysisStatus.IDLE && file && !result)) && (
+        {(status === AnalysisStatus.ANALYZING || (status === AnalysisStatus.IDLE && source && !result)) && (
           <div className="bg-slate-800 rounded-xl border border-slate-700 p-6 flex flex-col space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
             <div className="flex items-center justify-between flex-wrap gap-4">
               <div className="flex items-center space-x-4">
@@ -202,8 +669,11 @@ function App() {
                    <FileVideo className="text-slate-300" size={24} />
                  </div>
                  <div>
-                   <h3 className="text-lg font-medium text-slate-100">{file?.name}</h3>
-                   <p className="text-sm text-slate-400">{(file?.size ? file.size / 1024 / 1024 : 0).toFixed(2)} MB</p>
+                   <h3 className="text-lg font-medium text-slate-100">{source?.name ?? 'Image sequence'}</h3>
+                   <p className="text-sm text-slate-400">
+                     {(sourceSize / 1024 / 1024).toFixed(2)} MB
+                     {sequence && ` · ${sequence.frameUrls.length} frames · ${sequence.width}×${sequence.height}px`}
+                   </p>
                  </div>
               </div>
               
@@ -213,17 +683,71 @@ function App() {
                   className="flex items-center px-6 py-2.5 bg-gradient-to-r from-emerald-600 to-cyan-600 hover:from-emerald-500 hover:to-cyan-500 text-white font-medium rounded-lg transition-all shadow-lg"
                 >
                   <Dna size={18} className="mr-2" />
-                  Start Analysis
+                  {tracksFile ? 'Load Tracks' : 'Start Analysis'}
                 </button>
               )}
 
               {status === AnalysisStatus.ANALYZING && (
-                <div className="flex items-center text-emerald-400">
-                  <Loader2 className="animate-spin mr-2" size={20} />
-                  <span className="font-medium">{progress}%</span>
+                <div className="flex items-center space-x-4">
+                  <div className="flex items-center text-emerald-400">
+                    <Loader2 className="animate-spin mr-2" size={20} />
+                    <span className="font-medium">{progress}%</span>
+                  </div>
+                  {abortRef.current && (
+                    <button
+                      onClick={() => abortRef.current?.abort()}
+                      className="flex items-center px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors text-sm"
+                      title="Stop after the frames in flight; finished frames are kept for resuming"
+                    >
+                      <XCircle size={16} className="mr-1.5" /> Cancel
+                    </button>
+                  )}
                 </div>
               )}
             </div>
+
+            {status === AnalysisStatus.IDLE && notice && (
+              <p className="text-sm text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">{notice}</p>
+            )}
+
+            {status === AnalysisStatus.IDLE && !tracksFile && (
+              <DetectorSettings
+                detectorId={detectorId}
+                onDetectorChange={setDetectorId}
+                params={classicalParams}
+                onParamsChange={setClassicalParams}
+                hasApiKey={apiKey.length > 0}
+                queue={queueSettings}
+                onQueueChange={setQueueSettings}
+                consensus={consensus}
+                onConsensusChange={setConsensus}
+              />
+            )}
+
+            {status === AnalysisStatus.IDLE && !tracksFile && detectorId === 'gemini' && (
+              <ResponseCachePanel />
+            )}
+
+            {status === AnalysisStatus.IDLE && !tracksFile && (
+              <SamplingSettings
+                plan={samplingPlan}
+                onChange={setSamplingPlan}
+                metadata={sourceMetadata}
+                frameRate={sequence?.fps}
+                previewUrl={sequence ? sequence.frameUrls[0] : videoUrl}
+                previewIsVideo={!sequence}
+                usesApi={detectorId === 'gemini'}
+                passes={consensus.passes}
+              />
+            )}
+
+            {status === AnalysisStatus.IDLE && (
+              <TrackImportSettings tracksFile={tracksFile} onChange={setTracksFile} />
+            )}
+
+            {status === AnalysisStatus.IDLE && (
+              <CalibrationSettings calibration={calibration} onChange={setCalibration} />
+            )}
             
             {status === AnalysisStatus.ANALYZING && (
               <div className="space-y-2">
@@ -255,12 +779,26 @@ function App() {
                 onClick={() => {
                   setStatus(AnalysisStatus.IDLE);
                   setFile(null); // Reset file to force new upload attempt
+                  setSequence(null);
+                  setTracksFile(null);
                   setResult(null);
                 }} 
                 className="px-6 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors text-sm"
              >
                Try Another File
              </button>
+             {source && !result && (
+               <button
+                 onClick={() => {
+                   // Keep the footage: starting again resumes from the saved frames
+                   setStatus(AnalysisStatus.IDLE);
+                   setErrorMsg(null);
+                 }}
+                 className="flex items-center text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors"
+               >
+                 <RotateCcw size={14} className="mr-1" /> Back to settings
+               </button>
+             )}
            </div>
         )}
 
@@ -269,20 +807,107 @@ function App() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-in fade-in duration-700">
             {/* Left Column: Video Player */}
             <div className="lg:col-span-2 space-y-6">
+              {project && !videoUrl && !sequence && (
+                <label className="flex items-center justify-between cursor-pointer bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-200 hover:bg-amber-500/20 transition-colors">
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept="video/mp4,video/webm,video/quicktime,video/x-matroska,.tif,.tiff,image/tiff,image/png,image/jpeg"
+                    multiple
+                    onChange={handleAttachVideo}
+                  />
+                  <span>Attach the original video <span className="font-mono">{project.video.name}</span> to see the overlays.</span>
+                  <Link size={16} className="ml-2 flex-shrink-0" />
+                </label>
+              )}
+              {videoMismatch && (
+                <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-200 flex items-center">
+                  <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+                  This video does not match the one the analysis was made on ({project?.video.name}). Overlays may not line up.
+                </div>
+              )}
+              <FailedFramesNotice
+                frames={result.frames}
+                onRetry={handleRetryFailed}
+                retryDisabledReason={retryDisabledReason}
+                retryMessage={retryMessage}
+                error={retryError}
+                onCancel={() => abortRef.current?.abort()}
+              />
+              <ValidationWarnings frames={result.frames} />
               <div className="bg-slate-800 rounded-xl p-1 border border-slate-700 shadow-2xl">
                 <VideoPlayer 
+                  ref={playerRef}
                   videoUrl={videoUrl} 
+                  sequence={sequence}
                   frames={result.frames} 
                   onTimeUpdate={setCurrentTime}
+                  calibration={result.calibration}
+                  editMode={editMode}
+                  selection={selection}
+                  onSelect={setSelection}
+                  onEdit={handleCurationEdit}
+                  inspectedTrackId={inspectedTrackId}
+                  onInspect={setInspectedTrackId}
+                  highlightedEvent={highlightedEvent}
                 />
               </div>
+
+              {inspectedTrackId !== null && (
+                <CellInspector
+                  frames={result.frames}
+                  trackId={inspectedTrackId}
+                  currentTime={currentTime}
+                  videoUrl={videoUrl}
+                  sequence={sequence}
+                  calibration={result.calibration}
+                  video={result.video}
+                  onSelectTrack={setInspectedTrackId}
+                  onClose={() => setInspectedTrackId(null)}
+                />
+              )}
+
+              <CurationPanel
+                editMode={editMode}
+                onToggleEditMode={() => { setEditMode(!editMode); setSelection(null); setCurationError(null); }}
+                edits={result.curation?.edits ?? []}
+                redoStack={redoStack}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onEdit={handleCurationEdit}
+                selection={selection}
+                selectedCell={selectedCell}
+                error={curationError}
+              />
               
               {/* Short Summary Card */}
               <div className="bg-slate-800/60 rounded-xl p-6 border border-slate-700">
-                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-2">Analysis Summary</h3>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Analysis Summary</h3>
+                  <div className="flex items-center space-x-2">
+                    {project && (
+                      <button
+                        onClick={handleSaveProject}
+                        className="flex items-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors text-sm"
+                      >
+                        <Save size={16} className="mr-2 text-emerald-400" />
+                        Save Project
+                      </button>
+                    )}
+                    <ExportMenu result={result} sourceName={source?.name || project?.video.name || 'celltracker'} />
+                  </div>
+                </div>
                 <p className="text-slate-200 leading-relaxed">{result.summary}</p>
               </div>
 
+              <MotilityPanel
+                frames={result.frames}
+                currentTime={currentTime}
+                calibration={result.calibration}
+                video={result.video}
+                onInspect={setInspectedTrackId}
+              />
+
                {/* Extended Report Section */}
               <div className="bg-slate-900 rounded-xl border border-slate-700 overflow-hidden shadow-2xl mt-8">
                  <div className="bg-slate-800 p-4 border-b border-slate-700 flex items-center">
@@ -297,8 +922,16 @@ function App() {
 
             {/* Right Column: Analytics */}
             <div className="space-y-6">
-              <AnalysisCharts data={result.frames} currentTime={currentTime} />
-              <EventLog frames={result.frames} currentTime={currentTime} />
+              <AnalysisCharts data={result.frames} currentTime={currentTime} calibration={result.calibration} changeProfile={result.changeProfile} />
+              <EventLog
+                frames={result.frames}
+                currentTime={currentTime}
+                calibration={result.calibration}
+                onInspect={setInspectedTrackId}
+                selectedEvent={highlightedEvent}
+                onSelectEvent={handleSelectEvent}
+              />
+              <LineageTree frames={result.frames} currentTime={currentTime} calibration={result.calibration} />
             </div>
           </div>
         )}
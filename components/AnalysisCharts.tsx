@@ -1,30 +1,64 @@
 import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { FrameData } from '../types';
+import { Line, Area, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Calibration, ChangeSample, FrameData } from '../types';
+import { getTimeUnit, toDisplayTime } from '../services/calibrationService';
+import { getChangeScoreAt } from '../services/samplingService';
+import { isUsableFrame } from '../services/frameStatusService';
 
 interface AnalysisChartsProps {
   data: FrameData[];
   currentTime: number;
+  calibration?: Calibration;
+  changeProfile?: ChangeSample[]; // Adaptive sampling pre-scan, shown under the growth curve
 }
 
-const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data, currentTime }) => {
+const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data, currentTime, calibration, changeProfile }) => {
   if (data.length === 0) return null;
 
+  // Plot against real culture time when calibrated, video seconds otherwise
+  const unit = getTimeUnit(calibration);
+  // Failed frames have no count: the curve bridges them and a red line marks each one
+  // Consensus mode: a band from the lowest to the highest count among the passes of each frame
+  const chartData = data.map(f => ({
+    ...f,
+    time: toDisplayTime(f.timestamp, calibration),
+    cellCount: isUsableFrame(f) ? f.cellCount : null,
+    countRange: isUsableFrame(f) && f.passCounts && f.passCounts.length > 1 ? [Math.min(...f.passCounts), Math.max(...f.passCounts)] : null
+  }));
+  const hasRange = chartData.some(d => d.countRange !== null);
+  const failedTimes = data.filter(f => !isUsableFrame(f)).map(f => toDisplayTime(f.timestamp, calibration));
+  const formatTick = (val: number) => unit === 'h' ? `${Number(val.toFixed(2))}h` : `${Number(val.toFixed(1))}s`;
+
+  // Scan curve plus one marker per sampled frame at the change score of its scan interval
+  const hasProfile = !!changeProfile && changeProfile.length > 1;
+  const changeData = hasProfile
+    ? [
+        ...changeProfile!.map(p => ({ time: toDisplayTime(p.time, calibration), score: p.score })),
+        ...data.map(f => ({ time: toDisplayTime(f.timestamp, calibration), sampled: getChangeScoreAt(changeProfile!, f.timestamp) }))
+      ].sort((a, b) => a.time - b.time)
+    : [];
+
   return (
-    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg h-[350px]">
+    <div className={`bg-slate-800 p-6 rounded-xl border border-slate-700 shadow-lg ${hasProfile ? '' : 'h-[350px]'}`}>
       <h3 className="text-lg font-semibold text-slate-100 mb-4 flex items-center">
         <span className="w-2 h-6 bg-emerald-500 rounded mr-2"></span>
         Population Growth
+        {failedTimes.length > 0 && (
+          <span className="ml-2 text-xs text-red-400 font-normal">({failedTimes.length} failed frame{failedTimes.length === 1 ? '' : 's'} marked in red, not counted)</span>
+        )}
+        {hasRange && (
+          <span className="ml-2 text-xs text-slate-500 font-normal">(band: range of counts across detection passes)</span>
+        )}
       </h3>
       <div className="w-full h-[280px]">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data}>
+          <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
             <XAxis 
-              dataKey="timestamp" 
+              dataKey="time" 
               stroke="#94a3b8" 
-              tickFormatter={(val) => `${val}s`}
-              label={{ value: 'Time (s)', position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }}
+              tickFormatter={formatTick}
+              label={{ value: `Time (${unit})`, position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }}
             />
             <YAxis 
               stroke="#94a3b8"
@@ -33,8 +67,12 @@ const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data, currentTime }) =>
             <Tooltip 
               contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
               itemStyle={{ color: '#34d399' }}
-              labelFormatter={(label) => `Time: ${label}s`}
+              labelFormatter={(label) => `Time: ${formatTick(Number(label))}`}
+              formatter={(value: number | number[], name: string) => Array.isArray(value) ? [`${value[0]}-${value[1]}`, 'Pass range'] : [value, name]}
             />
+            {hasRange && (
+              <Area type="monotone" dataKey="countRange" stroke="none" fill="#34d399" fillOpacity={0.15} connectNulls isAnimationActive={false} />
+            )}
             <Line 
               type="monotone" 
               dataKey="cellCount" 
@@ -43,12 +81,40 @@ const AnalysisCharts: React.FC<AnalysisChartsProps> = ({ data, currentTime }) =>
               dot={false}
               activeDot={{ r: 6, fill: '#10b981' }}
               animationDuration={500}
+              connectNulls
             />
+            {failedTimes.map(time => (
+              <ReferenceLine key={time} x={time} stroke="#ef4444" strokeOpacity={0.6} />
+            ))}
             {/* Sync Line */}
-            <ReferenceLine x={currentTime} stroke="#f472b6" strokeDasharray="3 3" />
-          </LineChart>
+            <ReferenceLine x={toDisplayTime(currentTime, calibration)} stroke="#f472b6" strokeDasharray="3 3" />
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+      {hasProfile && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-slate-300 mb-2">
+            Scene change <span className="text-xs text-slate-500 font-normal">(dots: sampled frames)</span>
+          </h4>
+          <div className="w-full h-[140px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={changeData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tickFormatter={formatTick} />
+                <YAxis stroke="#94a3b8" width={40} tickFormatter={(val: number) => `${Number(val.toFixed(1))}%`} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' }}
+                  labelFormatter={(label) => `Time: ${formatTick(Number(label))}`}
+                  formatter={(value: number, name: string) => [`${value.toFixed(2)}%`, name === 'sampled' ? 'Sampled frame' : 'Change']}
+                />
+                <Area type="stepBefore" dataKey="score" stroke="#64748b" fill="#64748b" fillOpacity={0.3} connectNulls isAnimationActive={false} />
+                <Line dataKey="sampled" stroke="none" dot={{ r: 3, fill: '#f59e0b', stroke: '#f59e0b' }} activeDot={false} isAnimationActive={false} />
+                <ReferenceLine x={toDisplayTime(currentTime, calibration)} stroke="#f472b6" strokeDasharray="3 3" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryEntry, ProjectFile } from '../types';
+import { deleteFromLibrary, listLibrary, loadFromLibrary, parseProject } from '../services/projectService';
+import { Library, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+
+interface AnalysisLibraryProps {
+  onOpen: (project: ProjectFile) => void;
+  onError: (message: string) => void;
+}
+
+const SOURCE_LABELS: Record<LibraryEntry['source'], string> = {
+  gemini: 'Gemini',
+  classical: 'Classical CV',
+  simulated: 'Offline demo',
+  import: 'Imported tracks'
+};
+
+const AnalysisLibrary: React.FC<AnalysisLibraryProps> = ({ onOpen, onError }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listLibrary()
+      .then(setEntries)
+      .catch(err => console.warn('Library unavailable:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    try {
+      onOpen(await loadFromLibrary(id));
+    } catch (err: any) {
+      onError(err.message || 'Could not open this analysis.');
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteFromLibrary(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (err: any) {
+      onError(err.message || 'Could not remove this analysis from the library.');
+    }
+  };
+
+  const handleProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const projectFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!projectFile) return;
+    try {
+      onOpen(parseProject(await projectFile.text()));
+    } catch (err: any) {
+      onError(err.message || 'Could not read the project file.');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+          <Library className="mr-2 text-emerald-500" size={20} />
+          Analysis Library
+        </h3>
+        <label className="flex items-center cursor-pointer text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors">
+          <input type="file" className="hidden" accept=".json,application/json" onChange={handleProjectFile} />
+          <FolderOpen size={14} className="mr-1" />
+          Open project file
+        </label>
+      </div>
+      <div className="p-2 max-h-[360px] overflow-y-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-6 text-slate-500"><Loader2 className="animate-spin" size={20} /></div>
+        ) : entries.length === 0 ? (
+          <div className="text-center text-slate-500 py-6 text-sm">Completed analyses are saved here automatically.</div>
+        ) : (
+          entries.map(entry => (
+            <div key={entry.id} className="flex items-center p-2 rounded-lg hover:bg-slate-700/40 transition-colors group">
+              <div className="w-20 h-14 flex-shrink-0 bg-black rounded overflow-hidden mr-3 flex items-center justify-center">
+                {entry.thumbnail
+                  ? <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                  : <span className="text-2xl">🔬</span>}
+              </div>
+              <button onClick={() => handleOpen(entry.id)} className="flex-1 min-w-0 text-left">
+                <div className="text-sm text-slate-100 truncate">{entry.videoName}</div>
+                <div className="text-xs text-slate-500">
+                  {new Date(entry.savedAt).toLocaleString()} · {SOURCE_LABELS[entry.source]}
+                </div>
+                <div className="text-xs text-slate-400 font-mono">
+                  {entry.stats.frames} frames · {entry.stats.tracks} tracks · {entry.stats.initialCount}→{entry.stats.finalCount} cells · {entry.stats.divisions} divisions
+                </div>
+              </button>
+              {openingId === entry.id ? (
+                <Loader2 className="animate-spin text-emerald-400 ml-2" size={16} />
+              ) : (
+                <button
+                  onClick={() => handleDelete(entry.id)}
+                  className="ml-2 text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                  title="Remove from library"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisLibrary;
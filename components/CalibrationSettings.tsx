@@ -0,0 +1,87 @@
+import React from 'react';
+import { Calibration } from '../types';
+import { Ruler } from 'lucide-react';
+
+interface CalibrationSettingsProps {
+  calibration: Calibration;
+  onChange: (calibration: Calibration) => void;
+}
+
+// Helper: Empty or non-positive input means "not calibrated"
+const parsePositive = (value: string): number | null => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const CalibrationSettings: React.FC<CalibrationSettingsProps> = ({ calibration, onChange }) => {
+  const inputClass = "w-full px-3 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-slate-300 flex items-center">
+        <Ruler className="mr-2 text-emerald-500" size={16} />
+        Calibration <span className="ml-2 text-xs text-slate-500 font-normal">(optional, leave empty for frame % and video seconds)</span>
+      </h4>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span>Pixel size (µm/pixel)</span>
+          <input
+            type="number" min={0} step="any"
+            value={calibration.micronsPerPixel ?? ''}
+            placeholder="e.g. 0.65"
+            onChange={(e) => onChange({ ...calibration, micronsPerPixel: parsePositive(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Time given as</span>
+          <select
+            value={calibration.timeMode}
+            onChange={(e) => onChange({ ...calibration, timeMode: e.target.value as Calibration['timeMode'] })}
+            className={inputClass}
+          >
+            <option value="perVideoSecond">Real time per video second</option>
+            <option value="perFrame">Frame interval</option>
+          </select>
+        </label>
+        {calibration.timeMode === 'perVideoSecond' ? (
+          <label className="space-y-1 col-span-2">
+            <span>Minutes of culture per video second</span>
+            <input
+              type="number" min={0} step="any"
+              value={calibration.minutesPerVideoSecond ?? ''}
+              placeholder="e.g. 16 (12 h in 45 s)"
+              onChange={(e) => onChange({ ...calibration, minutesPerVideoSecond: parsePositive(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        ) : (
+          <>
+            <label className="space-y-1">
+              <span>Acquisition interval (min/frame)</span>
+              <input
+                type="number" min={0} step="any"
+                value={calibration.frameIntervalMinutes ?? ''}
+                placeholder="e.g. 5"
+                onChange={(e) => onChange({ ...calibration, frameIntervalMinutes: parsePositive(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>Video frame rate (fps)</span>
+              <input
+                type="number" min={0} step="any"
+                value={calibration.videoFps ?? ''}
+                placeholder="e.g. 10"
+                onChange={(e) => onChange({ ...calibration, videoFps: parsePositive(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationSettings;
@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Calibration, FrameData, ImageSequence, VideoMetadata } from '../types';
+import { formatTime, getTimeUnit, isSpaceCalibrated, toDisplayTime, widthPercentToMicrons } from '../services/calibrationService';
+import { buildTrackProfile, CROP_SIZE, extractCellCrops, selectCropPoints } from '../services/inspectorService';
+import { Microscope, X, Loader2 } from 'lucide-react';
+
+interface CellInspectorProps {
+  frames: FrameData[];
+  trackId: number;
+  currentTime: number;
+  videoUrl: string | null; // Footage for the image crops
+  sequence: ImageSequence | null;
+  calibration?: Calibration;
+  video?: VideoMetadata;
+  onSelectTrack: (trackId: number) => void; // Jump to the mother or a daughter
+  onClose: () => void;
+}
+
+// Status strip colours; other labels cycle through FALLBACK_COLORS in order of appearance
+const STATUS_COLORS: Record<string, string> = {
+  Normal: '#34d399',
+  Dividing: '#06b6d4',
+  Metaphase: '#22d3ee',
+  Anaphase: '#67e8f9',
+  Telophase: '#a5f3fc',
+  Apoptotic: '#ef4444',
+  Lysing: '#b91c1c',
+  Blebbing: '#f97316'
+};
+const FALLBACK_COLORS = ['#a78bfa', '#f472b6', '#facc15', '#60a5fa', '#fb923c', '#94a3b8'];
+
+const tooltipStyle = { backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' };
+
+// Everything about one track: trajectory, status and size over time, image crops and events
+const CellInspector: React.FC<CellInspectorProps> = ({ frames, trackId, currentTime, videoUrl, sequence, calibration, video, onSelectTrack, onClose }) => {
+  const profile = useMemo(() => buildTrackProfile(frames, trackId), [frames, trackId]);
+  // Crop data URLs by frame index
+  const [crops, setCrops] = useState<Map<number, string>>(new Map());
+  const [cropError, setCropError] = useState<string | null>(null);
+  const [isCropping, setIsCropping] = useState(false);
+
+  const cropPoints = useMemo(() => profile ? selectCropPoints(profile.points) : [], [profile]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCrops(new Map());
+    setCropError(null);
+    if (cropPoints.length === 0) return;
+    setIsCropping(true);
+    extractCellCrops(
+      { videoUrl, sequence },
+      cropPoints,
+      (point, url) => { if (!cancelled) setCrops(prev => new Map(prev).set(point.frameIndex, url)); },
+      () => cancelled
+    )
+      .catch(err => { if (!cancelled) setCropError(err.message || 'Could not extract image crops.'); })
+      .finally(() => { if (!cancelled) setIsCropping(false); });
+    return () => { cancelled = true; };
+  }, [cropPoints, videoUrl, sequence]);
+
+  const statusColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    profile?.points.forEach(p => {
+      if (!colors.has(p.status)) colors.set(p.status, STATUS_COLORS[p.status] ?? FALLBACK_COLORS[colors.size % FALLBACK_COLORS.length]);
+    });
+    return colors;
+  }, [profile]);
+
+  if (!profile) {
+    return (
+      <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg p-4 text-sm text-slate-400 flex items-center justify-between">
+        Cell #{trackId} is not in this analysis.
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200 transition-colors"><X size={18} /></button>
+      </div>
+    );
+  }
+
+  const { points } = profile;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const unit = getTimeUnit(calibration);
+  const microns = isSpaceCalibrated(calibration, video);
+  const lengthUnit = microns ? 'µm' : '% width';
+  const sizeData = points.map(p => {
+    const radius = microns ? widthPercentToMicrons(p.r, calibration, video)! : p.r;
+    return { time: toDisplayTime(p.timestamp, calibration), radius, area: Math.PI * radius * radius };
+  });
+  const formatTick = (val: number) => unit === 'h' ? `${Number(val.toFixed(2))}h` : `${Number(val.toFixed(1))}s`;
+
+  // Trajectory in frame coordinates; y is stretched by the frame's aspect ratio
+  const aspect = video && video.width > 0 ? video.height / video.width : 1;
+  const viewHeight = 100 * aspect;
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x.toFixed(2)},${(p.y * aspect).toFixed(2)}`).join(' ');
+  const current = points.reduce((best, p) => Math.abs(p.timestamp - currentTime) < Math.abs(best.timestamp - currentTime) ? p : best, first);
+  const span = Math.max(last.timestamp - first.timestamp, 1e-6);
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+          <Microscope className="mr-2 text-emerald-500" size={20} />
+          Cell #{profile.id}
+          <span className="ml-3 text-xs text-slate-400 font-normal font-mono">
+            {formatTime(first.timestamp, calibration)} – {formatTime(last.timestamp, calibration)} · {points.length} detections · generation {profile.generation}
+          </span>
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200 transition-colors" title="Close the inspector">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {(profile.parentId !== undefined || profile.childIds.length > 0) && (
+          <div className="text-xs text-slate-400 flex items-center gap-2 flex-wrap">
+            {profile.parentId !== undefined && (
+              <>Mother <button onClick={() => onSelectTrack(profile.parentId!)} className="font-mono text-emerald-400 hover:text-emerald-300">#{profile.parentId}</button></>
+            )}
+            {profile.childIds.length > 0 && (
+              <>Daughters {profile.childIds.map(id => (
+                <button key={id} onClick={() => onSelectTrack(id)} className="font-mono text-emerald-400 hover:text-emerald-300">#{id}</button>
+              ))}</>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Full trajectory */}
+          <div>
+            <div className="text-sm text-slate-300 mb-2">Trajectory</div>
+            <svg viewBox={`0 0 100 ${viewHeight}`} className="w-full bg-slate-900 rounded-lg border border-slate-700">
+              <path d={path} fill="none" stroke="#34d399" strokeWidth={0.4} strokeLinejoin="round" />
+              {points.map(p => (
+                <circle key={p.frameIndex} cx={p.x} cy={p.y * aspect} r={0.5} fill={statusColors.get(p.status)} />
+              ))}
+              <circle cx={first.x} cy={first.y * aspect} r={1.2} fill="none" stroke="#94a3b8" strokeWidth={0.4} />
+              <circle cx={current.x} cy={current.y * aspect} r={current.r} fill="none" stroke="#f472b6" strokeWidth={0.4} />
+            </svg>
+            <div className="text-xs text-slate-500 mt-1">Grey ring: first detection · pink: closest to the playback time</div>
+          </div>
+
+          {/* Radius and area */}
+          <div>
+            <div className="text-sm text-slate-300 mb-2">Size ({lengthUnit})</div>
+            <div className="h-[200px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={sizeData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#94a3b8" tickFormatter={formatTick} />
+                  <YAxis yAxisId="radius" stroke="#34d399" width={40} tickFormatter={(v) => Number(v).toPrecision(2)} />
+                  <YAxis yAxisId="area" orientation="right" stroke="#06b6d4" width={40} tickFormatter={(v) => Number(v).toPrecision(2)} />
+                  <Tooltip contentStyle={tooltipStyle}
+                    labelFormatter={(label) => `Time: ${formatTick(Number(label))}`}
+                    formatter={(value: number, name: string) => [value.toFixed(2), name === 'area' ? `Area (${lengthUnit}²)` : `Radius (${lengthUnit})`]} />
+                  <Line yAxisId="radius" type="monotone" dataKey="radius" stroke="#34d399" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line yAxisId="area" type="monotone" dataKey="area" stroke="#06b6d4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <ReferenceLine yAxisId="radius" x={toDisplayTime(currentTime, calibration)} stroke="#f472b6" strokeDasharray="3 3" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        {/* Status over time */}
+        <div>
+          <div className="text-sm text-slate-300 mb-2">Status</div>
+          <div className="flex h-4 rounded overflow-hidden border border-slate-700">
+            {points.map((p, i) => {
+              const end = i < points.length - 1 ? points[i + 1].timestamp : last.timestamp;
+              const width = points.length === 1 ? 100 : ((end - p.timestamp) / span) * 100;
+              return width > 0 ? (
+                <div key={p.frameIndex} style={{ width: `${width}%`, backgroundColor: statusColors.get(p.status) }}
+                  title={`${formatTime(p.timestamp, calibration)}: ${p.status}`} />
+              ) : null;
+            })}
+          </div>
+          <div className="flex gap-3 flex-wrap mt-2 text-xs text-slate-400">
+            {Array.from(statusColors.entries()).map(([status, color]) => (
+              <span key={status} className="flex items-center">
+                <span className="w-2.5 h-2.5 rounded-sm mr-1" style={{ backgroundColor: color }} />{status}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Image crops */}
+        <div>
+          <div className="text-sm text-slate-300 mb-2 flex items-center">
+            Image crops
+            {cropPoints.length < points.length && <span className="ml-2 text-xs text-slate-500">({cropPoints.length} of {points.length} detections)</span>}
+            {isCropping && <Loader2 size={14} className="ml-2 animate-spin text-slate-400" />}
+          </div>
+          {cropError && <p className="text-xs text-red-300 mb-2">{cropError}</p>}
+          <div className="flex gap-2 overflow-x-auto pb-2">
+            {cropPoints.map(p => (
+              <figure key={p.frameIndex} className="flex-shrink-0 text-center" style={{ width: CROP_SIZE }}>
+                {crops.has(p.frameIndex)
+                  ? <img src={crops.get(p.frameIndex)} alt={`Cell #${profile.id} at ${p.timestamp.toFixed(2)}s`} width={CROP_SIZE} height={CROP_SIZE} className="rounded border border-slate-700" />
+                  : <div className="bg-slate-900 rounded border border-slate-700" style={{ width: CROP_SIZE, height: CROP_SIZE }} />}
+                <figcaption className="text-[10px] font-mono text-slate-400 mt-1 truncate" title={p.status}>
+                  {formatTime(p.timestamp, calibration)}
+                  <span className="block" style={{ color: statusColors.get(p.status) }}>{p.status}</span>
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+
+        {/* Events */}
+        <div>
+          <div className="text-sm text-slate-300 mb-2 flex items-center gap-3 flex-wrap">
+            Events
+            {Object.entries(profile.eventCounts).map(([type, count]) => (
+              <span key={type} className="text-xs text-slate-400">{type} <span className="font-mono text-slate-300">{count}</span></span>
+            ))}
+          </div>
+          <ul className="text-xs font-mono space-y-1 max-h-40 overflow-y-auto">
+            {profile.events.map((e, i) => (
+              <li key={i} className="text-slate-300">
+                <span className="text-slate-500">{formatTime(e.timestamp, calibration)}</span> · <span className="text-emerald-400">{e.type}</span> · {e.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CellInspector;
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Cell, CellSelection, CurationEdit } from '../types';
+import { describeCurationEdit } from '../services/curationService';
+import { PencilRuler, Undo2, Redo2, Trash2, Scissors, RefreshCw } from 'lucide-react';
+
+interface CurationPanelProps {
+  editMode: boolean;
+  onToggleEditMode: () => void;
+  edits: CurationEdit[];
+  redoStack: CurationEdit[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onEdit: (edit: CurationEdit) => void;
+  selection: CellSelection | null;
+  selectedCell: Cell | null;
+  error: string | null;
+}
+
+// Suggestions for the status field; any text is accepted
+const STATUS_OPTIONS = ['Normal', 'Dividing', 'Mitosis', 'Anaphase', 'Apoptosis', 'Dying', 'Debris'];
+
+const CurationPanel: React.FC<CurationPanelProps> = ({
+  editMode, onToggleEditMode, edits, redoStack, onUndo, onRedo, onEdit, selection, selectedCell, error
+}) => {
+  const [status, setStatus] = useState('');
+  const [trackId, setTrackId] = useState('');
+
+  // Reset the inputs whenever another cell is picked
+  useEffect(() => {
+    setStatus(selectedCell?.status || 'Normal');
+    setTrackId(selectedCell ? String(selectedCell.id) : '');
+  }, [selection?.frameIndex, selection?.cellId, selectedCell?.status]);
+
+  const buttonClass = "flex items-center px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 text-slate-200 rounded-lg transition-colors text-xs";
+  const inputClass = "w-full px-3 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl flex items-center justify-between flex-wrap gap-2">
+        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+          <PencilRuler className="mr-2 text-emerald-500" size={20} />
+          Curation
+          {edits.length > 0 && <span className="ml-2 text-xs text-slate-500 font-normal">{edits.length} edit{edits.length === 1 ? '' : 's'}</span>}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={onUndo} disabled={edits.length === 0} className={buttonClass}
+            title={edits.length > 0 ? `Undo: ${describeCurationEdit(edits[edits.length - 1])} (Ctrl+Z)` : 'Nothing to undo'}>
+            <Undo2 size={14} className="mr-1" /> Undo
+          </button>
+          <button onClick={onRedo} disabled={redoStack.length === 0} className={buttonClass}
+            title={redoStack.length > 0 ? `Redo: ${describeCurationEdit(redoStack[redoStack.length - 1])} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+            <Redo2 size={14} className="mr-1" /> Redo
+          </button>
+          <button
+            onClick={onToggleEditMode}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${editMode ? 'bg-emerald-600 hover:bg-emerald-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+          >
+            {editMode ? 'Done Editing' : 'Edit Overlay'}
+          </button>
+        </div>
+      </div>
+
+      {editMode && (
+        <div className="p-4 space-y-4 text-sm">
+          <p className="text-xs text-slate-400">
+            Click empty space to add a cell, drag a cell to move it or its rim to resize it, and click a cell to select it.
+            Edits apply to the sampled frame shown on the video.
+          </p>
+
+          {error && <div className="text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">{error}</div>}
+
+          {selection && selectedCell ? (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs text-slate-400">
+              <label className="space-y-1">
+                <span>Status of #{selectedCell.id} (frame {selection.frameIndex + 1})</span>
+                <input
+                  list="curation-status-options"
+                  value={status}
+                  onChange={(e) => setStatus(e.target.value)}
+                  onBlur={() => status !== (selectedCell.status || 'Normal') && onEdit({ type: 'status', frameIndex: selection.frameIndex, cellId: selectedCell.id, status })}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className={inputClass}
+                />
+                <datalist id="curation-status-options">
+                  {STATUS_OPTIONS.map(option => <option key={option} value={option} />)}
+                </datalist>
+              </label>
+              <label className="space-y-1">
+                <span>Track ID (an existing ID merges the tracks)</span>
+                <input
+                  type="number" min={1} step={1}
+                  value={trackId}
+                  onChange={(e) => setTrackId(e.target.value)}
+                  onBlur={() => {
+                    const newId = parseInt(trackId, 10);
+                    if (newId !== selectedCell.id) onEdit({ type: 'relabel', trackId: selectedCell.id, newId });
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className={inputClass}
+                />
+              </label>
+              <div className="flex items-end space-x-2">
+                <button onClick={() => onEdit({ type: 'split', frameIndex: selection.frameIndex, trackId: selectedCell.id })} className={buttonClass}
+                  title="Give this and all later detections of the track a new ID">
+                  <Scissors size={14} className="mr-1" /> Split here
+                </button>
+                <button onClick={() => onEdit({ type: 'delete', frameIndex: selection.frameIndex, cellId: selectedCell.id })}
+                  className={`${buttonClass} hover:text-red-300`} title="Delete this detection (Del)">
+                  <Trash2 size={14} className="mr-1" /> Delete
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-slate-500">No cell selected.</div>
+          )}
+
+          <div className="flex items-center justify-between border-t border-slate-700 pt-3">
+            <span className="text-xs text-slate-500">
+              {edits.length > 0 ? `Last edit: ${describeCurationEdit(edits[edits.length - 1])}` : 'No edits yet.'}
+            </span>
+            <button onClick={() => onEdit({ type: 'relink' })} className={buttonClass}
+              title="Re-run automatic linking on the edited detections (replaces manual track IDs)">
+              <RefreshCw size={14} className="mr-1" /> Re-link all
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CurationPanel;
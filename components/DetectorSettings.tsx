@@ -0,0 +1,160 @@
+import React from 'react';
+import { ClassicalDetectorParams, ConsensusSettings, DetectorId, QueueSettings } from '../types';
+import { MAX_CONSENSUS_PASSES } from '../services/consensusService';
+import { Sparkles, ScanSearch, FlaskConical } from 'lucide-react';
+
+interface DetectorSettingsProps {
+  detectorId: DetectorId;
+  onDetectorChange: (id: DetectorId) => void;
+  params: ClassicalDetectorParams;
+  onParamsChange: (params: ClassicalDetectorParams) => void;
+  hasApiKey: boolean;
+  queue: QueueSettings; // Pacing of cloud requests
+  onQueueChange: (queue: QueueSettings) => void;
+  consensus: ConsensusSettings; // Detection passes per frame
+  onConsensusChange: (consensus: ConsensusSettings) => void;
+}
+
+const DETECTORS: { id: DetectorId; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'gemini', label: 'Gemini AI', description: 'Cells, morphology and events (cloud)', icon: <Sparkles size={18} /> },
+  { id: 'classical', label: 'Classical CV', description: 'Threshold + blob detection (in browser)', icon: <ScanSearch size={18} /> },
+  { id: 'simulated', label: 'Offline demo', description: 'Simulated detections', icon: <FlaskConical size={18} /> },
+];
+
+const DetectorSettings: React.FC<DetectorSettingsProps> = ({ detectorId, onDetectorChange, params, onParamsChange, hasApiKey, queue, onQueueChange, consensus, onConsensusChange }) => {
+  const inputClass = "w-full px-3 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {DETECTORS.map(d => {
+          const disabled = d.id === 'gemini' && !hasApiKey;
+          const selected = d.id === detectorId;
+          return (
+            <button
+              key={d.id}
+              disabled={disabled}
+              onClick={() => onDetectorChange(d.id)}
+              title={disabled ? 'Requires a Gemini API key' : undefined}
+              className={`text-left p-3 rounded-lg border transition-colors ${
+                selected
+                  ? 'border-emerald-500 bg-emerald-500/10'
+                  : 'border-slate-600 bg-slate-700/30 hover:border-slate-500'
+              } ${disabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+            >
+              <div className={`flex items-center font-medium text-sm ${selected ? 'text-emerald-400' : 'text-slate-200'}`}>
+                <span className="mr-2">{d.icon}</span>
+                {d.label}
+              </div>
+              <div className="text-xs text-slate-400 mt-1">{d.description}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {detectorId === 'gemini' && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-400">
+          <label className="space-y-1">
+            <span>Parallel requests</span>
+            <input
+              type="number" min={1} max={16} step={1}
+              value={queue.concurrency}
+              onChange={(e) => onQueueChange({ ...queue, concurrency: Math.min(16, Math.max(1, parseInt(e.target.value, 10) || queue.concurrency)) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Requests / minute (empty = no limit)</span>
+            <input
+              type="number" min={1} step={1}
+              value={queue.requestsPerMinute ?? ''}
+              placeholder="No limit"
+              onChange={(e) => onQueueChange({ ...queue, requestsPerMinute: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={inputClass}
+            />
+          </label>
+          <p className="col-span-2 self-end text-slate-500">
+            Rate-limited requests wait for the quota to refill and are retried. Finished frames are saved, so a cancelled or failed run resumes.
+          </p>
+        </div>
+      )}
+
+      {detectorId === 'classical' && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-400">
+          <label className="space-y-1">
+            <span>Min radius (% width)</span>
+            <input
+              type="number" min={0.2} max={50} step={0.1}
+              value={params.minRadius}
+              onChange={(e) => onParamsChange({ ...params, minRadius: parseFloat(e.target.value) || params.minRadius })}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Max radius (% width)</span>
+            <input
+              type="number" min={0.5} max={50} step={0.1}
+              value={params.maxRadius}
+              onChange={(e) => onParamsChange({ ...params, maxRadius: parseFloat(e.target.value) || params.maxRadius })}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Threshold (0-255, empty = auto)</span>
+            <input
+              type="number" min={0} max={255} step={1}
+              value={params.threshold ?? ''}
+              placeholder="Otsu"
+              onChange={(e) => onParamsChange({ ...params, threshold: e.target.value === '' ? null : Math.min(255, Math.max(0, parseInt(e.target.value, 10))) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>Cells are</span>
+            <select
+              value={params.polarity}
+              onChange={(e) => onParamsChange({ ...params, polarity: e.target.value as ClassicalDetectorParams['polarity'] })}
+              className={inputClass}
+            >
+              <option value="auto">Auto-detect</option>
+              <option value="bright">Brighter than background</option>
+              <option value="dark">Darker than background</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span>Detection passes (1 = off)</span>
+          <input
+            type="number" min={1} max={MAX_CONSENSUS_PASSES} step={1}
+            value={consensus.passes}
+            onChange={(e) => onConsensusChange({ ...consensus, passes: Math.min(MAX_CONSENSUS_PASSES, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Vary between passes</span>
+          <select
+            value={consensus.variation}
+            disabled={consensus.passes <= 1}
+            onChange={(e) => onConsensusChange({ ...consensus, variation: e.target.value as ConsensusSettings['variation'] })}
+            className={`${inputClass} disabled:opacity-40`}
+          >
+            <option value="both">Prompt and image flips</option>
+            <option value="prompt">Prompt wording</option>
+            <option value="augment">Image flips / rotation</option>
+          </select>
+        </label>
+        <p className="col-span-2 self-end text-slate-500">
+          Consensus mode detects every frame several times and keeps cells most passes agree on, each with an agreement score.
+          {consensus.passes > 1 && ` Multiplies requests by ${consensus.passes}.`}
+          {consensus.passes > 1 && detectorId !== 'gemini' && consensus.variation === 'prompt' && ' This detector has no prompt, so its passes will be identical.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DetectorSettings;
@@ -1,59 +1,205 @@
-import React from 'react';
-import { FrameData, FrameEvent } from '../types';
-import { Activity, Zap, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Calibration, EventType, FrameData } from '../types';
+import { formatTime } from '../services/calibrationService';
+import {
+  countEventsByType, EVENT_TYPE_DESCRIPTIONS, EVENT_TYPES, findAdjacentEvent, findLatestEventIndex, isSameTimelineEvent,
+  listTimelineEvents, matchesEventQuery, TimelineEvent
+} from '../services/eventService';
+import { Activity, Zap, AlertCircle, Split, Skull, Users, ArrowUpFromDot, Sprout, Eye, LucideIcon, ChevronLeft, ChevronRight, Search, LocateFixed, X } from 'lucide-react';
 
 interface EventLogProps {
   frames: FrameData[];
   currentTime: number;
+  calibration?: Calibration;
+  onInspect?: (trackId: number) => void; // Open a cell involved in an event
+  selectedEvent?: TimelineEvent | null;
+  onSelectEvent?: (event: TimelineEvent) => void; // Jump to an event and highlight it
 }
 
-const EventLog: React.FC<EventLogProps> = ({ frames, currentTime }) => {
-  // Flatten events
-  const allEvents = frames.flatMap(frame => 
-    frame.events.map(event => ({ ...event, timestamp: frame.timestamp }))
-  ).sort((a, b) => a.timestamp - b.timestamp);
+// Icon and colour of each event type
+const EVENT_STYLES: Record<EventType, { icon: LucideIcon; className: string }> = {
+  [EventType.Mitosis]: { icon: Zap, className: 'text-yellow-400' },
+  [EventType.Division]: { icon: Split, className: 'text-cyan-400' },
+  [EventType.Apoptosis]: { icon: AlertCircle, className: 'text-red-400' },
+  [EventType.Necrosis]: { icon: Skull, className: 'text-red-600' },
+  [EventType.Interaction]: { icon: Users, className: 'text-violet-400' },
+  [EventType.Detachment]: { icon: ArrowUpFromDot, className: 'text-orange-400' },
+  [EventType.Growth]: { icon: Sprout, className: 'text-emerald-400' },
+  [EventType.Observation]: { icon: Eye, className: 'text-blue-400' }
+};
+
+const EventLog: React.FC<EventLogProps> = ({ frames, currentTime, calibration, onInspect, selectedEvent = null, onSelectEvent }) => {
+  const allEvents = useMemo(() => listTimelineEvents(frames), [frames]);
+  const counts = useMemo(() => countEventsByType(frames), [frames]);
+  // Filters: types switched off with the chips, and a text search
+  const [hiddenTypes, setHiddenTypes] = useState<Set<EventType>>(new Set());
+  const [query, setQuery] = useState('');
+  // Keep the latest event at the playback time scrolled into view
+  const [follow, setFollow] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const visibleEvents = useMemo(
+    () => allEvents.filter(e => !hiddenTypes.has(e.type) && matchesEventQuery(e, query)),
+    [allEvents, hiddenTypes, query]
+  );
+  const latestIndex = findLatestEventIndex(visibleEvents, currentTime);
+  const latestKey = latestIndex >= 0 ? `${visibleEvents[latestIndex].frameIndex}-${visibleEvents[latestIndex].eventIndex}` : null;
+
+  useEffect(() => {
+    const list = listRef.current;
+    const item = latestKey ? itemRefs.current.get(latestKey) : null;
+    if (!follow || !list || !item) return;
+    // Scroll the list only, never the page
+    list.scrollTo({ top: item.offsetTop - list.clientHeight / 2 + item.clientHeight / 2, behavior: 'smooth' });
+  }, [latestKey, follow]);
 
-  const getEventIcon = (type: string) => {
-    const t = type.toLowerCase();
-    if (t.includes('mitosis') || t.includes('division')) return <Zap className="text-yellow-400" size={16} />;
-    if (t.includes('apoptosis') || t.includes('death')) return <AlertCircle className="text-red-400" size={16} />;
-    return <Activity className="text-blue-400" size={16} />;
+  const toggleType = (type: EventType) => {
+    const next = new Set(hiddenTypes);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setHiddenTypes(next);
   };
 
+  const step = (direction: 1 | -1) => {
+    const target = findAdjacentEvent(visibleEvents, currentTime, direction, selectedEvent);
+    if (target && onSelectEvent) onSelectEvent(target);
+  };
+
+  const hasPrevious = !!findAdjacentEvent(visibleEvents, currentTime, -1, selectedEvent);
+  const hasNext = !!findAdjacentEvent(visibleEvents, currentTime, 1, selectedEvent);
+  const navButtonClass = 'p-1 rounded text-slate-400 hover:text-slate-200 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
   return (
-    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg flex flex-col h-[350px]">
-      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl backdrop-blur">
-        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
-          <Activity className="mr-2 text-emerald-500" size={20} />
-          Event Log
-        </h3>
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg flex flex-col h-[480px]">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl backdrop-blur space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+            <Activity className="mr-2 text-emerald-500" size={20} />
+            Event Log
+            {allEvents.length > 0 && (
+              <span className="ml-2 text-xs text-slate-400 font-normal font-mono">
+                {visibleEvents.length < allEvents.length ? `${visibleEvents.length} of ${allEvents.length}` : allEvents.length}
+              </span>
+            )}
+          </h3>
+          {allEvents.length > 0 && (
+            <div className="flex items-center gap-1">
+              <button onClick={() => step(-1)} disabled={!onSelectEvent || !hasPrevious} className={navButtonClass} title="Previous event">
+                <ChevronLeft size={16} />
+              </button>
+              <button onClick={() => step(1)} disabled={!onSelectEvent || !hasNext} className={navButtonClass} title="Next event">
+                <ChevronRight size={16} />
+              </button>
+              <button
+                onClick={() => setFollow(!follow)}
+                className={`p-1 rounded transition-colors ${follow ? 'text-emerald-400 bg-emerald-900/30' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'}`}
+                title={follow ? 'Following playback (click to stop)' : 'Follow playback'}
+              >
+                <LocateFixed size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+        {allEvents.length > 0 && (
+          <>
+            <div className="flex gap-1.5 flex-wrap text-xs">
+              {EVENT_TYPES.filter(type => counts[type] > 0).map(type => {
+                const { icon: Icon, className } = EVENT_STYLES[type];
+                const hidden = hiddenTypes.has(type);
+                return (
+                  <button
+                    key={type}
+                    onClick={() => toggleType(type)}
+                    className={`flex items-center px-2 py-0.5 rounded-full border transition-colors ${hidden ? 'border-slate-700 text-slate-500' : 'border-slate-600 bg-slate-700/50 text-slate-300'}`}
+                    title={`${EVENT_TYPE_DESCRIPTIONS[type]} (click to ${hidden ? 'show' : 'hide'})`}
+                  >
+                    <Icon className={`mr-1 ${hidden ? 'text-slate-500' : className}`} size={12} />{type}
+                    <span className="ml-1 font-mono">{counts[type]}</span>
+                  </button>
+                );
+              })}
+              {hiddenTypes.size > 0 && (
+                <button onClick={() => setHiddenTypes(new Set())} className="text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors">show all</button>
+              )}
+            </div>
+            <div className="relative">
+              <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search descriptions or cells (#12)"
+                className="w-full pl-8 pr-8 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              {query && (
+                <button onClick={() => setQuery('')} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-200" title="Clear the search">
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          </>
+        )}
       </div>
-      <div className="flex-1 overflow-y-auto p-2 space-y-2">
+      <div ref={listRef} className="relative flex-1 overflow-y-auto p-2 space-y-2">
         {allEvents.length === 0 ? (
           <div className="text-center text-slate-500 mt-10 text-sm">No significant events detected yet.</div>
+        ) : visibleEvents.length === 0 ? (
+          <div className="text-center text-slate-500 mt-10 text-sm">No events match the filters.</div>
         ) : (
-          allEvents.map((evt, idx) => {
+          visibleEvents.map(evt => {
+            const key = `${evt.frameIndex}-${evt.eventIndex}`;
             const isPast = evt.timestamp <= currentTime;
             const isRecent = Math.abs(evt.timestamp - currentTime) < 1.5;
+            const isSelected = isSameTimelineEvent(evt, selectedEvent);
+            const { icon: Icon, className } = EVENT_STYLES[evt.type] ?? EVENT_STYLES[EventType.Observation];
 
             return (
-              <div 
-                key={`${evt.timestamp}-${idx}`}
-                className={`flex items-start p-3 rounded-lg text-sm transition-all duration-300 ${
-                  isRecent 
-                    ? 'bg-emerald-900/30 border border-emerald-500/50' 
-                    : 'bg-slate-700/50 border border-slate-600/30'
-                } ${!isPast ? 'opacity-50' : 'opacity-100'}`}
+              <div
+                key={key}
+                ref={(el) => { if (el) itemRefs.current.set(key, el); else itemRefs.current.delete(key); }}
+                onClick={() => onSelectEvent?.(evt)}
+                className={`flex items-start p-3 rounded-lg text-sm transition-all duration-300 ${onSelectEvent ? 'cursor-pointer hover:bg-slate-700' : ''} ${
+                  isSelected
+                    ? 'bg-amber-900/30 border border-amber-400/70'
+                    : isRecent
+                      ? 'bg-emerald-900/30 border border-emerald-500/50'
+                      : 'bg-slate-700/50 border border-slate-600/30'
+                } ${!isPast && !isSelected ? 'opacity-50' : 'opacity-100'}`}
+                title={onSelectEvent ? 'Jump to this event' : undefined}
               >
                 <span className="font-mono text-slate-400 min-w-[50px] pt-0.5">
-                  {evt.timestamp.toFixed(1)}s
+                  {formatTime(evt.timestamp, calibration)}
                 </span>
-                <div className="mt-0.5 mr-2">
-                  {getEventIcon(evt.type)}
+                <div className="mt-0.5 mr-2" title={EVENT_TYPE_DESCRIPTIONS[evt.type]}>
+                  <Icon className={className} size={16} />
                 </div>
-                <div>
-                  <div className="font-medium text-slate-200">{evt.type}</div>
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-200">
+                    {evt.type}
+                    {evt.confidence !== undefined && (
+                      <span className="ml-2 text-xs font-normal font-mono text-slate-400" title="Detector confidence">{Math.round(evt.confidence * 100)}%</span>
+                    )}
+                    {evt.source === 'tracker' && <span className="ml-2 text-xs font-normal text-slate-500">tracker</span>}
+                  </div>
                   <div className="text-slate-400 text-xs">{evt.description}</div>
+                  {(evt.cellIds?.length || evt.x !== undefined) && (
+                    <div className="text-xs font-mono text-slate-500 mt-1 flex items-center gap-2 flex-wrap">
+                      {evt.cellIds?.map(id => onInspect ? (
+                        <button
+                          key={id}
+                          onClick={(e) => { e.stopPropagation(); onInspect(id); }}
+                          className="text-emerald-400 hover:text-emerald-300"
+                          title={`Inspect cell #${id}`}
+                        >#{id}</button>
+                      ) : (
+                        <span key={id} className="text-emerald-400">#{id}</span>
+                      ))}
+                      {evt.x !== undefined && evt.y !== undefined && (
+                        <span title="Location in % of the frame">at ({evt.x.toFixed(0)}, {evt.y.toFixed(0)})</span>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             );
@@ -64,4 +210,4 @@ const EventLog: React.FC<EventLogProps> = ({ frames, currentTime }) => {
   );
 };
 
-export default EventLog;
\ No newline at end of file
+export default EventLog;
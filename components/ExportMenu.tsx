@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { AnalysisResult, ExportFormat } from '../types';
+import { buildExport, downloadFile } from '../services/exportService';
+import { Download, ChevronDown } from 'lucide-react';
+
+interface ExportMenuProps {
+  result: AnalysisResult;
+  sourceName: string;
+}
+
+const FORMATS: { id: ExportFormat; label: string; hint: string }[] = [
+  { id: 'detections-csv', label: 'Detections (CSV)', hint: 'One row per cell per frame' },
+  { id: 'events-csv', label: 'Events (CSV)', hint: 'Reported and tracker events' },
+  { id: 'json', label: 'Full result (JSON)', hint: 'Frames, report and calibration' },
+  { id: 'trackmate-xml', label: 'TrackMate (XML)', hint: 'Open in Fiji with Load a TrackMate file' },
+  { id: 'ctc-tracks', label: 'Cell Tracking Challenge', hint: 'res_track.txt lineage table' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ result, sourceName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadFile(buildExport(format, result, sourceName));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors text-sm"
+      >
+        <Download size={16} className="mr-2 text-emerald-400" />
+        Export
+        <ChevronDown size={16} className="ml-1" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-40 overflow-hidden">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              className="w-full text-left px-4 py-2.5 hover:bg-slate-700/60 transition-colors"
+            >
+              <div className="text-sm text-slate-100">{format.label}</div>
+              <div className="text-xs text-slate-500">{format.hint}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { FrameData } from '../types';
+import { describeFrameFailure, isUsableFrame } from '../services/frameStatusService';
+import { AlertTriangle, Loader2, RotateCcw, XCircle } from 'lucide-react';
+
+interface FailedFramesNoticeProps {
+  frames: FrameData[];
+  onRetry: () => void;
+  retryDisabledReason: string | null; // Why "Retry failed frames" is unavailable, null = available
+  retryMessage: string | null; // Progress of a running retry
+  error: string | null; // Why the last retry stopped
+  onCancel: () => void;
+}
+
+// Lists frames whose detection failed (excluded from counts and tracking) and offers to re-analyse only those
+const FailedFramesNotice: React.FC<FailedFramesNoticeProps> = ({ frames, onRetry, retryDisabledReason, retryMessage, error, onCancel }) => {
+  const failed = frames.filter(frame => !isUsableFrame(frame));
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="bg-red-500/10 border border-red-500/30 rounded-xl px-4 py-3 text-sm text-red-200 space-y-2">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <span className="flex items-center">
+          <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+          {failed.length} of {frames.length} sampled frames could not be analysed. They are marked in red and left out of counts and tracking.
+        </span>
+        {retryMessage ? (
+          <span className="flex items-center space-x-3">
+            <span className="flex items-center text-xs font-mono text-red-300">
+              <Loader2 size={14} className="animate-spin mr-1" /> {retryMessage}
+            </span>
+            <button onClick={onCancel} className="flex items-center text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors">
+              <XCircle size={14} className="mr-1" /> Cancel
+            </button>
+          </span>
+        ) : (
+          <button
+            onClick={onRetry}
+            disabled={retryDisabledReason !== null}
+            title={retryDisabledReason ?? 'Re-analyse only the failed frames and re-link all tracks'}
+            className="flex items-center px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw size={14} className="mr-1.5" /> Retry failed frames
+          </button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+      <ul className="text-xs text-red-300/80 font-mono space-y-0.5 max-h-24 overflow-y-auto">
+        {failed.map(frame => (
+          <li key={frame.timestamp}>{frame.timestamp.toFixed(2)}s · {describeFrameFailure(frame)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FailedFramesNotice;
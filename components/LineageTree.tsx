@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Calibration, FrameData, LineageNode } from '../types';
+import { formatTime } from '../services/calibrationService';
+import { buildLineage, summarizeLineage } from '../services/lineageService';
+import { GitBranch } from 'lucide-react';
+
+interface LineageTreeProps {
+  frames: FrameData[];
+  currentTime: number;
+  calibration?: Calibration;
+}
+
+// SVG layout (viewBox units, scaled to the card width)
+const VIEW_WIDTH = 320;
+const LABEL_WIDTH = 40;
+const PLOT_RIGHT = 310;
+const ROW_HEIGHT = 14;
+const TOP_PADDING = 8;
+
+const LineageTree: React.FC<LineageTreeProps> = ({ frames, currentTime, calibration }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const nodes = useMemo(() => buildLineage(frames), [frames]);
+  const summary = useMemo(() => summarizeLineage(nodes), [nodes]);
+
+  // By default only lineages that actually divided, unless there are none
+  const dividingRoots = new Set(nodes.filter(n => n.childIds.length > 0).map(n => n.rootId));
+  const visibleNodes = showAll || dividingRoots.size === 0
+    ? nodes
+    : nodes.filter(n => dividingRoots.has(n.rootId));
+
+  const maxTime = frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+  const toX = (t: number) => LABEL_WIDTH + (maxTime > 0 ? (t / maxTime) : 0) * (PLOT_RIGHT - LABEL_WIDTH);
+  const rowOf = new Map<number, number>(visibleNodes.map((n, i) => [n.id, i]));
+  const toY = (row: number) => TOP_PADDING + row * ROW_HEIGHT;
+  const height = TOP_PADDING * 2 + Math.max(visibleNodes.length, 1) * ROW_HEIGHT;
+
+  // Per-lineage division times, for the list under the tree
+  const divisionsByLineage = new Map<number, LineageNode[]>();
+  nodes.filter(n => n.divisionTime !== undefined).forEach(n => {
+    divisionsByLineage.set(n.rootId, [...(divisionsByLineage.get(n.rootId) || []), n]);
+  });
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg flex flex-col h-[350px]">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl backdrop-blur flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+          <GitBranch className="mr-2 text-emerald-500" size={20} />
+          Cell Lineage
+        </h3>
+        {dividingRoots.size > 0 && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors"
+          >
+            {showAll ? 'Dividing only' : 'Show all'}
+          </button>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto p-2">
+        {nodes.length === 0 ? (
+          <div className="text-center text-slate-500 mt-10 text-sm">No tracks available.</div>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} className="w-full" preserveAspectRatio="xMinYMin meet">
+              {visibleNodes.map(node => {
+                const row = rowOf.get(node.id)!;
+                const y = toY(row);
+                const isAlive = node.startTime <= currentTime && currentTime <= node.endTime;
+                const color = isAlive ? '#34d399' : '#64748b';
+
+                return (
+                  <g key={node.id}>
+                    {/* Connector from the mother's division point */}
+                    {node.parentId !== undefined && rowOf.has(node.parentId) && (
+                      <line
+                        x1={toX(node.startTime)} y1={toY(rowOf.get(node.parentId)!)}
+                        x2={toX(node.startTime)} y2={y}
+                        stroke="#475569" strokeWidth={1}
+                      />
+                    )}
+                    <line
+                      x1={toX(node.startTime)} y1={y}
+                      x2={Math.max(toX(node.endTime), toX(node.startTime) + 1)} y2={y}
+                      stroke={color} strokeWidth={isAlive ? 3 : 2} strokeLinecap="round"
+                    />
+                    {node.divisionTime !== undefined && (
+                      <circle cx={toX(node.divisionTime)} cy={y} r={2.5} fill="#facc15" />
+                    )}
+                    <text x={2} y={y + 3} fontSize={8} fontFamily="monospace" fill={isAlive ? '#e2e8f0' : '#94a3b8'}>
+                      {'·'.repeat(Math.min(node.generation, 4))}#{node.id}
+                    </text>
+                  </g>
+                );
+              })}
+              {/* Sync Line */}
+              <line
+                x1={toX(Math.min(currentTime, maxTime))} y1={0}
+                x2={toX(Math.min(currentTime, maxTime))} y2={height}
+                stroke="#f472b6" strokeDasharray="3 3" strokeWidth={1}
+              />
+            </svg>
+
+            <div className="mt-3 px-2 space-y-1 text-xs text-slate-400">
+              <div className="font-mono">
+                Divisions: {summary.divisions} · Max generation: {summary.maxGeneration} · Mean cell cycle: {summary.meanCycleDuration !== null ? formatTime(summary.meanCycleDuration, calibration) : 'n/a'}
+              </div>
+              {[...divisionsByLineage.entries()].map(([rootId, divided]) => (
+                <div key={rootId}>
+                  <span className="text-slate-300">Lineage #{rootId}:</span>{' '}
+                  {divided.map(n => `#${n.id} @ ${formatTime(n.divisionTime!, calibration)}${n.cycleDuration !== undefined ? ` (cycle ${formatTime(n.cycleDuration, calibration)})` : ''}`).join(', ')}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LineageTree;
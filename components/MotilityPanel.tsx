@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Calibration, FrameData, TrackMotility, VideoMetadata } from '../types';
+import { computeMotility } from '../services/motilityService';
+import { Move } from 'lucide-react';
+
+interface MotilityPanelProps {
+  frames: FrameData[];
+  currentTime: number;
+  calibration?: Calibration;
+  video?: VideoMetadata;
+  onInspect?: (trackId: number) => void; // Row click opens the track in the cell inspector
+}
+
+type SortKey = 'id' | 'duration' | 'pathLength' | 'netDisplacement' | 'directionality' | 'meanSpeed';
+
+const TURNING_BIN_DEGREES = 30;
+
+const tooltipStyle = { backgroundColor: '#1e293b', borderColor: '#475569', color: '#f1f5f9' };
+
+const MotilityPanel: React.FC<MotilityPanelProps> = ({ frames, currentTime, calibration, video, onInspect }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('meanSpeed');
+  const [sortDescending, setSortDescending] = useState(true);
+
+  const motility = useMemo(() => computeMotility(frames, calibration, video), [frames, calibration, video]);
+  const { units } = motility;
+
+  // Turning angle histogram, -180..180 in fixed bins
+  const turningHistogram = useMemo(() => {
+    const bins = Array.from({ length: 360 / TURNING_BIN_DEGREES }, (_, i) => ({
+      angle: -180 + i * TURNING_BIN_DEGREES + TURNING_BIN_DEGREES / 2,
+      count: 0
+    }));
+    motility.tracks.flatMap(t => t.turningAngles).forEach(a => {
+      const index = Math.min(bins.length - 1, Math.floor((a + 180) / TURNING_BIN_DEGREES));
+      bins[index].count++;
+    });
+    return bins;
+  }, [motility]);
+
+  const sortedTracks = [...motility.tracks].sort((a, b) => {
+    const diff = (a[sortKey] as number) - (b[sortKey] as number);
+    return sortDescending ? -diff : diff;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDescending(!sortDescending);
+    else {
+      setSortKey(key);
+      setSortDescending(true);
+    }
+  };
+
+  const fmt = (value: number | null, digits = 2) => value === null ? 'n/a' : value.toFixed(digits);
+
+  const columns: { key: SortKey; label: string; render: (t: TrackMotility) => string }[] = [
+    { key: 'id', label: 'Track', render: t => `#${t.id}` },
+    { key: 'duration', label: `Duration (${units.time})`, render: t => t.duration.toFixed(1) },
+    { key: 'pathLength', label: `Path (${units.length})`, render: t => t.pathLength.toFixed(1) },
+    { key: 'netDisplacement', label: `Net (${units.length})`, render: t => t.netDisplacement.toFixed(1) },
+    { key: 'directionality', label: 'Directionality', render: t => t.directionality.toFixed(2) },
+    { key: 'meanSpeed', label: `Speed (${units.speed})`, render: t => t.meanSpeed.toFixed(2) },
+  ];
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg">
+      <div className="p-4 border-b border-slate-700 bg-slate-800/50 rounded-t-xl">
+        <h3 className="text-lg font-semibold text-slate-100 flex items-center">
+          <Move className="mr-2 text-emerald-500" size={20} />
+          Cell Motility
+        </h3>
+      </div>
+
+      {motility.tracks.length === 0 ? (
+        <div className="text-center text-slate-500 py-10 text-sm">No track is long enough for motility analysis.</div>
+      ) : (
+        <div className="p-4 space-y-6">
+          {/* Population summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Tracks analysed', value: `${motility.tracks.length}` },
+              { label: `Mean speed (${units.speed})`, value: fmt(motility.meanSpeed) },
+              { label: 'Mean directionality', value: fmt(motility.meanDirectionality) },
+              { label: 'MSD exponent α', value: fmt(motility.msdExponent) },
+            ].map(tile => (
+              <div key={tile.label} className="bg-slate-700/40 rounded-lg p-3 border border-slate-600/30">
+                <div className="text-xs text-slate-400">{tile.label}</div>
+                <div className="text-xl font-mono text-slate-100">{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Population plots */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="h-[220px]">
+              <div className="text-sm text-slate-300 mb-2">Mean squared displacement</div>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={motility.msd}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="lagTime" stroke="#94a3b8" type="number" tickFormatter={(v) => Number(v).toFixed(1)}
+                    label={{ value: `Lag (${units.time})`, position: 'insideBottomRight', offset: -5, fill: '#94a3b8' }} />
+                  <YAxis stroke="#94a3b8" tickFormatter={(v) => Number(v).toPrecision(2)} />
+                  <Tooltip contentStyle={tooltipStyle}
+                    labelFormatter={(label) => `Lag: ${Number(label).toFixed(2)} ${units.time}`}
+                    formatter={(value) => [`${Number(value).toFixed(2)} ${units.length}²`, 'MSD']} />
+                  <Line type="monotone" dataKey="msd" stroke="#34d399" strokeWidth={2} dot={{ r: 3 }} animationDuration={500} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-[220px]">
+              <div className="text-sm text-slate-300 mb-2">Turning angles</div>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={turningHistogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis dataKey="angle" stroke="#94a3b8" tickFormatter={(v) => `${v}°`} />
+                  <YAxis stroke="#94a3b8" allowDecimals={false} />
+                  <Tooltip contentStyle={tooltipStyle}
+                    labelFormatter={(label) => `${Number(label) - TURNING_BIN_DEGREES / 2}° to ${Number(label) + TURNING_BIN_DEGREES / 2}°`} />
+                  <Bar dataKey="count" fill="#06b6d4" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Per-track table */}
+          <div className="max-h-[300px] overflow-y-auto border border-slate-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-900/60 sticky top-0">
+                <tr>
+                  {columns.map(col => (
+                    <th
+                      key={col.key}
+                      onClick={() => handleSort(col.key)}
+                      className="px-3 py-2 text-left text-xs font-medium text-slate-400 cursor-pointer hover:text-slate-200 select-none"
+                    >
+                      {col.label}{sortKey === col.key ? (sortDescending ? ' ▾' : ' ▴') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {sortedTracks.map(track => {
+                  const isAlive = track.startTime <= currentTime && currentTime <= track.endTime;
+                  return (
+                    <tr
+                      key={track.id}
+                      onClick={() => onInspect?.(track.id)}
+                      title={onInspect ? `Inspect cell #${track.id}` : undefined}
+                      className={`border-t border-slate-700/50 ${isAlive ? 'text-emerald-300' : 'text-slate-300'} ${onInspect ? 'cursor-pointer hover:bg-slate-700/40' : ''}`}
+                    >
+                      {columns.map(col => (
+                        <td key={col.key} className="px-3 py-1.5">{col.render(track)}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotilityPanel;
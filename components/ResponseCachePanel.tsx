@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ResponseCacheSummary } from '../types';
+import { clearResponseCache, summarizeResponseCache } from '../services/responseCacheService';
+import { Database, Trash2, Loader2 } from 'lucide-react';
+
+// Stored Gemini frame responses: unchanged frames are not sent again on later runs
+const ResponseCachePanel: React.FC = () => {
+  const [summary, setSummary] = useState<ResponseCacheSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(true);
+
+  useEffect(() => {
+    summarizeResponseCache()
+      .then(setSummary)
+      .catch(err => console.warn('Response cache unavailable:', err))
+      .finally(() => setIsBusy(false));
+  }, []);
+
+  const handleClear = async () => {
+    setIsBusy(true);
+    try {
+      await clearResponseCache();
+      setSummary(await summarizeResponseCache());
+    } catch (err) {
+      console.warn('Could not clear the response cache:', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const size = summary ? `${(summary.approxBytes / 1024).toFixed(summary.approxBytes < 10240 ? 1 : 0)} KB` : '';
+
+  return (
+    <div className="flex items-center justify-between gap-4 flex-wrap text-xs text-slate-400">
+      <span className="flex items-center">
+        <Database size={14} className="mr-2 text-emerald-500 flex-shrink-0" />
+        {isBusy && !summary ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : !summary ? (
+          'Response cache unavailable in this browser.'
+        ) : summary.entries === 0 ? (
+          'Response cache is empty. Frame responses are stored so re-running on unchanged frames sends no requests.'
+        ) : (
+          <span title={`Models: ${summary.models.join(', ')}`}>
+            Response cache: {summary.entries} frame response{summary.entries === 1 ? '' : 's'} ({size}),
+            saved {new Date(summary.oldest!).toLocaleString()} – {new Date(summary.newest!).toLocaleString()}
+          </span>
+        )}
+      </span>
+      {summary && summary.entries > 0 && (
+        <button
+          onClick={handleClear}
+          disabled={isBusy}
+          title="Delete all cached responses; the next run sends every frame again"
+          className="flex items-center text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors disabled:opacity-40"
+        >
+          <Trash2 size={14} className="mr-1" /> Clear cache
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ResponseCachePanel;
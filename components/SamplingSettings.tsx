@@ -0,0 +1,265 @@
+import React, { useRef, useState } from 'react';
+import { RegionOfInterest, SamplingPlan, VideoMetadata } from '../types';
+import { getSampleGeometry, MIN_ROI_PERCENT, planSampleTimes, planScanTimes } from '../services/samplingService';
+import { DEFAULT_TILE_SIZE, MIN_TILE_SIZE } from '../services/tilingService';
+import { Film, X } from 'lucide-react';
+
+interface SamplingSettingsProps {
+  plan: SamplingPlan;
+  onChange: (plan: SamplingPlan) => void;
+  metadata: VideoMetadata | null; // Size and duration of the loaded footage, once known
+  frameRate?: number; // Image sequences: samples snap to whole frames
+  previewUrl: string | null; // The video, or the first image of a sequence, for drawing the region
+  previewIsVideo: boolean;
+  usesApi: boolean; // Cloud detection: one request per frame plus the report
+  passes: number; // Consensus mode: detection requests per frame (and tile)
+}
+
+// Helper: Empty or non-positive input keeps the previous value
+const parsePositive = (value: string, fallback: number): number => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+const SamplingSettings: React.FC<SamplingSettingsProps> = ({ plan, onChange, metadata, frameRate, previewUrl, previewIsVideo, usesApi, passes }) => {
+  const inputClass = "w-full px-3 py-1.5 bg-slate-900 border border-slate-600 rounded-lg text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500";
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Region being drawn, from the pointer-down corner to the current position (%)
+  const [draft, setDraft] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const sampleCount = metadata ? planSampleTimes(plan, metadata.duration, frameRate).length : null;
+  const geometry = metadata ? getSampleGeometry(plan, metadata.width, metadata.height) : null;
+  // Tiled mode sends one request per tile of every frame, consensus mode repeats them per pass
+  const tilesPerFrame = geometry?.tiles?.length ?? 1;
+  const requestCount = sampleCount === null ? null : sampleCount * tilesPerFrame * passes + 1;
+  // Count mode keeps frames at least intervalSeconds apart, so short clips get fewer than asked for
+  const windowLength = metadata ? Math.min(metadata.duration, plan.endTime ?? metadata.duration) - plan.startTime : 0;
+  const spacingLimited = plan.mode === 'count' && windowLength > 0 && windowLength / plan.frameCount < plan.intervalSeconds;
+
+  const toPercent = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100))
+    };
+  };
+
+  const draftToRoi = (d: NonNullable<typeof draft>): RegionOfInterest => ({
+    x: Math.min(d.x0, d.x1),
+    y: Math.min(d.y0, d.y1),
+    width: Math.abs(d.x1 - d.x0),
+    height: Math.abs(d.y1 - d.y0)
+  });
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const roi = draftToRoi(draft);
+    setDraft(null);
+    if (roi.width >= MIN_ROI_PERCENT && roi.height >= MIN_ROI_PERCENT) onChange({ ...plan, roi });
+  };
+
+  const shownRoi = draft ? draftToRoi(draft) : plan.roi;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-slate-300 flex items-center">
+        <Film className="mr-2 text-emerald-500" size={16} />
+        Sampling
+        <span className="ml-2 text-xs text-slate-500 font-normal">
+          {sampleCount === null
+            ? '(reading video length...)'
+            : `${sampleCount} frames${spacingLimited ? ` (${plan.intervalSeconds} s apart at least)` : ''}${tilesPerFrame > 1 ? ` × ${tilesPerFrame} tiles` : ''}${passes > 1 ? ` × ${passes} passes` : ''} · ${usesApi ? `${requestCount} API requests (detection + report)` : 'detected locally, no API requests'}`}
+        </span>
+      </h4>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-400">
+        <label className="space-y-1">
+          <span>Sample by</span>
+          <select
+            value={plan.mode}
+            onChange={(e) => onChange({ ...plan, mode: e.target.value as SamplingPlan['mode'] })}
+            className={inputClass}
+          >
+            <option value="count">Number of frames</option>
+            <option value="interval">Fixed interval</option>
+            <option value="adaptive">Change-driven</option>
+          </select>
+        </label>
+        {plan.mode !== 'interval' ? (
+          <label className="space-y-1">
+            <span>{plan.mode === 'adaptive' ? 'Frame budget' : 'Frames'}</span>
+            <input
+              type="number" min={1} step={1}
+              value={plan.frameCount}
+              onChange={(e) => onChange({ ...plan, frameCount: Math.round(parsePositive(e.target.value, plan.frameCount)) })}
+              className={inputClass}
+            />
+          </label>
+        ) : (
+          <label className="space-y-1">
+            <span>Interval (video s)</span>
+            <input
+              type="number" min={0} step="any"
+              value={plan.intervalSeconds}
+              onChange={(e) => onChange({ ...plan, intervalSeconds: parsePositive(e.target.value, plan.intervalSeconds) })}
+              className={inputClass}
+            />
+          </label>
+        )}
+        {plan.mode === 'count' && (
+          <label className="space-y-1">
+            <span>Min spacing (video s)</span>
+            <input
+              type="number" min={0} step="any"
+              value={plan.intervalSeconds}
+              onChange={(e) => onChange({ ...plan, intervalSeconds: parsePositive(e.target.value, plan.intervalSeconds) })}
+              className={inputClass}
+              title="Frames are never closer than this, so short clips get fewer frames; lower it to sample them densely"
+            />
+          </label>
+        )}
+        {plan.mode === 'adaptive' && (
+          <label className="space-y-1">
+            <span>Even coverage ({Math.round(plan.coverage * 100)}% of budget)</span>
+            <input
+              type="range" min={0.1} max={1} step={0.05}
+              value={plan.coverage}
+              onChange={(e) => onChange({ ...plan, coverage: parseFloat(e.target.value) })}
+              className="w-full accent-emerald-500"
+              title="Share of the frames spread evenly; the rest go where the scene changes most"
+            />
+          </label>
+        )}
+        <label className="space-y-1">
+          <span>Start (video s)</span>
+          <input
+            type="number" min={0} step="any"
+            value={plan.startTime}
+            onChange={(e) => onChange({ ...plan, startTime: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>End (video s)</span>
+          <input
+            type="number" min={0} step="any"
+            value={plan.endTime ?? ''}
+            placeholder={metadata ? `${metadata.duration.toFixed(1)} (end)` : 'end of video'}
+            onChange={(e) => onChange({ ...plan, endTime: e.target.value === '' ? null : parsePositive(e.target.value, plan.endTime ?? 0) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Frame size</span>
+          <select
+            value={plan.tileSize === null ? 'downscale' : 'tiled'}
+            onChange={(e) => onChange({ ...plan, tileSize: e.target.value === 'tiled' ? DEFAULT_TILE_SIZE : null })}
+            className={inputClass}
+            title="Tiled: native resolution in overlapping tiles, for small cells in large fields of view"
+          >
+            <option value="downscale">Downscaled</option>
+            <option value="tiled">Tiled, native resolution</option>
+          </select>
+        </label>
+        {plan.tileSize === null ? (
+          <label className="space-y-1">
+            <span>Max frame size (px)</span>
+            <input
+              type="number" min={64} step={64}
+              value={plan.maxDimension}
+              onChange={(e) => onChange({ ...plan, maxDimension: Math.round(parsePositive(e.target.value, plan.maxDimension)) })}
+              className={inputClass}
+            />
+          </label>
+        ) : (
+          <>
+            <label className="space-y-1">
+              <span>Tile size (px)</span>
+              <input
+                type="number" min={MIN_TILE_SIZE} step={128}
+                value={plan.tileSize}
+                onChange={(e) => onChange({ ...plan, tileSize: Math.max(MIN_TILE_SIZE, Math.round(parsePositive(e.target.value, plan.tileSize!))) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>Tile overlap (px)</span>
+              <input
+                type="number" min={0} step={16}
+                value={plan.tileOverlap}
+                onChange={(e) => onChange({ ...plan, tileOverlap: Math.min(Math.floor(plan.tileSize! / 2), Math.max(0, Math.round(parseFloat(e.target.value) || 0))) })}
+                className={inputClass}
+                title="Should exceed the largest cell diameter, so every cell lies whole in at least one tile"
+              />
+            </label>
+          </>
+        )}
+        <label className="space-y-1">
+          <span>JPEG quality ({plan.jpegQuality.toFixed(2)})</span>
+          <input
+            type="range" min={0.3} max={1} step={0.05}
+            value={plan.jpegQuality}
+            onChange={(e) => onChange({ ...plan, jpegQuality: parseFloat(e.target.value) })}
+            className="w-full accent-emerald-500"
+          />
+        </label>
+        <div className="space-y-1 col-span-2 flex flex-col justify-end">
+          <span>
+            Region of interest: {plan.roi
+              ? `${plan.roi.width.toFixed(0)}×${plan.roi.height.toFixed(0)}% of the frame`
+              : 'whole frame (drag on the preview to crop)'}
+          </span>
+          {geometry && (geometry.tiles
+            ? <span className="text-slate-500">Frames sent as {geometry.tiles.length} tiles of up to {Math.max(...geometry.tiles.map(t => t.width))}×{Math.max(...geometry.tiles.map(t => t.height))}px</span>
+            : <span className="text-slate-500">Frames sent as {geometry.outWidth}×{geometry.outHeight}px</span>)}
+          {plan.mode === 'adaptive' && metadata && (
+            <span className="text-slate-500">Pre-scan of {planScanTimes(plan, metadata.duration, frameRate).length} low-resolution frames (local) picks the timestamps</span>
+          )}
+        </div>
+      </div>
+
+      {previewUrl && (
+        <div className="flex items-start space-x-2">
+          <div className="relative max-w-sm w-full bg-black rounded-lg overflow-hidden border border-slate-700">
+            {previewIsVideo
+              ? <video src={previewUrl} muted playsInline preload="auto" className="w-full h-auto block" />
+              : <img src={previewUrl} alt="First frame" className="w-full h-auto block" draggable={false} />}
+            <div
+              ref={overlayRef}
+              className="absolute inset-0 cursor-crosshair"
+              onPointerDown={(e) => {
+                const p = toPercent(e);
+                setDraft({ x0: p.x, y0: p.y, x1: p.x, y1: p.y });
+                e.currentTarget.setPointerCapture(e.pointerId);
+              }}
+              onPointerMove={(e) => {
+                if (!draft) return;
+                const p = toPercent(e);
+                setDraft({ ...draft, x1: p.x, y1: p.y });
+              }}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDraft(null)}
+            >
+              {shownRoi && (
+                <div
+                  className="absolute border-2 border-emerald-400 bg-emerald-400/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+                  style={{ left: `${shownRoi.x}%`, top: `${shownRoi.y}%`, width: `${shownRoi.width}%`, height: `${shownRoi.height}%` }}
+                />
+              )}
+            </div>
+          </div>
+          {plan.roi && (
+            <button
+              onClick={() => onChange({ ...plan, roi: null })}
+              className="flex items-center text-xs text-slate-400 hover:text-slate-200 font-mono transition-colors"
+              title="Analyse the whole frame"
+            >
+              <X size={14} className="mr-1" /> Clear region
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SamplingSettings;
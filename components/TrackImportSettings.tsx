@@ -0,0 +1,42 @@
+import React from 'react';
+import { FileInput, X } from 'lucide-react';
+
+interface TrackImportSettingsProps {
+  tracksFile: File | null;
+  onChange: (file: File | null) => void;
+}
+
+const TrackImportSettings: React.FC<TrackImportSettingsProps> = ({ tracksFile, onChange }) => {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-slate-300 flex items-center">
+        <FileInput className="mr-2 text-emerald-500" size={16} />
+        Import Tracks <span className="ml-2 text-xs text-slate-500 font-normal">(optional, view existing TrackMate XML or tracks CSV instead of detecting)</span>
+      </h4>
+      {tracksFile ? (
+        <div className="flex items-center justify-between px-3 py-2 bg-slate-900 border border-emerald-500/40 rounded-lg text-sm">
+          <span className="text-slate-200 font-mono truncate">{tracksFile.name}</span>
+          <button
+            onClick={() => onChange(null)}
+            className="ml-2 text-slate-400 hover:text-slate-200 transition-colors"
+            title="Remove tracks file and detect cells instead"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ) : (
+        <label className="block cursor-pointer px-3 py-2 bg-slate-900 border border-dashed border-slate-600 hover:border-emerald-500/50 rounded-lg text-xs text-slate-400 transition-colors">
+          <input
+            type="file"
+            className="hidden"
+            accept=".xml,.csv,text/csv,application/xml,text/xml"
+            onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+          />
+          Select a TrackMate .xml or tracks .csv (frame, track_id, x/y in px or %) ...
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default TrackImportSettings;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { FrameData } from '../types';
+import { summarizeValidation } from '../services/validationService';
+import { ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ValidationWarningsProps {
+  frames: FrameData[];
+}
+
+// Corrections made to the detector output (clamped, dropped or merged cells), collapsed by default
+const ValidationWarnings: React.FC<ValidationWarningsProps> = ({ frames }) => {
+  const [expanded, setExpanded] = useState(false);
+  const summary = summarizeValidation(frames);
+  if (summary.totalWarnings === 0) return null;
+
+  return (
+    <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl px-4 py-3 text-sm text-amber-200 space-y-2">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center text-left">
+        {expanded ? <ChevronDown size={16} className="mr-1" /> : <ChevronRight size={16} className="mr-1" />}
+        <ShieldAlert size={16} className="mr-2 flex-shrink-0" />
+        {summary.totalWarnings} correction{summary.totalWarnings === 1 ? '' : 's'} to the detector output in {summary.framesWithWarnings} frame{summary.framesWithWarnings === 1 ? '' : 's'}
+      </button>
+      {expanded && (
+        <ul className="text-xs text-amber-300/80 font-mono space-y-0.5 max-h-40 overflow-y-auto">
+          {frames.flatMap((frame, frameIndex) => (frame.warnings ?? []).map((warning, i) => (
+            <li key={`${frameIndex}-${i}`}>
+              {frame.timestamp.toFixed(2)}s · <span className="text-amber-400">{warning.issue}</span> · {warning.message}
+            </li>
+          )))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationWarnings;
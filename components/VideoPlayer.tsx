@@ -1,23 +1,187 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { FrameData } from '../types';
-import { Play, Pause, Maximize } from 'lucide-react';
+import React, { useRef, useEffect, useImperativeHandle, useState } from 'react';
+import { Calibration, CellSelection, CurationEdit, FrameData, ImageSequence } from '../types';
+import { formatTime, isTimeCalibrated } from '../services/calibrationService';
+import { getSequenceFrameIndex } from '../services/imageSequenceService';
+import { describeFrameFailure, isUsableFrame } from '../services/frameStatusService';
+import {
+  centerOn, clampViewport, createFrameMapping, DEFAULT_VIEWPORT, FrameMapping, getContentRect, getMediaTransform,
+  ScreenRect, Viewport, WHEEL_ZOOM_STEP, zoomAt
+} from '../services/viewportService';
+import { DisplayedFrame, findClosestFrameIndex, interpolateFrame, observedFrame } from '../services/interpolationService';
+import { TimelineEvent } from '../services/eventService';
+import { Play, Pause, Maximize, ZoomIn, ZoomOut, Scan, Spline } from 'lucide-react';
 
 interface VideoPlayerProps {
   videoUrl: string | null;
+  // Still frames (TIFF stack or image folder) played instead of a video
+  sequence?: ImageSequence | null;
   frames: FrameData[];
   onTimeUpdate?: (time: number) => void;
+  calibration?: Calibration;
+  // Curation: when editMode is on, the overlay takes clicks and drags
+  editMode?: boolean;
+  selection?: CellSelection | null;
+  onSelect?: (selection: CellSelection | null) => void;
+  onEdit?: (edit: CurationEdit) => void;
+  // Outside edit mode, clicking a cell opens it in the inspector
+  inspectedTrackId?: number | null;
+  onInspect?: (trackId: number) => void;
+  // Event picked in the event log: its cells and location are marked while its frame is shown
+  highlightedEvent?: TimelineEvent | null;
+  ref?: React.Ref<VideoPlayerHandle>;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdate }) => {
+// Lets siblings drive playback, e.g. the event log jumping to an event
+export interface VideoPlayerHandle {
+  seek: (time: number) => void; // Pauses and moves to a time (s), clamped to the footage
+}
+
+// Overlay circles are never drawn smaller than this (px)
+const MIN_DRAW_RADIUS = 5;
+// Consensus cells fade with falling agreement, down to this opacity
+const MIN_CONFIDENCE_ALPHA = 0.25;
+// Pointer within this distance (px) of a circle's rim resizes instead of moving
+const RIM_TOLERANCE = 6;
+// A press that moves less than this (px) is a click, not a pan
+const CLICK_TOLERANCE = 4;
+// Width of the minimap shown while zoomed in (px)
+const MINIMAP_WIDTH = 160;
+
+// A cell being moved or resized on the overlay, in % coordinates
+interface DragState {
+  frameIndex: number;
+  cellId: number;
+  mode: 'move' | 'resize';
+  offsetX: number;
+  offsetY: number;
+  x: number;
+  y: number;
+  r: number;
+  moved: boolean;
+}
+
+// A press outside edit mode: a click inspects a cell, a drag pans the zoomed view
+interface PanState {
+  startX: number;
+  startY: number;
+  viewport: Viewport;
+  moved: boolean;
+}
+
+// Helper: Pixel size of the decoded frame (0 until it is known)
+const getIntrinsicSize = (media: HTMLElement): { width: number; height: number } =>
+  media instanceof HTMLVideoElement
+    ? { width: media.videoWidth, height: media.videoHeight }
+    : media instanceof HTMLImageElement
+      ? { width: media.naturalWidth, height: media.naturalHeight }
+      : { width: 0, height: 0 };
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, sequence = null, frames, onTimeUpdate, calibration, editMode = false, selection = null, onSelect, onEdit, inspectedTrackId = null, onInspect, highlightedEvent = null, ref }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  // Playback clock of an image sequence (a video keeps its own in currentTime)
+  const sequenceTimeRef = useRef(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const dragRef = useRef<DragState | null>(null);
+  const failedFrames = frames.filter(frame => !isUsableFrame(frame));
+  // The render loop reads the selection through a ref so it is not restarted on every click
+  const selectionRef = useRef<CellSelection | null>(selection);
+  selectionRef.current = selection;
+  const editModeRef = useRef(editMode);
+  editModeRef.current = editMode;
+  const inspectedRef = useRef<number | null>(inspectedTrackId);
+  inspectedRef.current = inspectedTrackId;
+  const highlightRef = useRef<TimelineEvent | null>(highlightedEvent);
+  highlightRef.current = highlightedEvent;
+  // Move annotations smoothly between sampled frames instead of holding the nearest one
+  const [interpolate, setInterpolate] = useState(true);
+  const interpolateRef = useRef(interpolate);
+  interpolateRef.current = interpolate;
+  // Zoom and pan: state for the controls, mirrored in a ref for the render loop and pointer handlers
+  const [viewport, setViewportState] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+  const panRef = useRef<PanState | null>(null);
+  // What the overlay shows as of the last drawn frame
+  const displayedRef = useRef<DisplayedFrame | null>(null);
+  // Frame rectangle on the canvas and its mapping, as of the last drawn frame
+  const layoutRef = useRef<{ rect: ScreenRect; mapping: FrameMapping } | null>(null);
+
+  const setViewport = (next: Viewport) => {
+    const clamped = clampViewport(next);
+    viewportRef.current = clamped;
+    setViewportState(clamped);
+  };
+
+  // The displayed element and its playback time, for either kind of source
+  const getMediaElement = (): HTMLElement | null => sequence ? imageRef.current : videoRef.current;
+  const getMediaTime = (): number => sequence ? sequenceTimeRef.current : videoRef.current?.currentTime ?? 0;
+
+  const setSequenceTime = (time: number) => {
+    sequenceTimeRef.current = time;
+    setCurrentTime(time);
+    if (onTimeUpdate) onTimeUpdate(time);
+  };
+
+  // New footage starts unzoomed
+  useEffect(() => {
+    setViewport(DEFAULT_VIEWPORT);
+  }, [videoUrl, sequence]);
+
+  // Wheel zoom around the pointer. A native listener, as React's wheel handler cannot prevent
+  // page scrolling; zooming out at 1x leaves the wheel to the page.
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const onWheel = (e: WheelEvent) => {
+      const layout = layoutRef.current;
+      if (!layout || (e.deltaY > 0 && viewportRef.current.zoom <= 1)) return;
+      e.preventDefault();
+      const bounds = stage.getBoundingClientRect();
+      const fx = layout.mapping.toFrameX(e.clientX - bounds.left);
+      const fy = layout.mapping.toFrameY(e.clientY - bounds.top);
+      setViewport(zoomAt(viewportRef.current, fx, fy, e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP));
+    };
+    stage.addEventListener('wheel', onWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', onWheel);
+  }, [videoUrl, sequence]);
+
+  // A new sequence starts at its first frame
+  useEffect(() => {
+    if (!sequence) return;
+    sequenceTimeRef.current = 0;
+    setCurrentTime(0);
+    setIsPlaying(false);
+    setDuration(sequence.frameUrls.length / sequence.fps);
+  }, [sequence]);
+
+  // Sequence playback: step one frame per tick and stop on the last one
+  useEffect(() => {
+    if (!sequence || !isPlaying) return;
+    const timer = setInterval(() => {
+      const next = sequenceTimeRef.current + 1 / sequence.fps;
+      if (getSequenceFrameIndex(sequence, next) === getSequenceFrameIndex(sequence, sequenceTimeRef.current)) {
+        setIsPlaying(false);
+        return;
+      }
+      setSequenceTime(next);
+    }, 1000 / sequence.fps);
+    return () => clearInterval(timer);
+  }, [sequence, isPlaying]);
 
   // Handle Play/Pause
   const togglePlay = () => {
+    if (sequence) {
+      // Replay from the start once the end is reached
+      if (!isPlaying && getSequenceFrameIndex(sequence, sequenceTimeRef.current) === sequence.frameUrls.length - 1) setSequenceTime(0);
+      setIsPlaying(!isPlaying);
+      return;
+    }
     if (videoRef.current) {
       if (isPlaying) {
         videoRef.current.pause();
@@ -43,55 +207,117 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
     }
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
-    if (videoRef.current) {
+  const seekTo = (time: number) => {
+    if (sequence) {
+      setSequenceTime(time);
+    } else if (videoRef.current) {
       videoRef.current.currentTime = time;
       setCurrentTime(time);
     }
   };
 
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(parseFloat(e.target.value));
+  };
+
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      const end = sequence ? sequence.frameUrls.length / sequence.fps : videoRef.current?.duration;
+      const clamped = Math.max(0, end && Number.isFinite(end) ? Math.min(time, end) : time);
+      videoRef.current?.pause();
+      setIsPlaying(false);
+      seekTo(clamped);
+      if (!sequence && onTimeUpdate) onTimeUpdate(clamped);
+    }
+  }));
+
+  // While zoomed in, bring a highlighted event into view
+  useEffect(() => {
+    if (!highlightedEvent || highlightedEvent.x === undefined || highlightedEvent.y === undefined || viewportRef.current.zoom <= 1) return;
+    setViewport(centerOn(viewportRef.current, highlightedEvent.x, highlightedEvent.y));
+  }, [highlightedEvent]);
+
   // Canvas Drawing Loop
   useEffect(() => {
     let animationFrameId: number;
 
     const render = () => {
-      const video = videoRef.current;
+      const media = getMediaElement();
       const canvas = canvasRef.current;
 
-      if (video && canvas) {
-        // Match canvas size to video display size
-        if (canvas.width !== video.clientWidth || canvas.height !== video.clientHeight) {
-          canvas.width = video.clientWidth;
-          canvas.height = video.clientHeight;
+      const stage = stageRef.current;
+
+      if (media && canvas && stage) {
+        // The canvas covers the whole player; the frame is drawn letterboxed inside the media element
+        if (canvas.width !== stage.clientWidth || canvas.height !== stage.clientHeight) {
+          canvas.width = stage.clientWidth;
+          canvas.height = stage.clientHeight;
         }
+        const intrinsic = getIntrinsicSize(media);
+        const content = getContentRect(media.clientWidth, media.clientHeight, intrinsic.width, intrinsic.height);
+        const rect = { ...content, x: media.offsetLeft + content.x, y: media.offsetTop + content.y };
+        const view = viewportRef.current;
+        const transform = getMediaTransform(content, view);
+        if (media.style.transform !== transform) media.style.transform = transform;
+        const mapping = createFrameMapping(rect, view, intrinsic.width, intrinsic.height);
+        layoutRef.current = { rect, mapping };
 
         const ctx = canvas.getContext('2d');
         if (ctx) {
           ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-          // Find closest frame data
-          // With adaptive sampling, frames might be at 0, 2.5, 5.0... 
-          // We need the closest one to current playback time to ensure annotations persist.
-          let frameData: FrameData | null = null;
-          if (frames.length > 0) {
-             frameData = frames.reduce((prev, curr) => {
-                return (Math.abs(curr.timestamp - video.currentTime) < Math.abs(prev.timestamp - video.currentTime) ? curr : prev);
-             });
+          // Sampled frames can be seconds apart (e.g. 0, 2.5, 5.0...). While watching, tracks are
+          // interpolated between the two around the playback time; edits work on the closest one.
+          const time = getMediaTime();
+          const frameIndex = findClosestFrameIndex(frames, time);
+          const frameData: FrameData | null = frameIndex >= 0 ? frames[frameIndex] : null;
+          const displayed: DisplayedFrame | null = !frameData
+            ? null
+            : interpolateRef.current && !editModeRef.current ? interpolateFrame(frames, time) : observedFrame(frameData);
+          displayedRef.current = displayed;
+
+          // Failed frames have no detections to draw; say so rather than showing an empty field
+          if (frameData && !isUsableFrame(frameData)) {
+            const label = describeFrameFailure(frameData);
+            ctx.font = 'bold 12px sans-serif';
+            const textWidth = Math.min(ctx.measureText(label).width, canvas.width - 24);
+            ctx.fillStyle = 'rgba(127, 29, 29, 0.8)';
+            ctx.fillRect(8, 8, textWidth + 8, 20);
+            ctx.fillStyle = '#fecaca';
+            ctx.fillText(label, 12, 22, canvas.width - 24);
+          } else if (displayed) {
+            // Whether the overlay shows detections or positions estimated between two sampled frames
+            const label = displayed.observed
+              ? `Observed · ${displayed.from.toFixed(2)}s`
+              : `Interpolated · ${displayed.from.toFixed(2)}s → ${displayed.to.toFixed(2)}s`;
+            ctx.font = 'bold 11px sans-serif';
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+            ctx.fillRect(8, 8, ctx.measureText(label).width + 8, 18);
+            ctx.fillStyle = displayed.observed ? '#6ee7b7' : '#cbd5e1';
+            ctx.fillText(label, 12, 21);
           }
 
-          if (frameData && frameData.cells) {
-            frameData.cells.forEach(cell => {
-              const x = (cell.x / 100) * canvas.width;
-              const y = (cell.y / 100) * canvas.height;
-              // Ensure radius is visible but not huge
-              const r = Math.max((cell.r / 100) * (Math.min(canvas.width, canvas.height)), 5);
+          if (displayed) {
+            displayed.cells.forEach(({ cell: original, alpha, interpolated }) => {
+              // Show a cell being dragged at its live position
+              const drag = dragRef.current;
+              const cell = drag && drag.frameIndex === frameIndex && drag.cellId === original.id
+                ? { ...original, x: drag.x, y: drag.y, r: drag.r }
+                : original;
+              const x = mapping.toScreenX(cell.x);
+              const y = mapping.toScreenY(cell.y);
+              // Radius is % of the frame width; keep it visible when small
+              const r = Math.max(mapping.radiusX(cell.r), MIN_DRAW_RADIUS);
+              const ry = Math.max(mapping.radiusY(cell.r), MIN_DRAW_RADIUS);
 
               const isMitosis = cell.status?.toLowerCase().includes('divid') || 
                                 cell.status?.toLowerCase().includes('mitosis') || 
                                 cell.status?.toLowerCase().includes('prepar');
               
               const baseColor = isMitosis ? '#06b6d4' : '#34d399'; // Cyan for Mitosis, Emerald for Normal
+              // Consensus mode: cells fewer passes agreed on are drawn fainter; appearing and
+              // disappearing cells fade in and out between sampled frames
+              const fade = alpha * (cell.confidence === undefined ? 1 : MIN_CONFIDENCE_ALPHA + (1 - MIN_CONFIDENCE_ALPHA) * cell.confidence);
 
               // --- 1. Draw Motion Trail ("Comet Tail") ---
               if (cell.history && cell.history.length > 0) {
@@ -102,10 +328,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
                       ? { x: cell.x, y: cell.y } // Connect last history point to current
                       : cell.history[i+1];
                    
-                   const startX = (pt.x / 100) * canvas.width;
-                   const startY = (pt.y / 100) * canvas.height;
-                   const endX = (nextPt.x / 100) * canvas.width;
-                   const endY = (nextPt.y / 100) * canvas.height;
+                   const startX = mapping.toScreenX(pt.x);
+                   const startY = mapping.toScreenY(pt.y);
+                   const endX = mapping.toScreenX(nextPt.x);
+                   const endY = mapping.toScreenY(nextPt.y);
                    
                    ctx.beginPath();
                    ctx.moveTo(startX, startY);
@@ -113,23 +339,58 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
                    ctx.strokeStyle = baseColor;
                    ctx.lineWidth = 2;
                    // Opacity gradient: Older points are more transparent
-                   ctx.globalAlpha = 0.2 + ((i / cell.history.length) * 0.6); 
+                   ctx.globalAlpha = (0.2 + ((i / cell.history.length) * 0.6)) * fade;
                    ctx.stroke();
                 }
-                ctx.globalAlpha = 1.0; // Reset alpha
               }
+              ctx.globalAlpha = fade;
 
-              // --- 2. Draw Bounding Circle ---
+              // --- 2. Draw Bounding Circle (an ellipse if the display stretches the frame), dashed when interpolated ---
               ctx.beginPath();
-              ctx.arc(x, y, r, 0, 2 * Math.PI);
+              ctx.ellipse(x, y, r, ry, 0, 0, 2 * Math.PI);
               ctx.strokeStyle = baseColor;
               ctx.lineWidth = 2;
+              ctx.setLineDash(interpolated ? [6, 4] : []);
               ctx.stroke();
+              ctx.setLineDash([]);
+
+              // Selected cell in edit mode
+              const selected = selectionRef.current;
+              if (selected && selected.frameIndex === frameIndex && selected.cellId === cell.id) {
+                ctx.beginPath();
+                ctx.ellipse(x, y, r + 4, ry + 4, 0, 0, 2 * Math.PI);
+                ctx.strokeStyle = '#ffffff';
+                ctx.setLineDash([4, 3]);
+                ctx.stroke();
+                ctx.setLineDash([]);
+              }
+
+              // Cell open in the inspector
+              if (inspectedRef.current === cell.id) {
+                ctx.beginPath();
+                ctx.ellipse(x, y, r + 5, ry + 5, 0, 0, 2 * Math.PI);
+                ctx.strokeStyle = '#f472b6';
+                ctx.lineWidth = 2;
+                ctx.stroke();
+              }
+
+              // Cell involved in the highlighted event
+              const highlight = highlightRef.current;
+              if (highlight && highlight.frameIndex === frameIndex && highlight.cellIds?.includes(cell.id)) {
+                ctx.beginPath();
+                ctx.ellipse(x, y, r + 8, ry + 8, 0, 0, 2 * Math.PI);
+                ctx.strokeStyle = '#fbbf24';
+                ctx.lineWidth = 3;
+                ctx.setLineDash([8, 4]);
+                ctx.stroke();
+                ctx.setLineDash([]);
+                ctx.lineWidth = 2;
+              }
 
               // --- 3. Draw ID Label ---
               ctx.fillStyle = baseColor;
               ctx.font = 'bold 12px sans-serif';
-              ctx.fillText(`#${cell.id}`, x + r + 2, y);
+              ctx.fillText(cell.confidence !== undefined && cell.confidence < 1 ? `#${cell.id} ${Math.round(cell.confidence * 100)}%` : `#${cell.id}`, x + r + 2, y);
 
               // --- 4. Draw "Doctor's Note" Status Label ---
               if (cell.status && cell.status !== 'Normal') {
@@ -139,16 +400,59 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
                 
                 // Background for text
                 ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
-                ctx.fillRect(x - (textWidth/2) - 4, y - r - 20, textWidth + 8, 16);
+                ctx.fillRect(x - (textWidth/2) - 4, y - ry - 20, textWidth + 8, 16);
                 
                 // Text
                 ctx.fillStyle = isMitosis ? '#67e8f9' : '#ffffff'; // Cyan or White text
                 ctx.textAlign = 'center';
-                ctx.fillText(cell.status, x, y - r - 8);
+                ctx.fillText(cell.status, x, y - ry - 8);
                 ctx.textAlign = 'left'; // Reset
               }
+              ctx.globalAlpha = 1.0; // Reset alpha
             });
           }
+
+          // Location of the highlighted event, while its sampled frame is the closest one
+          const highlight = highlightRef.current;
+          if (highlight && highlight.frameIndex === frameIndex && highlight.x !== undefined && highlight.y !== undefined) {
+            const hx = mapping.toScreenX(highlight.x);
+            const hy = mapping.toScreenY(highlight.y);
+            ctx.strokeStyle = '#fbbf24';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(hx - 10, hy);
+            ctx.lineTo(hx - 3, hy);
+            ctx.moveTo(hx + 3, hy);
+            ctx.lineTo(hx + 10, hy);
+            ctx.moveTo(hx, hy - 10);
+            ctx.lineTo(hx, hy - 3);
+            ctx.moveTo(hx, hy + 3);
+            ctx.lineTo(hx, hy + 10);
+            ctx.stroke();
+            ctx.font = 'bold 11px sans-serif';
+            ctx.fillStyle = '#fbbf24';
+            ctx.fillText(highlight.type, hx + 12, hy - 6);
+          }
+        }
+
+        // Minimap while zoomed: the whole frame, its cells, and the visible window
+        const minimap = minimapRef.current;
+        const miniCtx = minimap?.getContext('2d');
+        if (minimap && miniCtx && view.zoom > 1 && intrinsic.width > 0) {
+          const height = Math.round(MINIMAP_WIDTH * (intrinsic.height / intrinsic.width));
+          if (minimap.width !== MINIMAP_WIDTH || minimap.height !== height) {
+            minimap.width = MINIMAP_WIDTH;
+            minimap.height = height;
+          }
+          miniCtx.drawImage(media as CanvasImageSource, 0, 0, minimap.width, minimap.height);
+          miniCtx.fillStyle = '#34d399';
+          (displayedRef.current?.cells ?? []).forEach(({ cell }) => {
+            miniCtx.fillRect((cell.x / 100) * minimap.width - 1, (cell.y / 100) * minimap.height - 1, 2, 2);
+          });
+          miniCtx.strokeStyle = '#f472b6';
+          miniCtx.lineWidth = 2;
+          const span = 100 / view.zoom;
+          miniCtx.strokeRect((view.x / 100) * minimap.width, (view.y / 100) * minimap.height, (span / 100) * minimap.width, (span / 100) * minimap.height);
         }
       }
       animationFrameId = requestAnimationFrame(render);
@@ -159,9 +463,127 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
     return () => {
       cancelAnimationFrame(animationFrameId);
     };
-  }, [frames]);
+  }, [frames, sequence]);
+
+  // --- Pointer handling: edits in edit mode, panning when zoomed ---
+  const toFramePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - bounds.left;
+    const py = e.clientY - bounds.top;
+    const mapping = layoutRef.current!.mapping;
+    return { x: mapping.toFrameX(px), y: mapping.toFrameY(py), px, py, mapping };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!getMediaElement() || !layoutRef.current) return;
+
+    // Outside edit mode a click inspects and a drag pans; in edit mode, middle button or Alt-drag pans
+    if (!editMode || e.button === 1 || e.altKey) {
+      panRef.current = { startX: e.clientX, startY: e.clientY, viewport: viewportRef.current, moved: false };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    const frameIndex = findClosestFrameIndex(frames, getMediaTime());
+    if (frameIndex < 0) return;
+    const p = toFramePoint(e);
+
+    // Topmost cell under the pointer (drawn last = on top)
+    const hit = [...frames[frameIndex].cells].reverse().find(cell => {
+      const r = Math.max(p.mapping.radiusX(cell.r), MIN_DRAW_RADIUS);
+      const d = Math.hypot(p.mapping.toScreenX(cell.x) - p.px, p.mapping.toScreenY(cell.y) - p.py);
+      return d <= r + RIM_TOLERANCE;
+    });
+
+    if (!hit) {
+      // Empty space: add a cell with the frame's typical radius
+      const radii = frames[frameIndex].cells.map(c => c.r).sort((a, b) => a - b);
+      const r = radii.length > 0 ? radii[Math.floor(radii.length / 2)] : 2;
+      onEdit?.({ type: 'add', frameIndex, x: p.x, y: p.y, r });
+      return;
+    }
+
+    onSelect?.({ frameIndex, cellId: hit.id });
+    const r = Math.max(p.mapping.radiusX(hit.r), MIN_DRAW_RADIUS);
+    const d = Math.hypot(p.mapping.toScreenX(hit.x) - p.px, p.mapping.toScreenY(hit.y) - p.py);
+    dragRef.current = {
+      frameIndex,
+      cellId: hit.id,
+      mode: Math.abs(d - r) <= RIM_TOLERANCE && d > r * 0.6 ? 'resize' : 'move',
+      offsetX: hit.x - p.x,
+      offsetY: hit.y - p.y,
+      x: hit.x,
+      y: hit.y,
+      r: hit.r,
+      moved: false
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
 
-  if (!videoUrl) {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pan = panRef.current;
+    const layout = layoutRef.current;
+    if (pan && layout) {
+      if (!pan.moved && Math.hypot(e.clientX - pan.startX, e.clientY - pan.startY) < CLICK_TOLERANCE) return;
+      pan.moved = true;
+      const { zoom, x, y } = pan.viewport;
+      if (zoom <= 1) return;
+      setViewport({
+        zoom,
+        x: x - ((e.clientX - pan.startX) / (layout.rect.width * zoom)) * 100,
+        y: y - ((e.clientY - pan.startY) / (layout.rect.height * zoom)) * 100
+      });
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag || !layout) return;
+    const p = toFramePoint(e);
+    if (drag.mode === 'move') {
+      drag.x = p.x + drag.offsetX;
+      drag.y = p.y + drag.offsetY;
+    } else {
+      const d = Math.hypot(p.mapping.toScreenX(drag.x) - p.px, p.mapping.toScreenY(drag.y) - p.py);
+      drag.r = p.mapping.toFrameRadius(d);
+    }
+    drag.moved = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const pan = panRef.current;
+    dragRef.current = null;
+    panRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    if (pan && !pan.moved && !editMode && layoutRef.current) {
+      // Topmost cell under the click, where it is drawn (interpolated positions included)
+      const p = toFramePoint(e);
+      const hit = [...(displayedRef.current?.cells ?? [])].reverse().find(({ cell }) => {
+        const r = Math.max(p.mapping.radiusX(cell.r), MIN_DRAW_RADIUS);
+        return Math.hypot(p.mapping.toScreenX(cell.x) - p.px, p.mapping.toScreenY(cell.y) - p.py) <= r + RIM_TOLERANCE;
+      });
+      if (hit) onInspect?.(hit.cell.id);
+    }
+    if (drag && drag.moved) {
+      onEdit?.({ type: 'move', frameIndex: drag.frameIndex, cellId: drag.cellId, x: drag.x, y: drag.y, r: drag.r });
+    }
+  };
+
+  // Clicking or dragging on the minimap centres the view there
+  const handleMinimapPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const bounds = e.currentTarget.getBoundingClientRect();
+    setViewport(centerOn(viewportRef.current, ((e.clientX - bounds.left) / bounds.width) * 100, ((e.clientY - bounds.top) / bounds.height) * 100));
+  };
+
+  // Buttons zoom around the centre of the visible window
+  const zoomBy = (factor: number) => {
+    const view = viewportRef.current;
+    const span = 100 / view.zoom;
+    setViewport(zoomAt(view, view.x + span / 2, view.y + span / 2, factor));
+  };
+
+  if (!videoUrl && !sequence) {
     return (
       <div className="w-full h-96 bg-slate-800 rounded-xl flex flex-col items-center justify-center border-2 border-dashed border-slate-600 text-slate-400">
         <div className="text-6xl mb-4">🔬</div>
@@ -172,33 +594,68 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
 
   return (
     <div className="flex flex-col space-y-4" ref={containerRef}>
-      <div className="relative w-full bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-700 group">
-        <video
-          ref={videoRef}
-          src={videoUrl}
-          className="w-full h-auto block max-h-[600px] object-contain mx-auto"
-          onTimeUpdate={handleTimeUpdate}
-          onLoadedMetadata={handleLoadedMetadata}
-          onEnded={() => setIsPlaying(false)}
-          playsInline
-        />
+      <div ref={stageRef} className="relative w-full bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-700 group">
+        {sequence ? (
+          <img
+            ref={imageRef}
+            src={sequence.frameUrls[getSequenceFrameIndex(sequence, currentTime)]}
+            alt={sequence.name}
+            draggable={false}
+            className="w-full h-auto block max-h-[600px] object-contain mx-auto origin-top-left"
+          />
+        ) : (
+          <video
+            ref={videoRef}
+            src={videoUrl ?? undefined}
+            className="w-full h-auto block max-h-[600px] object-contain mx-auto origin-top-left"
+            onTimeUpdate={handleTimeUpdate}
+            onLoadedMetadata={handleLoadedMetadata}
+            onEnded={() => setIsPlaying(false)}
+            playsInline
+          />
+        )}
         <canvas
           ref={canvasRef}
-          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+          className={`absolute top-0 left-0 w-full h-full ${editMode ? 'cursor-crosshair' : viewport.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : onInspect ? 'cursor-pointer' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { dragRef.current = null; panRef.current = null; }}
         />
+        {viewport.zoom > 1 && (
+          <canvas
+            ref={minimapRef}
+            title="Click or drag to move the view"
+            className="absolute top-3 right-3 rounded border border-slate-500 shadow-lg cursor-pointer bg-black"
+            style={{ width: MINIMAP_WIDTH }}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          />
+        )}
         
         {/* Controls Overlay */}
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
           <div className="flex flex-col space-y-2">
-            <input
-              type="range"
-              min="0"
-              max={duration || 100}
-              step="0.1"
-              value={currentTime}
-              onChange={handleSeek}
-              className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-            />
+            <div className="relative">
+              <input
+                type="range"
+                min="0"
+                max={duration || 100}
+                step={sequence ? 1 / sequence.fps : 0.1}
+                value={currentTime}
+                onChange={handleSeek}
+                className="w-full h-1 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+              />
+              {/* Frames whose analysis failed */}
+              {duration > 0 && failedFrames.map(frame => (
+                <span
+                  key={frame.timestamp}
+                  className="absolute -top-2 w-0.5 h-2 bg-red-500 pointer-events-none"
+                  style={{ left: `${(frame.timestamp / duration) * 100}%` }}
+                  title={describeFrameFailure(frame)}
+                />
+              ))}
+            </div>
             <div className="flex items-center justify-between text-white">
               <div className="flex items-center space-x-4">
                 <button onClick={togglePlay} className="hover:text-emerald-400 transition">
@@ -206,11 +663,36 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, frames, onTimeUpdat
                 </button>
                 <span className="text-sm font-mono">
                   {currentTime.toFixed(1)}s / {duration.toFixed(1)}s
+                  {sequence && (
+                    <span className="ml-2 text-slate-300">frame {getSequenceFrameIndex(sequence, currentTime) + 1}/{sequence.frameUrls.length}</span>
+                  )}
+                  {isTimeCalibrated(calibration) && (
+                    <span className="ml-2 text-emerald-300">({formatTime(currentTime, calibration)} of culture)</span>
+                  )}
                 </span>
               </div>
-              <button className="hover:text-emerald-400 transition" onClick={() => containerRef.current?.requestFullscreen()}>
-                 <Maximize size={20} />
-              </button>
+              <div className="flex items-center space-x-3">
+                <button
+                  className={`transition ${interpolate ? 'text-emerald-400 hover:text-emerald-300' : 'hover:text-emerald-400'}`}
+                  onClick={() => setInterpolate(!interpolate)}
+                  title={interpolate ? 'Interpolating tracks between sampled frames (click to show the nearest sampled frame)' : 'Showing the nearest sampled frame (click to interpolate between frames)'}
+                >
+                  <Spline size={20} />
+                </button>
+                <button className="hover:text-emerald-400 transition disabled:opacity-40" onClick={() => zoomBy(1 / WHEEL_ZOOM_STEP)} disabled={viewport.zoom <= 1} title="Zoom out">
+                  <ZoomOut size={20} />
+                </button>
+                <span className="text-sm font-mono w-12 text-center" title="Scroll to zoom, drag to pan (Alt-drag in edit mode)">{viewport.zoom.toFixed(1)}x</span>
+                <button className="hover:text-emerald-400 transition" onClick={() => zoomBy(WHEEL_ZOOM_STEP)} title="Zoom in">
+                  <ZoomIn size={20} />
+                </button>
+                <button className="hover:text-emerald-400 transition disabled:opacity-40" onClick={() => setViewport(DEFAULT_VIEWPORT)} disabled={viewport.zoom <= 1} title="Show the whole frame">
+                  <Scan size={20} />
+                </button>
+                <button className="hover:text-emerald-400 transition" onClick={() => containerRef.current?.requestFullscreen()}>
+                   <Maximize size={20} />
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,78 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DetectionProvider, ImageSequence } from "../types";
+import { analyzeMicroscopyVideo } from "./analysisService";
+import { createSimulatedProvider } from "./simulatedProvider";
+
+// The DOM here cannot decode images or draw on a canvas; the simulated provider ignores the pixels
+vi.mock("./imageSequenceService", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./imageSequenceService")>()),
+  loadImage: async () => new Image()
+}));
+
+// A 30 s sequence at one frame per second
+const SEQUENCE: ImageSequence = {
+  name: 'simulated',
+  files: [],
+  frameUrls: Array.from({ length: 30 }, (_, i) => `frame-${i}`),
+  width: 640,
+  height: 480,
+  fps: 1
+};
+
+// Helper: The simulated provider, keeping the report statistics the pipeline hands to it
+const createRecordingProvider = () => {
+  const recorded: { stats: any } = { stats: null };
+  const provider: DetectionProvider = {
+    ...createSimulatedProvider({ seed: 7, cellCount: 10, durationHint: 30, dropRate: 0.05, latencyMs: 0 }),
+    generateReport: async (stats) => {
+      recorded.stats = stats;
+      return 'Simulated report';
+    }
+  };
+  return { provider, recorded };
+};
+
+describe("analyzeMicroscopyVideo with the simulated provider", () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage: () => {} } as unknown as CanvasRenderingContext2D);
+  });
+
+  it("samples, detects, links and reports the whole sequence offline", async () => {
+    const { provider, recorded } = createRecordingProvider();
+    const progress: number[] = [];
+    const result = await analyzeMicroscopyVideo(SEQUENCE, provider, (p) => progress.push(p));
+
+    // Frames: the default plan over 30 s, every one analysed
+    expect(result.frames).toHaveLength(30);
+    expect(result.frames.map(f => f.timestamp)).toEqual(Array.from({ length: 30 }, (_, i) => i));
+    expect(result.frames.every(f => f.analysisStatus === undefined && f.cellCount === f.cells.length)).toBe(true);
+    expect(result.video).toEqual({ width: 640, height: 480, duration: 30 });
+    expect(progress[progress.length - 1]).toBe(100);
+
+    // Tracks: every detection carries a track ID, unique within its frame, and founders persist
+    result.frames.forEach(frame => {
+      expect(frame.cells.every(c => c.id > 0)).toBe(true);
+      expect(new Set(frame.cells.map(c => c.id)).size).toBe(frame.cells.length);
+    });
+    const firstIds = new Set(result.frames[0].cells.map(c => c.id));
+    expect(result.frames[1].cells.filter(c => firstIds.has(c.id)).length).toBeGreaterThan(firstIds.size / 2);
+    expect(result.frames.some(f => f.cells.some(c => c.gap && c.gap > 0))).toBe(true);
+    expect(result.frames.some(f => f.cells.some(c => c.parentId !== undefined))).toBe(true);
+
+    // Stats and report
+    expect(recorded.stats.detector).toBe(provider.name);
+    expect(recorded.stats.sampledFrames).toBe(30);
+    expect(recorded.stats.failedFrames).toBe(0);
+    expect(recorded.stats.initialPopulation).toBe(result.frames[0].cellCount);
+    expect(recorded.stats.eventsDetected.mitosis).toBeGreaterThan(0);
+    expect(result.extendedReport).toBe('Simulated report');
+    expect(result.summary).toContain('Processed 30 frames');
+  });
+
+  it("gives the same result for the same seed", async () => {
+    const first = await analyzeMicroscopyVideo(SEQUENCE, createRecordingProvider().provider, () => {});
+    const second = await analyzeMicroscopyVideo(SEQUENCE, createRecordingProvider().provider, () => {});
+    expect(second.frames).toEqual(first.frames);
+  });
+});
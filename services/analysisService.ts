@@ -0,0 +1,535 @@
+import { AnalysisCheckpoint, AnalysisOptions, AnalysisResult, ChangeSample, ConsensusSettings, DetectionProvider, ExtractedFrame, FrameData, ImageSequence, QueueSettings, SamplingPlan, VideoMetadata } from "../types";
+import { linkCellsAcrossFrames } from "./trackingService";
+import { buildOfflineReport, buildReportStats } from "./reportService";
+import { describeCalibration, formatLength, formatTime } from "./calibrationService";
+import { getSequenceMetadata, isImageSequence, loadImage } from "./imageSequenceService";
+import {
+  computeChangeScore, DEFAULT_SAMPLING_PLAN, describeSamplingPlan, getSampleGeometry, mapFromRoi,
+  planSampleTimes, planScanTimes, SCAN_SIZE, selectAdaptiveTimes
+} from "./samplingService";
+import { createAbortError, isAbortError, isRateLimitError, LOCAL_QUEUE_SETTINGS, runFrameQueue } from "./frameQueue";
+import { createUnusableFrame, isUsableFrame } from "./frameStatusService";
+import { combineTileResults } from "./tilingService";
+import { clearCheckpoint, countCheckpointFrames, loadCheckpoint, saveCheckpoint } from "./checkpointService";
+import { Augmentation, augmentImage, buildConsensus, DEFAULT_CONSENSUS, getPassCount, getPassVariation, revertAugmentation } from "./consensusService";
+
+// Loading the video must finish within this time; each planned seek adds SEEK_TIMEOUT_MS
+const LOAD_TIMEOUT_MS = 45000;
+const SEEK_TIMEOUT_MS = 3000;
+
+type ProgressCallback = (progress: number, message: string) => void;
+type SampleGeometry = ReturnType<typeof getSampleGeometry>;
+
+interface ExtractionResult {
+  frames: ExtractedFrame[];
+  video: VideoMetadata;
+  changeProfile?: ChangeSample[];
+}
+
+// Helper: Adaptive pre-scan. Each scan time is drawn tiny and compared with the previous one.
+const scanForChanges = async (
+  times: number[],
+  geometry: SampleGeometry,
+  draw: (time: number, ctx: CanvasRenderingContext2D, width: number, height: number) => Promise<void>,
+  onProgress: ProgressCallback
+): Promise<ChangeSample[]> => {
+  const scale = Math.min(1, SCAN_SIZE / Math.max(geometry.sw, geometry.sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(geometry.sw * scale));
+  canvas.height = Math.max(1, Math.round(geometry.sh * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  const profile: ChangeSample[] = [];
+  let previous: Uint8ClampedArray | null = null;
+  for (let i = 0; i < times.length; i++) {
+    if (i % 20 === 0) onProgress(5 + Math.round((i / times.length) * 8), `Scanning for scene changes (${i + 1}/${times.length})...`);
+    await draw(times[i], ctx, canvas.width, canvas.height);
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+    profile.push({ time: times[i], score: previous ? computeChangeScore(previous, pixels) : 0 });
+    previous = pixels;
+  }
+  return profile;
+};
+
+// Helper: Crops a decoded frame to the sampled area and encodes it at the plan's quality: one
+// downscaled JPEG, or in tiled mode one native-resolution JPEG per tile
+const encodeFrame = (
+  image: CanvasImageSource,
+  timestamp: number,
+  geometry: SampleGeometry,
+  quality: number,
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D
+): ExtractedFrame => {
+  if (!geometry.tiles) {
+    ctx.drawImage(image, geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, canvas.width, canvas.height);
+    return { timestamp, base64: canvas.toDataURL('image/jpeg', quality).split(',')[1] };
+  }
+  const tiles = geometry.tiles.map(tile => {
+    canvas.width = tile.width;
+    canvas.height = tile.height;
+    ctx.drawImage(image, geometry.sx + tile.x, geometry.sy + tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+    return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+  });
+  return { timestamp, base64: '', tiles };
+};
+
+// Helper: Extract frames from video file with robustness.
+// DOWNSCALING (plan.maxDimension) keeps payloads small enough to avoid RPC/XHR 500 errors.
+// fixedTimes replaces the plan's timestamps (re-extracting failed frames); adaptive plans then skip the pre-scan.
+const extractFrames = async (file: File, plan: SamplingPlan, onProgress: ProgressCallback, fixedTimes?: number[]): Promise<ExtractionResult> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.setAttribute('playsinline', ''); // Critical for iOS/WebViews
+    video.setAttribute('webkit-playsinline', '');
+    video.preload = 'auto';
+    
+    // Global safety timeout
+    const onTimeout = () => {
+      reject(new Error("Video processing timed out. The file might be corrupted, use an unsupported codec, or be too large."));
+    };
+    let timeout = setTimeout(onTimeout, LOAD_TIMEOUT_MS);
+
+    video.onerror = () => {
+      clearTimeout(timeout);
+      const err = video.error;
+      let msg = "Could not load video file.";
+      if (err) {
+        switch (err.code) {
+          case MediaError.MEDIA_ERR_ABORTED: 
+            msg = "Video loading aborted."; 
+            break;
+          case MediaError.MEDIA_ERR_NETWORK: 
+            msg = "Network error loading video."; 
+            break;
+          case MediaError.MEDIA_ERR_DECODE: 
+            // Specific fix for the user's error message
+            msg = "Video decoding failed. This usually means the video uses an unsupported codec (like H.265/HEVC). Please convert it to standard MP4 (H.264)."; 
+            break;
+          case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: 
+            msg = "Video format not supported. Your browser cannot play this file. Please convert to standard MP4 (H.264)."; 
+            break;
+        }
+      }
+      reject(new Error(msg));
+    };
+
+    const frames: ExtractedFrame[] = [];
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+
+    // Use onloadeddata to ensure the first frame is actually ready to decode
+    video.onloadeddata = async () => {
+      try {
+        const duration = video.duration || 30; // Fallback if infinite
+        const geometry = getSampleGeometry(plan, video.videoWidth, video.videoHeight);
+        canvas.width = geometry.outWidth;
+        canvas.height = geometry.outHeight;
+
+        const seekTo = (time: number) => {
+          // Frames at the current position (e.g. t=0 right after loading) are captured without seeking
+          // This prevents race conditions where seeking to 0 when already at 0 doesn't fire events
+          if (video.currentTime === time) return Promise.resolve();
+
+          // Robust Seek Logic
+          return new Promise<void>((frameResolve) => {
+             const seekTimeout = setTimeout(() => {
+                 // Don't fail the whole process for one bad frame, just skip
+                 console.warn(`Seek timeout at ${time}s, skipping frame.`);
+                 frameResolve(); 
+             }, SEEK_TIMEOUT_MS);
+             
+             const onSeek = () => {
+                clearTimeout(seekTimeout);
+                video.removeEventListener('seeked', onSeek);
+                frameResolve();
+             };
+             
+             // CRITICAL: Attach listener BEFORE setting currentTime
+             video.addEventListener('seeked', onSeek);
+             video.currentTime = time;
+          });
+        };
+
+        // Long plans get time for every seek
+        const rearmTimeout = (seeks: number) => {
+          clearTimeout(timeout);
+          timeout = setTimeout(onTimeout, LOAD_TIMEOUT_MS + seeks * SEEK_TIMEOUT_MS);
+        };
+
+        let times = fixedTimes ?? planSampleTimes(plan, duration);
+        let changeProfile: ChangeSample[] | undefined;
+        if (plan.mode === 'adaptive' && !fixedTimes) {
+          const scanTimes = planScanTimes(plan, duration);
+          rearmTimeout(scanTimes.length);
+          changeProfile = await scanForChanges(scanTimes, geometry, async (time, scanCtx, width, height) => {
+            await seekTo(time);
+            scanCtx.drawImage(video, geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, width, height);
+          }, onProgress);
+          times = selectAdaptiveTimes(changeProfile, plan, duration);
+        }
+        rearmTimeout(times.length);
+
+        for (const time of times) {
+          await seekTo(time);
+          if (ctx) frames.push(encodeFrame(video, time, geometry, plan.jpegQuality, canvas, ctx));
+        }
+        
+        clearTimeout(timeout);
+        URL.revokeObjectURL(video.src);
+        resolve({
+          frames,
+          video: { width: video.videoWidth, height: video.videoHeight, duration },
+          changeProfile
+        });
+      } catch (e) {
+        clearTimeout(timeout);
+        URL.revokeObjectURL(video.src);
+        reject(e);
+      }
+    };
+
+    // Trigger load
+    video.src = URL.createObjectURL(file);
+    video.load(); // Explicitly request load
+  });
+};
+
+// Helper: Samples an image sequence like a video, with sample times snapped to whole frames
+const extractSequenceFrames = async (sequence: ImageSequence, plan: SamplingPlan, onProgress: ProgressCallback, fixedTimes?: number[]): Promise<ExtractionResult> => {
+  const video = getSequenceMetadata(sequence);
+  const geometry = getSampleGeometry(plan, sequence.width, sequence.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = geometry.outWidth;
+  canvas.height = geometry.outHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  const frameAt = (time: number) => loadImage(sequence.frameUrls[Math.round(time * sequence.fps)]);
+
+  let times = fixedTimes ?? planSampleTimes(plan, video.duration, sequence.fps);
+  let changeProfile: ChangeSample[] | undefined;
+  if (plan.mode === 'adaptive' && !fixedTimes) {
+    changeProfile = await scanForChanges(planScanTimes(plan, video.duration, sequence.fps), geometry, async (time, scanCtx, width, height) => {
+      scanCtx.drawImage(await frameAt(time), geometry.sx, geometry.sy, geometry.sw, geometry.sh, 0, 0, width, height);
+    }, onProgress);
+    times = selectAdaptiveTimes(changeProfile, plan, video.duration, sequence.fps);
+  }
+
+  const frames: ExtractedFrame[] = [];
+  for (const time of times) {
+    frames.push(encodeFrame(await frameAt(time), time, geometry, plan.jpegQuality, canvas, ctx));
+  }
+  return { frames, video, changeProfile };
+};
+
+/**
+ * Reads the frame size and duration of a video without decoding any frames.
+ * Used when tracks come from an external source and no detection is run.
+ */
+export const loadVideoMetadata = (source: File | ImageSequence): Promise<VideoMetadata> => {
+  if (isImageSequence(source)) return Promise.resolve(getSequenceMetadata(source));
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'metadata';
+    const url = URL.createObjectURL(source);
+
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: video.videoWidth, height: video.videoHeight, duration: video.duration || 0 });
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not load video file."));
+    };
+    video.src = url;
+  });
+};
+
+// Helper: Translate technical errors to user friendly messages
+const getFriendlyErrorMessage = (error: any): string => {
+  const msg = error.toString();
+  if (isAbortError(error)) return "Analysis cancelled.";
+  if (msg.includes("API key")) return "Invalid API Key provided. Please check your key.";
+  if (msg.includes("429")) return "Too many requests. The API quota has been exceeded. Please try again in a few minutes.";
+  if (msg.includes("Network")) return "Network error. Please check your internet connection.";
+  if (msg.includes("timed out")) return "The video processing timed out. Try a shorter video clip.";
+  
+  // Specific Video Errors
+  if (msg.includes("unsupported codec") || msg.includes("H.265")) return "Video format not supported. Your browser cannot play this file (likely H.265/HEVC). Please convert to standard MP4 (H.264).";
+  if (msg.includes("corrupted")) return "The video file appears to be corrupted or cannot be decoded by the browser.";
+  if (msg.includes("video file")) return "Could not parse video file. Ensure it is a valid MP4/WebM that plays in your browser.";
+  // Image sequence errors are already written for the user
+  if (msg.includes("sequence")) return error.message;
+  
+  return "An unexpected error occurred during analysis. Please try again.";
+};
+
+interface QueuedFrame {
+  index: number; // Slot of the frame in the result
+  frame: ExtractedFrame;
+}
+
+// Helper: One frame through the detector. Errors other than cancellation and rate limits (both left
+// to the queue) become a failed frame, so one bad frame does not end the run.
+const analyzeOneFrame = async (provider: DetectionProvider, frame: ExtractedFrame, signal?: AbortSignal): Promise<FrameData> => {
+  try {
+    return await provider.analyzeFrame(frame, signal);
+  } catch (error: any) {
+    if (signal?.aborted || isAbortError(error) || isRateLimitError(error)) throw error;
+    console.error(`Detection failed on the frame at ${frame.timestamp}s:`, error);
+    return createUnusableFrame(frame.timestamp, 'failed', String(error?.message ?? error).slice(0, 200));
+  }
+};
+
+// Helper: Runs frames through the queue, storing each result (mapped back from the region of interest)
+// in its slot of `analyzed`. Tiled frames queue one request per tile, and consensus mode one request
+// per pass (and tile); a frame is combined once all its requests are back. Progress runs from 15% to
+// 80% over all slots.
+const analyzeQueuedFrames = async (
+  items: QueuedFrame[],
+  analyzed: (FrameData | null)[],
+  provider: DetectionProvider,
+  settings: { roi: SamplingPlan['roi']; geometry: SampleGeometry; queue: QueueSettings; consensus: ConsensusSettings; signal?: AbortSignal },
+  onProgress: ProgressCallback,
+  afterEach?: () => Promise<void>
+) => {
+  const { geometry, consensus } = settings;
+  const total = analyzed.length;
+  let completed = total - items.length;
+  const percentage = () => 15 + Math.round((completed / total) * 65);
+  const passCount = getPassCount(consensus);
+
+  // One job per request: the frame itself, or each of its tiles, once per pass
+  const jobs = items.flatMap(item => Array.from({ length: passCount }, (_, pass) => item.frame.tiles
+    ? item.frame.tiles.map((base64, tile) => ({ item, pass, tile, request: { timestamp: item.frame.timestamp, base64 } as ExtractedFrame }))
+    : [{ item, pass, tile: -1, request: item.frame }]).flat());
+  const requestsPerFrame = passCount * (items[0]?.frame.tiles?.length ?? 1);
+  // Results per frame slot, by pass and tile
+  const pending = new Map<number, FrameData[][]>();
+
+  // Requests answered from the provider's response cache, shown in the progress messages
+  let cacheHits = 0;
+
+  const storeFrame = async (index: number, data: FrameData) => {
+    analyzed[index] = mapFromRoi(data, settings.roi);
+    completed++;
+    const failed = analyzed.filter(f => f && !isUsableFrame(f)).length;
+    const notes = [
+      failed > 0 ? `${failed} failed` : '',
+      cacheHits > 0 ? `${cacheHits} request${cacheHits === 1 ? '' : 's'} from cache` : ''
+    ].filter(Boolean).join(', ');
+    onProgress(percentage(), `Analysed ${completed} of ${total} frames for biological structures${notes ? ` (${notes})` : ''}...`);
+    if (afterEach) await afterEach();
+  };
+
+  // Helper: The request of a job with its pass's prompt variant and image transform. Prepared once,
+  // as both the cache lookup and the request need it.
+  type Job = typeof jobs[number];
+  const prepared = new Map<Job, Promise<{ request: ExtractedFrame; augmentation: Augmentation }>>();
+  const prepare = (job: Job) => {
+    if (!prepared.has(job)) {
+      prepared.set(job, (async () => {
+        if (passCount === 1) return { request: job.request, augmentation: 'none' as Augmentation };
+        const { promptVariant, augmentation } = getPassVariation(consensus, job.pass);
+        const base64 = await augmentImage(job.request.base64, augmentation);
+        return { request: { ...job.request, base64, promptVariant }, augmentation };
+      })());
+    }
+    return prepared.get(job)!;
+  };
+
+  // Helper: Sends one request and maps the detections back to the original orientation
+  const runJob = async (job: Job, signal?: AbortSignal): Promise<FrameData> => {
+    const { request, augmentation } = await prepare(job);
+    prepared.delete(job);
+    return revertAugmentation(await analyzeOneFrame(provider, request, signal), augmentation);
+  };
+
+  const lookupCache = provider.lookupCache;
+  const lookup = lookupCache
+    ? async (job: Job): Promise<FrameData | null> => {
+        const { request, augmentation } = await prepare(job);
+        const cached = await lookupCache(request).catch(() => null);
+        if (!cached) return null;
+        prepared.delete(job);
+        cacheHits++;
+        return revertAugmentation(cached, augmentation);
+      }
+    : undefined;
+
+  await runFrameQueue(jobs, runJob, {
+    lookup,
+    settings: settings.queue,
+    signal: settings.signal,
+    onDone: async (job, data) => {
+      if (requestsPerFrame === 1) return storeFrame(job.item.index, data);
+      const results = pending.get(job.item.index) ?? Array.from({ length: passCount }, () => []);
+      results[job.pass][Math.max(0, job.tile)] = data;
+      pending.set(job.item.index, results);
+      if (results.reduce((acc, r) => acc + r.filter(Boolean).length, 0) < requestsPerFrame) return;
+      pending.delete(job.item.index);
+      const { timestamp } = job.item.frame;
+      const passes = results.map(tiles => geometry.tiles
+        ? combineTileResults(tiles, geometry.tiles, geometry.sw, geometry.sh, timestamp)
+        : tiles[0]);
+      await storeFrame(job.item.index, passCount > 1 ? buildConsensus(passes, timestamp) : passes[0]);
+    },
+    onRateLimited: (waitMs) => onProgress(
+      percentage(),
+      `Rate limited by ${provider.name}; waiting ${Math.round(waitMs / 1000)} s before retrying...`
+    )
+  });
+};
+
+// Helper: Links the analysed frames and writes the report and summary
+const finishAnalysis = async (
+  frames: FrameData[],
+  provider: DetectionProvider,
+  onProgress: ProgressCallback,
+  context: { calibration?: AnalysisOptions['calibration']; video: VideoMetadata; samplingPlan: SamplingPlan; consensus: ConsensusSettings }
+) => {
+  const { calibration, video, samplingPlan, consensus } = context;
+
+  // 3. Post-process to link IDs
+  onProgress(85, "Tracking cell trajectories and calculating vectors...");
+  const linkedFrames = linkCellsAcrossFrames(frames);
+
+  // 4. Generate Scientific Report
+  onProgress(90, "Synthesizing final scientific report...");
+  const stats = buildReportStats(linkedFrames, provider.name, calibration, video, undefined, consensus);
+  const extendedReport = provider.generateReport
+    ? await provider.generateReport(stats)
+    : buildOfflineReport(stats);
+
+  // 5. Finalize
+  onProgress(98, "Finalizing data visualization...");
+  const counted = linkedFrames.filter(isUsableFrame);
+  const avgCount = counted.reduce((acc, f) => acc + f.cellCount, 0) / (counted.length || 1);
+  const allCells = linkedFrames.flatMap(f => f.cells);
+  const avgRadius = allCells.reduce((acc, c) => acc + c.r, 0) / (allCells.length || 1);
+  const duration = linkedFrames[linkedFrames.length - 1]?.timestamp || 0;
+  const failed = linkedFrames.length - counted.length;
+  const failedNote = failed > 0 ? ` ${failed} frame${failed === 1 ? '' : 's'} could not be analysed and ${failed === 1 ? 'is' : 'are'} excluded.` : '';
+  const passes = getPassCount(consensus);
+  const consensusNote = passes > 1 ? ` (consensus of ${passes} passes)` : '';
+  const summary = `Analysis complete. Processed ${linkedFrames.length} frames over ${formatTime(duration, calibration)}.${failedNote} Average cell count: ${avgCount.toFixed(1)}${consensusNote}. Mean cell radius: ${formatLength(avgRadius, calibration, video)}. Calibration: ${describeCalibration(calibration, video)}. Sampling: ${describeSamplingPlan(samplingPlan, linkedFrames.length)}.`;
+
+  return { frames: linkedFrames, summary, extendedReport };
+};
+
+export const analyzeMicroscopyVideo = async (
+  source: File | ImageSequence,
+  provider: DetectionProvider,
+  onProgress: (progress: number, message: string) => void,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { calibration, samplingPlan = DEFAULT_SAMPLING_PLAN, queue = LOCAL_QUEUE_SETTINGS, consensus = DEFAULT_CONSENSUS, signal } = options;
+  let checkpoint: AnalysisCheckpoint | null = null;
+
+  try {
+    // 1. Extract Frames
+    onProgress(5, isImageSequence(source) ? "Sampling the image sequence..." : "Initializing video processor...");
+    const { frames: rawFrames, video, changeProfile } = isImageSequence(source)
+      ? await extractSequenceFrames(source, samplingPlan, onProgress)
+      : await extractFrames(source, samplingPlan, onProgress);
+    
+    if (rawFrames.length === 0) {
+      throw new Error("No usable frames found in video.");
+    }
+    if (signal?.aborted) throw createAbortError();
+
+    onProgress(15, `Extracted ${rawFrames.length} frames. Preparing ${provider.name}...`);
+    
+    // 2. Analyze Frames through the queue, resuming from a checkpoint of an interrupted run.
+    // Failed frames in the checkpoint are attempted again.
+    checkpoint = options.checkpoint
+      ? await loadCheckpoint(options.checkpoint, rawFrames.map(f => f.timestamp))
+      : null;
+    const analyzed: (FrameData | null)[] = checkpoint ? checkpoint.frames : rawFrames.map(() => null);
+    const pending = rawFrames
+      .map((frame, index) => ({ index, frame }))
+      .filter(({ index }) => !analyzed[index] || !isUsableFrame(analyzed[index]!));
+    if (pending.length < rawFrames.length) {
+      onProgress(15, `Resuming: ${rawFrames.length - pending.length} of ${rawFrames.length} frames already analysed.`);
+    }
+    const activeCheckpoint = checkpoint;
+    const geometry = getSampleGeometry(samplingPlan, video.width, video.height);
+    await analyzeQueuedFrames(pending, analyzed, provider, { roi: samplingPlan.roi, geometry, queue, consensus, signal }, onProgress,
+      activeCheckpoint ? () => saveCheckpoint(activeCheckpoint) : undefined);
+
+    const finished = await finishAnalysis(analyzed as FrameData[], provider, onProgress, { calibration, video, samplingPlan, consensus });
+
+    if (checkpoint) await clearCheckpoint(checkpoint.key);
+    onProgress(100, "Analysis Complete!");
+
+    return {
+      ...finished,
+      video,
+      calibration,
+      samplingPlan,
+      changeProfile,
+      ...(getPassCount(consensus) > 1 ? { consensus } : {})
+    };
+  } catch (error) {
+    console.error("Deep analysis failed:", error);
+    // Tell the user the finished frames are kept, so starting again resumes
+    const saved = checkpoint ? countCheckpointFrames(checkpoint.frames) : 0;
+    const resumeHint = saved > 0 && saved < checkpoint!.frames.length
+      ? ` ${saved} of ${checkpoint!.frames.length} frames are saved; start the analysis again on the same footage to resume.`
+      : '';
+    throw new Error(getFriendlyErrorMessage(error) + resumeHint);
+  }
+};
+
+/**
+ * Re-analyses only the frames of a result whose detection failed or came back empty, then
+ * re-links all frames and rewrites the report. The failed timestamps are re-extracted from
+ * the footage with the result's sampling plan (size, quality and region of interest).
+ */
+export const retryFailedFrames = async (
+  source: File | ImageSequence,
+  result: AnalysisResult,
+  provider: DetectionProvider,
+  onProgress: ProgressCallback,
+  options: Pick<AnalysisOptions, 'queue' | 'signal'> = {}
+): Promise<AnalysisResult> => {
+  const { queue = LOCAL_QUEUE_SETTINGS, signal } = options;
+  const samplingPlan = result.samplingPlan ?? DEFAULT_SAMPLING_PLAN;
+  const consensus = result.consensus ?? DEFAULT_CONSENSUS;
+  const failedIndices = result.frames.map((_, i) => i).filter(i => !isUsableFrame(result.frames[i]));
+  if (failedIndices.length === 0) return result;
+  if (result.curation) throw new Error("This result has manual edits. Retrying frames re-links all tracks and would discard them.");
+
+  try {
+    onProgress(5, `Re-extracting ${failedIndices.length} failed frames...`);
+    const times = failedIndices.map(i => result.frames[i].timestamp);
+    const { frames: rawFrames, video } = isImageSequence(source)
+      ? await extractSequenceFrames(source, samplingPlan, onProgress, times)
+      : await extractFrames(source, samplingPlan, onProgress, times);
+    if (signal?.aborted) throw createAbortError();
+
+    // Work on copies: the shown result stays intact if the retry is cancelled
+    const frames: (FrameData | null)[] = result.frames.map(f => ({ ...f, events: [...f.events], cells: f.cells.map(c => ({ ...c })) }));
+    const items = rawFrames.map((frame, k) => ({ index: failedIndices[k], frame }));
+    const geometry = getSampleGeometry(samplingPlan, video.width, video.height);
+    await analyzeQueuedFrames(items, frames, provider, { roi: samplingPlan.roi, geometry, queue, consensus, signal }, onProgress);
+
+    const finished = await finishAnalysis(frames as FrameData[], provider, onProgress, {
+      calibration: result.calibration,
+      video: result.video ?? video,
+      samplingPlan,
+      consensus
+    });
+    onProgress(100, "Analysis Complete!");
+    return { ...result, ...finished };
+  } catch (error) {
+    console.error("Retrying failed frames failed:", error);
+    throw new Error(getFriendlyErrorMessage(error));
+  }
+};
@@ -0,0 +1,85 @@
+import { Calibration, VideoMetadata } from "../types";
+
+export const DEFAULT_CALIBRATION: Calibration = {
+  micronsPerPixel: null,
+  timeMode: 'perVideoSecond',
+  minutesPerVideoSecond: null,
+  frameIntervalMinutes: null,
+  videoFps: null,
+};
+
+/**
+ * Real acquisition seconds per second of video, or null if time is uncalibrated.
+ * 'perFrame' mode derives it from the acquisition interval and the video's playback frame rate.
+ */
+export const getRealSecondsPerVideoSecond = (calibration?: Calibration): number | null => {
+  if (!calibration) return null;
+  if (calibration.timeMode === 'perFrame') {
+    if (!calibration.frameIntervalMinutes || !calibration.videoFps) return null;
+    return calibration.frameIntervalMinutes * 60 * calibration.videoFps;
+  }
+  return calibration.minutesPerVideoSecond ? calibration.minutesPerVideoSecond * 60 : null;
+};
+
+export const isTimeCalibrated = (calibration?: Calibration): boolean => getRealSecondsPerVideoSecond(calibration) !== null;
+
+export const isSpaceCalibrated = (calibration?: Calibration, video?: VideoMetadata): boolean =>
+  !!calibration?.micronsPerPixel && !!video && video.width > 0;
+
+// Helper: Video seconds -> real hours (null if uncalibrated)
+export const toRealHours = (videoSeconds: number, calibration?: Calibration): number | null => {
+  const scale = getRealSecondsPerVideoSecond(calibration);
+  return scale === null ? null : (videoSeconds * scale) / 3600;
+};
+
+// Helper: Time axis value in display units (hours if calibrated, video seconds otherwise)
+export const toDisplayTime = (videoSeconds: number, calibration?: Calibration): number => {
+  return toRealHours(videoSeconds, calibration) ?? videoSeconds;
+};
+
+export const getTimeUnit = (calibration?: Calibration): string => isTimeCalibrated(calibration) ? 'h' : 's';
+
+// Helper: "3.25 h" when calibrated, "12.5s" (video time) otherwise. Works for instants and durations.
+export const formatTime = (videoSeconds: number, calibration?: Calibration): string => {
+  const hours = toRealHours(videoSeconds, calibration);
+  return hours === null ? `${videoSeconds.toFixed(1)}s` : `${hours.toFixed(2)} h`;
+};
+
+/**
+ * Converts a length given in % of frame width (the unit of x and r) to microns.
+ * Returns null if either the pixel size or the frame size is unknown.
+ */
+export const widthPercentToMicrons = (percent: number, calibration?: Calibration, video?: VideoMetadata): number | null => {
+  if (!isSpaceCalibrated(calibration, video)) return null;
+  return (percent / 100) * video!.width * calibration!.micronsPerPixel!;
+};
+
+/**
+ * Euclidean distance between two points in % coordinates, in microns.
+ * x is % of frame width and y is % of frame height, so both axes are scaled separately.
+ */
+export const distanceToMicrons = (dxPercent: number, dyPercent: number, calibration?: Calibration, video?: VideoMetadata): number | null => {
+  if (!isSpaceCalibrated(calibration, video)) return null;
+  const dx = (dxPercent / 100) * video!.width * calibration!.micronsPerPixel!;
+  const dy = (dyPercent / 100) * video!.height * calibration!.micronsPerPixel!;
+  return Math.hypot(dx, dy);
+};
+
+// Helper: "12.4 µm" when calibrated, "3.1% width" otherwise
+export const formatLength = (widthPercent: number, calibration?: Calibration, video?: VideoMetadata): string => {
+  const microns = widthPercentToMicrons(widthPercent, calibration, video);
+  return microns === null ? `${widthPercent.toFixed(1)}% width` : `${microns.toFixed(1)} µm`;
+};
+
+// Helper: One-line description of the calibration for summaries and report methods
+export const describeCalibration = (calibration?: Calibration, video?: VideoMetadata): string => {
+  const parts: string[] = [];
+  if (isSpaceCalibrated(calibration, video)) parts.push(`${calibration!.micronsPerPixel} µm/pixel`);
+  const scale = getRealSecondsPerVideoSecond(calibration);
+  if (scale !== null) {
+    parts.push(calibration!.timeMode === 'perFrame'
+      ? `${calibration!.frameIntervalMinutes} min/frame at ${calibration!.videoFps} fps`
+      : `${calibration!.minutesPerVideoSecond} min of culture per video second`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'uncalibrated (frame % and video seconds)';
+};
@@ -0,0 +1,81 @@
+import { AnalysisCheckpoint, CheckpointTarget, ClassicalDetectorParams, ConsensusSettings, DetectorId, FrameData, ImageSequence, SamplingPlan } from "../types";
+import { deleteRecord, getRecord, putRecord } from "./storageService";
+import { fingerprintVideo } from "./projectService";
+import { isUsableFrame } from "./frameStatusService";
+import { getPassCount } from "./consensusService";
+
+/**
+ * Identifies a run for checkpointing. The key holds one checkpoint per footage and detector, so
+ * a new run on the same footage replaces a stale checkpoint instead of piling up records.
+ * The signature covers the settings that change which frames are sent or what is detected in them.
+ * Checkpointing is best effort: when the footage cannot be fingerprinted the run goes without one (null).
+ */
+export const getCheckpointTarget = async (
+  source: File | ImageSequence,
+  detectorId: DetectorId,
+  plan: SamplingPlan,
+  classicalParams?: ClassicalDetectorParams,
+  consensus?: ConsensusSettings
+): Promise<CheckpointTarget | null> => {
+  let fingerprint: string;
+  try {
+    ({ fingerprint } = await fingerprintVideo(source));
+  } catch (err) {
+    console.warn("Running without a checkpoint:", err);
+    return null;
+  }
+  return {
+    key: `${fingerprint}:${detectorId}`,
+    signature: JSON.stringify({
+      plan,
+      classicalParams: detectorId === 'classical' ? classicalParams : null,
+      passes: getPassCount(consensus),
+      variation: getPassCount(consensus) > 1 ? consensus!.variation : null
+    })
+  };
+};
+
+// Helper: Same sampled frames, compared with a tolerance for float noise in seek times
+const sameTimestamps = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((t, i) => Math.abs(t - b[i]) < 1e-6);
+
+/**
+ * Checkpoint to continue from: the saved one when it was made with the same settings and
+ * sampled the same frames, otherwise an empty one. Storage errors also yield an empty one.
+ */
+export const loadCheckpoint = async (target: CheckpointTarget, timestamps: number[]): Promise<AnalysisCheckpoint> => {
+  const empty: AnalysisCheckpoint = {
+    ...target,
+    savedAt: new Date().toISOString(),
+    timestamps,
+    frames: timestamps.map(() => null)
+  };
+  try {
+    const saved = await getRecord<AnalysisCheckpoint>('checkpoints', target.key);
+    if (saved && saved.signature === target.signature && sameTimestamps(saved.timestamps, timestamps)) return saved;
+  } catch (err) {
+    console.warn("Could not read the analysis checkpoint:", err);
+  }
+  return empty;
+};
+
+// Best effort: a full or unavailable IndexedDB only costs the ability to resume
+export const saveCheckpoint = async (checkpoint: AnalysisCheckpoint): Promise<void> => {
+  try {
+    await putRecord('checkpoints', checkpoint.key, { ...checkpoint, savedAt: new Date().toISOString() });
+  } catch (err) {
+    console.warn("Could not save the analysis checkpoint:", err);
+  }
+};
+
+export const clearCheckpoint = async (key: string): Promise<void> => {
+  try {
+    await deleteRecord('checkpoints', key);
+  } catch (err) {
+    console.warn("Could not remove the analysis checkpoint:", err);
+  }
+};
+
+// Frames of a checkpoint that already have detections (failed ones are attempted again on resume)
+export const countCheckpointFrames = (frames: (FrameData | null)[]): number =>
+  frames.reduce((acc, f) => acc + (f && isUsableFrame(f) ? 1 : 0), 0);
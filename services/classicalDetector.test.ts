@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { Cell } from "../types";
+import { DEFAULT_CLASSICAL_PARAMS, detectCellsClassically, GrayImage } from "./classicalDetector";
+
+const SIZE = 200;
+
+// Helper: A synthetic frame with filled disks (positions and radii in px)
+const drawDisks = (disks: { x: number; y: number; r: number }[], background: number, foreground: number): GrayImage => {
+  const data = new Float32Array(SIZE * SIZE).fill(background);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if (disks.some(d => Math.hypot(x - d.x, y - d.y) <= d.r)) data[y * SIZE + x] = foreground;
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+};
+
+// Helper: The detection nearest to a disk, in px
+const nearest = (cells: Cell[], x: number, y: number) => cells
+  .map(c => ({ cell: c, dist: Math.hypot((c.x / 100) * SIZE - x, (c.y / 100) * SIZE - y) }))
+  .sort((a, b) => a.dist - b.dist)[0];
+
+const DISKS = [{ x: 40, y: 50, r: 8 }, { x: 120, y: 60, r: 10 }, { x: 80, y: 150, r: 7 }];
+
+describe("detectCellsClassically", () => {
+  it("finds bright cells on a dark background with their size", () => {
+    const cells = detectCellsClassically(drawDisks(DISKS, 20, 200), DEFAULT_CLASSICAL_PARAMS);
+
+    expect(cells).toHaveLength(DISKS.length);
+    DISKS.forEach(disk => {
+      const match = nearest(cells, disk.x, disk.y);
+      expect(match.dist).toBeLessThan(1.5);
+      expect((match.cell.r / 100) * SIZE).toBeGreaterThan(disk.r * 0.7);
+      expect((match.cell.r / 100) * SIZE).toBeLessThan(disk.r * 1.3);
+    });
+  });
+
+  it("finds dark cells on a bright background with automatic polarity", () => {
+    const cells = detectCellsClassically(drawDisks(DISKS, 220, 60), DEFAULT_CLASSICAL_PARAMS);
+
+    expect(cells).toHaveLength(DISKS.length);
+    DISKS.forEach(disk => expect(nearest(cells, disk.x, disk.y).dist).toBeLessThan(1.5));
+  });
+
+  it("splits two touching cells", () => {
+    const cells = detectCellsClassically(drawDisks([{ x: 90, y: 100, r: 9 }, { x: 107, y: 100, r: 9 }], 20, 200), DEFAULT_CLASSICAL_PARAMS);
+
+    expect(cells).toHaveLength(2);
+    expect(nearest(cells, 90, 100).dist).toBeLessThan(3);
+    expect(nearest(cells, 107, 100).dist).toBeLessThan(3);
+  });
+
+  it("ignores specks below the minimum radius", () => {
+    const cells = detectCellsClassically(drawDisks([{ x: 60, y: 60, r: 8 }, { x: 150, y: 150, r: 0.5 }], 20, 200), { ...DEFAULT_CLASSICAL_PARAMS, minRadius: 2 });
+
+    expect(cells).toHaveLength(1);
+    expect(nearest(cells, 60, 60).dist).toBeLessThan(1.5);
+  });
+
+  it("finds nothing in an empty frame", () => {
+    expect(detectCellsClassically(drawDisks([], 100, 100), DEFAULT_CLASSICAL_PARAMS)).toEqual([]);
+  });
+});
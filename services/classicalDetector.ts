@@ -0,0 +1,366 @@
+import { Cell, ClassicalDetectorParams, DetectionProvider, ExtractedFrame, FrameData } from "../types";
+
+export const DEFAULT_CLASSICAL_PARAMS: ClassicalDetectorParams = {
+  minRadius: 1,
+  maxRadius: 8,
+  threshold: null,
+  polarity: 'auto',
+};
+
+// Work on a reduced copy of the frame: blob detection does not need more and stays interactive
+const MAX_PROCESSING_DIM = 512;
+// Components up to this factor above maxRadius are still accepted as one (slightly irregular) cell
+const SINGLE_CELL_TOLERANCE = 1.3;
+// Components more elongated than this (major/minor axis) are tried as touching cells
+const MAX_SINGLE_CELL_ASPECT = 1.6;
+// Number of LoG scales sampled between minRadius and maxRadius
+const LOG_SCALES = 5;
+// LoG maxima weaker than this fraction of the strongest response in the component are ignored
+const LOG_PEAK_FRACTION = 0.25;
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Helper: Decode the JPEG payload into a downscaled grayscale image
+const decodeFrame = async (frame: ExtractedFrame): Promise<GrayImage> => {
+  const blob = await (await fetch(`data:image/jpeg;base64,${frame.base64}`)).blob();
+  const bitmap = await createImageBitmap(blob);
+
+  const scale = Math.min(1, MAX_PROCESSING_DIM / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable for classical detection.");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, width, height };
+};
+
+// Helper: Mean filter with a square window, via an integral image (O(1) per pixel)
+const boxBlur = (img: GrayImage, radius: number): Float32Array => {
+  const { data, width, height } = img;
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      out[y * width + x] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return out;
+};
+
+// Helper: Separable Gaussian blur
+const gaussianBlur = (img: GrayImage, sigma: number): Float32Array => {
+  const { data, width, height } = img;
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let kernelSum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernelSum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= kernelSum;
+
+  const temp = new Float32Array(width * height);
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const xx = Math.min(width - 1, Math.max(0, x + k));
+        acc += data[y * width + xx] * kernel[k + radius];
+      }
+      temp[y * width + x] = acc;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const yy = Math.min(height - 1, Math.max(0, y + k));
+        acc += temp[yy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+  return out;
+};
+
+// Helper: Otsu's threshold on values already scaled to 0-255
+const otsuThreshold = (values: Float32Array): number => {
+  const histogram = new Array(256).fill(0);
+  values.forEach(v => histogram[Math.min(255, Math.max(0, Math.round(v)))]++);
+
+  const total = values.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestThreshold = 128;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * Math.pow(meanBackground - meanForeground, 2);
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestThreshold = t;
+    }
+  }
+  return bestThreshold;
+};
+
+/**
+ * Background-flattens the image and rescales it to 0-255 with cells bright.
+ * 'auto' polarity assumes cells are the minority: a long bright tail (positive skew)
+ * means bright cells on a dark background (fluorescence), otherwise dark cells (brightfield).
+ */
+const normaliseForeground = (img: GrayImage, params: ClassicalDetectorParams, maxRadiusPx: number): Float32Array => {
+  const background = boxBlur(img, Math.max(3, Math.round(maxRadiusPx * 2)));
+  const flat = new Float32Array(img.data.length);
+  for (let i = 0; i < flat.length; i++) flat[i] = img.data[i] - background[i];
+
+  let bright = params.polarity === 'bright';
+  if (params.polarity === 'auto') {
+    const mean = flat.reduce((acc, v) => acc + v, 0) / flat.length;
+    const skew = flat.reduce((acc, v) => acc + Math.pow(v - mean, 3), 0);
+    bright = skew >= 0;
+  }
+  if (!bright) for (let i = 0; i < flat.length; i++) flat[i] = -flat[i];
+
+  let min = Infinity;
+  let max = -Infinity;
+  flat.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+  const range = max - min || 1;
+  for (let i = 0; i < flat.length; i++) flat[i] = ((flat[i] - min) / range) * 255;
+  return flat;
+};
+
+// Helper: 8-connected component labelling of a binary mask. Returns pixel index lists.
+const connectedComponents = (mask: Uint8Array, width: number, height: number): number[][] => {
+  const labels = new Int32Array(mask.length).fill(-1);
+  const components: number[][] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start] !== -1) continue;
+    const pixels: number[] = [];
+    labels[start] = components.length;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      pixels.push(p);
+      const px = p % width;
+      const py = (p - px) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = px + dx;
+          const ny = py + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n] && labels[n] === -1) {
+            labels[n] = components.length;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    components.push(pixels);
+  }
+  return components;
+};
+
+/**
+ * Splits a merged component into individual cells using scale-normalised
+ * Laplacian-of-Gaussian blob detection restricted to the component's pixels.
+ * Scales wider than the component's minor semi-axis are skipped, otherwise
+ * two touching cells respond more strongly as one large blob.
+ */
+const splitWithLoG = (
+  pixels: number[],
+  allResponses: { radius: number; data: Float32Array }[],
+  width: number,
+  maxBlobRadius: number
+): { x: number; y: number; r: number }[] => {
+  const inComponent = new Set(pixels);
+  const fitting = allResponses.filter(r => r.radius <= maxBlobRadius * 1.1);
+  const responses = fitting.length > 0 ? fitting : allResponses.slice(0, 1);
+  const candidates: { x: number; y: number; r: number; score: number }[] = [];
+
+  responses.forEach(({ radius, data }, s) => {
+    pixels.forEach(p => {
+      const value = data[p];
+      if (value <= 0) return;
+      const px = p % width;
+      const py = (p - px) / width;
+      // Local maximum in space (3x3) and across neighbouring scales
+      for (let ds = -1; ds <= 1; ds++) {
+        const layer = responses[s + ds];
+        if (!layer) continue;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (ds === 0 && dx === 0 && dy === 0) continue;
+            const n = (py + dy) * width + (px + dx);
+            if (!inComponent.has(n)) continue;
+            if (layer.data[n] > value) return;
+          }
+        }
+      }
+      candidates.push({ x: px, y: py, r: radius, score: value });
+    });
+  });
+
+  if (candidates.length === 0) return [];
+  const strongest = Math.max(...candidates.map(c => c.score));
+
+  // Non-maximum suppression: keep the strongest blob, drop those whose centre falls inside it
+  const kept: typeof candidates = [];
+  candidates
+    .filter(c => c.score >= strongest * LOG_PEAK_FRACTION)
+    .sort((a, b) => b.score - a.score)
+    .forEach(c => {
+      if (kept.every(k => Math.hypot(k.x - c.x, k.y - c.y) > Math.max(k.r, c.r) * 0.8)) kept.push(c);
+    });
+  return kept;
+};
+
+/**
+ * Classical blob detector: background flattening, global (Otsu or manual) threshold,
+ * connected components, and LoG splitting of components too large for one cell.
+ */
+export const detectCellsClassically = (img: GrayImage, params: ClassicalDetectorParams): Cell[] => {
+  const { width, height } = img;
+  const minRadiusPx = Math.max(1, (params.minRadius / 100) * width);
+  const maxRadiusPx = Math.max(minRadiusPx + 1, (params.maxRadius / 100) * width);
+
+  const smoothed = gaussianBlur({ ...img, data: normaliseForeground(img, params, maxRadiusPx) }, 1);
+  const threshold = params.threshold ?? otsuThreshold(smoothed);
+
+  const mask = new Uint8Array(smoothed.length);
+  for (let i = 0; i < smoothed.length; i++) mask[i] = smoothed[i] > threshold ? 1 : 0;
+
+  const minArea = Math.PI * minRadiusPx * minRadiusPx * 0.5;
+  const components = connectedComponents(mask, width, height).filter(c => c.length >= minArea);
+
+  // LoG responses are only computed if some component is too large for a single cell
+  let responses: { radius: number; data: Float32Array }[] | null = null;
+  const getResponses = () => {
+    if (responses) return responses;
+    responses = [];
+    for (let s = 0; s < LOG_SCALES; s++) {
+      const radius = minRadiusPx + (maxRadiusPx - minRadiusPx) * (s / (LOG_SCALES - 1));
+      const sigma = radius / Math.SQRT2;
+      const blurred = gaussianBlur({ ...img, data: smoothed }, sigma);
+      const log = new Float32Array(blurred.length);
+      for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+          const i = y * width + x;
+          const laplacian = blurred[i - 1] + blurred[i + 1] + blurred[i - width] + blurred[i + width] - 4 * blurred[i];
+          // Negated and scale-normalised: bright blobs give positive peaks comparable across scales
+          log[i] = -laplacian * sigma * sigma;
+        }
+      }
+      responses.push({ radius, data: log });
+    }
+    return responses;
+  };
+
+  const blobs: { x: number; y: number; r: number }[] = [];
+  components.forEach(pixels => {
+    const equivalentRadius = Math.sqrt(pixels.length / Math.PI);
+
+    // Centroid and second moments give the elongation of the component
+    let sx = 0;
+    let sy = 0;
+    pixels.forEach(p => { sx += p % width; sy += Math.floor(p / width); });
+    const cx = sx / pixels.length;
+    const cy = sy / pixels.length;
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    pixels.forEach(p => {
+      const dx = (p % width) - cx;
+      const dy = Math.floor(p / width) - cy;
+      sxx += dx * dx;
+      syy += dy * dy;
+      sxy += dx * dy;
+    });
+    const trace = (sxx + syy) / pixels.length;
+    const det = (sxx * syy - sxy * sxy) / (pixels.length * pixels.length);
+    const root = Math.sqrt(Math.max(0, trace * trace / 4 - det));
+    const minorVariance = Math.max(trace / 2 - root, 1e-6);
+    const aspect = Math.sqrt((trace / 2 + root) / minorVariance);
+    // A filled disk of radius R has variance R²/4 along every axis
+    const minorSemiAxis = 2 * Math.sqrt(minorVariance);
+
+    const tooLarge = equivalentRadius > maxRadiusPx * SINGLE_CELL_TOLERANCE;
+    if (tooLarge || aspect > MAX_SINGLE_CELL_ASPECT) {
+      const split = splitWithLoG(pixels, getResponses(), width, minorSemiAxis);
+      // An elongated but single cell stays whole if LoG finds no second blob
+      if (split.length > 1 || (tooLarge && split.length > 0)) {
+        blobs.push(...split);
+        return;
+      }
+    }
+    blobs.push({ x: cx, y: cy, r: equivalentRadius });
+  });
+
+  return blobs
+    .filter(b => b.r >= minRadiusPx * 0.75)
+    .map((b, index) => ({
+      id: index + 1, // Temporary ID, will be overwritten by tracker
+      x: ((b.x + 0.5) / width) * 100,
+      y: ((b.y + 0.5) / height) * 100,
+      r: (Math.min(b.r, maxRadiusPx) / width) * 100,
+      status: 'Normal',
+      history: []
+    }));
+};
+
+/**
+ * Detection provider running the classical blob detector fully in the browser.
+ * No network, no key; reports shape only (every cell is 'Normal', no events).
+ */
+export const createClassicalProvider = (params: ClassicalDetectorParams = DEFAULT_CLASSICAL_PARAMS): DetectionProvider => ({
+  id: 'classical',
+  name: 'classical blob detector (threshold + LoG)',
+  analyzeFrame: async (frame: ExtractedFrame): Promise<FrameData> => {
+    const img = await decodeFrame(frame);
+    const cells = detectCellsClassically(img, params);
+    return { timestamp: frame.timestamp, cellCount: cells.length, cells, events: [] };
+  }
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Cell, FrameData } from "../types";
+import { buildConsensus } from "./consensusService";
+
+// Helper: The detections of one pass
+const pass = (cells: Partial<Cell>[]): FrameData => ({
+  timestamp: 0,
+  cellCount: cells.length,
+  cells: cells.map((c, i) => ({ id: i + 1, x: 50, y: 50, r: 3, status: 'Normal', ...c })),
+  events: []
+});
+
+const failedPass = (error: string): FrameData => ({ timestamp: 0, cellCount: 0, cells: [], events: [], analysisStatus: 'failed', analysisError: error });
+
+describe("buildConsensus", () => {
+  it("averages the cells found by most passes and drops the rest", () => {
+    const passes = [
+      pass([{ x: 30, y: 30 }, { x: 70, y: 70, status: 'Dividing' }]),
+      pass([{ x: 71, y: 70, status: 'Dividing' }, { x: 31, y: 30, status: 'Rounding' }]),
+      pass([{ x: 32, y: 30 }, { x: 10, y: 90 }])
+    ];
+    const consensus = buildConsensus(passes, 3);
+
+    expect(consensus.timestamp).toBe(3);
+    expect(consensus.analysisStatus).toBe('ok');
+    expect(consensus.passCounts).toEqual([2, 2, 2]);
+    expect(consensus.cellCount).toBe(2);
+
+    const left = consensus.cells.find(c => c.x < 50)!;
+    expect(left.x).toBeCloseTo(31);
+    expect(left.status).toBe('Normal');
+    expect(left.confidence).toBe(1);
+
+    const right = consensus.cells.find(c => c.x > 50)!;
+    expect(right.x).toBeCloseTo(70.5);
+    expect(right.status).toBe('Dividing');
+    expect(right.confidence).toBeCloseTo(2 / 3);
+  });
+
+  it("matches detections to cells by position, not by their order in the pass", () => {
+    const passes = [
+      pass([{ x: 40, y: 50 }, { x: 46, y: 50 }]),
+      pass([{ x: 46.5, y: 50 }, { x: 40.5, y: 50 }])
+    ];
+    const consensus = buildConsensus(passes, 0);
+
+    expect(consensus.cells.map(c => c.x).sort((a, b) => a - b)).toEqual([40.25, 46.25]);
+  });
+
+  it("ignores a failed minority of passes", () => {
+    const consensus = buildConsensus([pass([{ x: 20 }]), failedPass('timeout'), pass([{ x: 21 }])], 0);
+
+    expect(consensus.analysisStatus).toBe('ok');
+    expect(consensus.cells).toHaveLength(1);
+    expect(consensus.cells[0].confidence).toBe(1);
+  });
+
+  it("fails the frame when most passes failed", () => {
+    const consensus = buildConsensus([pass([{}]), failedPass('timeout'), failedPass('timeout')], 5);
+
+    expect(consensus.analysisStatus).toBe('failed');
+    expect(consensus.timestamp).toBe(5);
+    expect(consensus.analysisError).toBe('2 of 3 passes failed: timeout');
+  });
+});
@@ -0,0 +1,175 @@
+import { Cell, ConsensusSettings, FrameData, FrameWarning } from "../types";
+import { isUsableFrame, createUnusableFrame } from "./frameStatusService";
+import { solveAssignment } from "./trackingService";
+import { loadImage } from "./imageSequenceService";
+import { mapEventLocations, mergeEvents } from "./eventService";
+
+// Single pass: consensus mode is off
+export const DEFAULT_CONSENSUS: ConsensusSettings = { passes: 1, variation: 'both' };
+// Every pass is a full detection request, so the multiplier on cost and quota is capped
+export const MAX_CONSENSUS_PASSES = 5;
+// Detections of two passes whose centres are closer than this fraction of the larger radius are one cell
+const MATCH_DISTANCE_FACTOR = 1;
+// Clusters found by fewer than this share of the passes are dropped as spurious
+const MIN_AGREEMENT = 0.5;
+// Cost of leaving a cluster without a detection in a pass (matched costs are distance / gate, 0-1)
+const UNMATCHED_COST = 1;
+const BLOCKED = 1e6;
+// Re-encoding quality of augmented images; high, so the flip is the only difference
+const AUGMENT_QUALITY = 0.92;
+
+// Image transforms that keep the content intact; each is its own inverse
+export type Augmentation = 'none' | 'flip-x' | 'flip-y' | 'rotate-180';
+const AUGMENTATIONS: Augmentation[] = ['none', 'flip-x', 'flip-y', 'rotate-180'];
+
+// Helper: Number of passes actually run for the settings
+export const getPassCount = (settings?: ConsensusSettings): number =>
+  Math.min(MAX_CONSENSUS_PASSES, Math.max(1, Math.round(settings?.passes ?? 1)));
+
+/**
+ * What pass `pass` changes: the prompt wording (variant index) and/or the image transform.
+ * Pass 0 is always the plain request, so a single pass matches a normal run.
+ */
+export const getPassVariation = (settings: ConsensusSettings, pass: number): { promptVariant: number; augmentation: Augmentation } => ({
+  promptVariant: settings.variation === 'augment' ? 0 : pass,
+  augmentation: settings.variation === 'prompt' ? 'none' : AUGMENTATIONS[pass % AUGMENTATIONS.length]
+});
+
+/**
+ * Applies an augmentation to a JPEG payload and returns the new payload.
+ */
+export const augmentImage = async (base64: string, augmentation: Augmentation): Promise<string> => {
+  if (augmentation === 'none') return base64;
+  const image = await loadImage(`data:image/jpeg;base64,${base64}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  const flipX = augmentation === 'flip-x' || augmentation === 'rotate-180';
+  const flipY = augmentation === 'flip-y' || augmentation === 'rotate-180';
+  ctx.setTransform(flipX ? -1 : 1, 0, 0, flipY ? -1 : 1, flipX ? canvas.width : 0, flipY ? canvas.height : 0);
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/jpeg', AUGMENT_QUALITY).split(',')[1];
+};
+
+// Maps detections made on an augmented image back to the original orientation
+export const revertAugmentation = (frame: FrameData, augmentation: Augmentation): FrameData => {
+  if (augmentation === 'none' || !isUsableFrame(frame)) return frame;
+  const flipX = augmentation === 'flip-x' || augmentation === 'rotate-180';
+  const flipY = augmentation === 'flip-y' || augmentation === 'rotate-180';
+  return {
+    ...frame,
+    cells: frame.cells.map(cell => ({
+      ...cell,
+      x: flipX ? 100 - cell.x : cell.x,
+      y: flipY ? 100 - cell.y : cell.y
+    })),
+    events: mapEventLocations(frame.events, (x, y) => ({ x: flipX ? 100 - x : x, y: flipY ? 100 - y : y }))
+  };
+};
+
+interface Cluster {
+  members: Cell[];
+  x: number; // Running mean of the members
+  y: number;
+  r: number;
+}
+
+// Helper: Most frequent status of a cluster; ties go to the earlier pass
+const majorityStatus = (members: Cell[]): string => {
+  const counts = new Map<string, number>();
+  members.forEach(m => counts.set(m.status, (counts.get(m.status) ?? 0) + 1));
+  let best = members[0].status;
+  counts.forEach((n, status) => { if (n > (counts.get(best) ?? 0)) best = status; });
+  return best;
+};
+
+/**
+ * Clusters the detections of several passes over one frame into consensus cells. Each pass is
+ * matched to the clusters so far with the assignment solver (one detection per cluster and pass,
+ * gated at one radius); unmatched detections open new clusters. A cell's position and radius are
+ * the mean of its cluster, its status the majority, and its confidence the share of successful
+ * passes that found it. Clusters below MIN_AGREEMENT are dropped. When fewer than half of the
+ * passes succeeded the frame counts as failed, as there is no consensus to speak of.
+ */
+export const buildConsensus = (passes: FrameData[], timestamp: number): FrameData => {
+  const usable = passes.filter(isUsableFrame);
+  if (usable.length * 2 < passes.length || usable.length === 0) {
+    const reason = passes.find(p => !isUsableFrame(p))?.analysisError ?? 'no detections returned';
+    return createUnusableFrame(timestamp, 'failed', `${passes.length - usable.length} of ${passes.length} passes failed: ${reason}`);
+  }
+
+  const clusters: Cluster[] = [];
+  usable.forEach(pass => {
+    const n = clusters.length;
+    const m = pass.cells.length;
+    if (n > 0 && m > 0) {
+      // Columns: the pass's detections, then one "not found in this pass" column per cluster
+      const cost = clusters.map((cluster, row) => [
+        ...pass.cells.map(cell => {
+          const gate = MATCH_DISTANCE_FACTOR * Math.max(cluster.r, cell.r);
+          const dist = Math.hypot(cluster.x - cell.x, cluster.y - cell.y);
+          return dist <= gate ? dist / gate : BLOCKED;
+        }),
+        ...clusters.map((_, k) => (k === row ? UNMATCHED_COST : BLOCKED))
+      ]);
+      const assignment = solveAssignment(cost);
+      const used = new Set<number>();
+      assignment.forEach((col, row) => {
+        if (col < 0 || col >= m || cost[row][col] >= BLOCKED) return;
+        const cluster = clusters[row];
+        const cell = pass.cells[col];
+        cluster.members.push(cell);
+        const k = cluster.members.length;
+        cluster.x += (cell.x - cluster.x) / k;
+        cluster.y += (cell.y - cluster.y) / k;
+        cluster.r += (cell.r - cluster.r) / k;
+        used.add(col);
+      });
+      pass.cells.forEach((cell, col) => {
+        if (!used.has(col)) clusters.push({ members: [cell], x: cell.x, y: cell.y, r: cell.r });
+      });
+    } else {
+      pass.cells.forEach(cell => clusters.push({ members: [cell], x: cell.x, y: cell.y, r: cell.r }));
+    }
+  });
+
+  const cells: Cell[] = clusters
+    .map(cluster => ({ cluster, confidence: cluster.members.length / usable.length }))
+    .filter(({ confidence }) => confidence >= MIN_AGREEMENT)
+    .map(({ cluster, confidence }, i) => ({
+      ...cluster.members[0],
+      id: i + 1, // Placeholder, the tracker assigns the real IDs
+      x: cluster.x,
+      y: cluster.y,
+      r: cluster.r,
+      status: majorityStatus(cluster.members),
+      confidence
+    }));
+
+  const events = mergeEvents(usable.map(p => p.events));
+  const warnings: FrameWarning[] = passes.flatMap((p, k) =>
+    (p.warnings ?? []).map(w => ({ ...w, message: `Pass ${k + 1}: ${w.message}` }))
+  );
+
+  return {
+    timestamp,
+    cellCount: cells.length,
+    cells,
+    events,
+    analysisStatus: 'ok',
+    passCounts: usable.map(p => p.cellCount),
+    ...(warnings.length > 0 ? { warnings } : {})
+  };
+};
+
+// Helper: One sentence for the report methods, empty when consensus mode was off
+export const describeConsensus = (settings: ConsensusSettings | undefined, frames: FrameData[]): string => {
+  const passes = getPassCount(settings);
+  if (passes <= 1) return '';
+  const confidences = frames.flatMap(f => f.cells.map(c => c.confidence ?? 1));
+  const mean = confidences.reduce((acc, c) => acc + c, 0) / (confidences.length || 1);
+  const varied = settings!.variation === 'prompt' ? 'prompt wording' : settings!.variation === 'augment' ? 'image flips and rotation' : 'prompt wording and image flips/rotation';
+  return `Each frame was detected in ${passes} passes varying the ${varied}; detections were clustered across passes, cells found by fewer than ${Math.round(MIN_AGREEMENT * 100)}% of passes were discarded, and the mean per-cell agreement was ${(mean * 100).toFixed(0)}%.`;
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { Cell, CurationHistory, FrameData } from "../types";
+import { applyCurationEdit, replayCuration } from "./curationService";
+import { linkCellsAcrossFrames } from "./trackingService";
+
+// Helper: A detected frame; IDs are placeholders until the tracker assigns them
+const frame = (timestamp: number, cells: Partial<Cell>[]): FrameData => ({
+  timestamp,
+  cellCount: cells.length,
+  cells: cells.map(c => ({ id: 0, x: 50, y: 50, r: 3, status: 'Normal', ...c })),
+  events: []
+});
+
+// Two cells drifting right over four frames: track 1 at the top, track 2 at the bottom
+const twoTracks = (): FrameData[] => linkCellsAcrossFrames([0, 1, 2, 3].map(t => frame(t, [{ x: 20 + t, y: 30 }, { x: 20 + t, y: 70 }])));
+
+// Helper: Track IDs present in a frame, sorted
+const idsIn = (f: FrameData) => f.cells.map(c => c.id).sort((a, b) => a - b);
+
+describe("applyCurationEdit", () => {
+  it("adds a cell to the track it continues and refreshes the counts", () => {
+    const frames = twoTracks();
+    frames[2].cells = frames[2].cells.filter(c => c.id !== 1);
+    applyCurationEdit(frames, { type: 'add', frameIndex: 2, x: 22, y: 30, r: 3 });
+
+    expect(idsIn(frames[2])).toEqual([1, 2]);
+    expect(frames[2].cellCount).toBe(2);
+    expect(frames[3].cells.find(c => c.id === 1)?.gap).toBe(0);
+  });
+
+  it("starts a new track for a cell added away from every track", () => {
+    const frames = twoTracks();
+    applyCurationEdit(frames, { type: 'add', frameIndex: 1, x: 80, y: 50, r: 3 });
+
+    expect(idsIn(frames[1])).toEqual([1, 2, 3]);
+  });
+
+  it("deletes, moves and sets the status of single detections", () => {
+    const frames = twoTracks();
+    applyCurationEdit(frames, { type: 'delete', frameIndex: 1, cellId: 2 });
+    applyCurationEdit(frames, { type: 'move', frameIndex: 0, cellId: 1, x: 25, y: 35, r: 4 });
+    applyCurationEdit(frames, { type: 'status', frameIndex: 3, cellId: 1, status: '  ' });
+
+    expect(idsIn(frames[1])).toEqual([1]);
+    expect(frames[2].cells.find(c => c.id === 2)?.gap).toBe(1);
+    expect(frames[0].cells.find(c => c.id === 1)).toMatchObject({ x: 25, y: 35, r: 4 });
+    expect(frames[3].cells.find(c => c.id === 1)?.status).toBe('Normal');
+  });
+
+  it("throws for a cell that is not in the frame", () => {
+    expect(() => applyCurationEdit(twoTracks(), { type: 'delete', frameIndex: 0, cellId: 9 })).toThrow('Cell #9 is not in frame 1.');
+  });
+
+  it("merges tracks that never share a frame", () => {
+    const frames = twoTracks();
+    // Track 2 is lost after frame 1; a new track picks up its cell later
+    frames[2].cells = frames[2].cells.filter(c => c.id !== 2);
+    frames[3].cells.find(c => c.id === 2)!.id = 3;
+    applyCurationEdit(frames, { type: 'relabel', trackId: 3, newId: 2 });
+
+    expect(frames.flatMap(f => f.cells).some(c => c.id === 3)).toBe(false);
+    expect(frames[3].cells.find(c => c.y === 70)).toMatchObject({ id: 2, gap: 1 });
+  });
+
+  it("refuses to merge tracks present in the same frame", () => {
+    expect(() => applyCurationEdit(twoTracks(), { type: 'relabel', trackId: 2, newId: 1 }))
+      .toThrow('Tracks #2 and #1 are both present in frame 1 and cannot be merged.');
+  });
+
+  it("refuses to merge a daughter into its mother, and a mother into its daughter", () => {
+    // A mother divides, and her right daughter divides again
+    const frames = linkCellsAcrossFrames([
+      frame(0, [{ x: 50, y: 50 }]),
+      frame(1, [{ x: 50, y: 50, status: 'Dividing' }]),
+      frame(2, [{ x: 44, y: 50, r: 2 }, { x: 56, y: 50, r: 2 }]),
+      frame(3, [{ x: 44, y: 50, r: 2 }, { x: 56, y: 50, r: 2, status: 'Dividing' }]),
+      frame(4, [{ x: 44, y: 50, r: 2 }, { x: 53, y: 50, r: 1.5 }, { x: 59, y: 50, r: 1.5 }])
+    ]);
+    const mother = frames[0].cells[0].id;
+    const daughter = frames[2].cells.find(c => c.x > 50)!.id;
+    const granddaughter = frames[4].cells.find(c => c.x > 55)!.id;
+    expect(frames[4].cells.find(c => c.id === granddaughter)?.parentId).toBe(daughter);
+
+    expect(() => applyCurationEdit(frames, { type: 'relabel', trackId: daughter, newId: mother })).toThrow(/mother and daughter/);
+    expect(() => applyCurationEdit(frames, { type: 'relabel', trackId: mother, newId: daughter })).toThrow(/mother and daughter/);
+    expect(() => applyCurationEdit(frames, { type: 'relabel', trackId: granddaughter, newId: mother })).toThrow(/mother and daughter/);
+    expect(frames.flatMap(f => f.cells).every(c => c.parentId !== c.id)).toBe(true);
+  });
+
+  it("splits a track into a new one from a frame on", () => {
+    const frames = twoTracks();
+    applyCurationEdit(frames, { type: 'split', frameIndex: 2, trackId: 1 });
+
+    expect(frames[1].cells.find(c => c.y === 30)?.id).toBe(1);
+    expect(frames[2].cells.find(c => c.y === 30)?.id).toBe(3);
+    expect(frames[1].cells.find(c => c.y === 30)?.trackEnd).toBe('lost');
+    expect(() => applyCurationEdit(frames, { type: 'split', frameIndex: 0, trackId: 2 })).toThrow(/nothing to split off/);
+  });
+});
+
+describe("replayCuration", () => {
+  it("rebuilds the edited frames without touching the originals", () => {
+    const originalFrames = twoTracks();
+    const history: CurationHistory = {
+      originalFrames,
+      edits: [
+        { type: 'delete', frameIndex: 0, cellId: 2 },
+        { type: 'split', frameIndex: 2, trackId: 1 }
+      ]
+    };
+    const frames = replayCuration(history);
+
+    expect(idsIn(frames[0])).toEqual([1]);
+    expect(frames[3].cells.find(c => c.y === 30)?.id).toBe(3);
+    expect(idsIn(originalFrames[0])).toEqual([1, 2]);
+    expect(replayCuration(history)).toEqual(frames);
+  });
+
+  it("re-links the edited detections on a relink edit", () => {
+    const originalFrames = twoTracks();
+    const frames = replayCuration({ originalFrames, edits: [{ type: 'split', frameIndex: 2, trackId: 1 }, { type: 'relink' }] });
+
+    expect(frames.every(f => idsIn(f).join() === '1,2')).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import { Cell, CurationEdit, CurationHistory, FrameData } from "../types";
+import { annotateExistingTracks, getGateRadius, linkCellsAcrossFrames } from "./trackingService";
+import { isUsableFrame } from "./frameStatusService";
+
+// Detections bridged when attaching a hand-added cell to an existing track
+const ADD_LINK_MAX_GAP = 3;
+
+// Helper: Highest track ID in use, for allocating new ones
+const getMaxTrackId = (frames: FrameData[]): number => {
+  return frames.reduce((acc, f) => f.cells.reduce((m, c) => Math.max(m, c.id), acc), 0);
+};
+
+const findCell = (frames: FrameData[], frameIndex: number, cellId: number): Cell => {
+  const cell = frames[frameIndex]?.cells.find(c => c.id === cellId);
+  if (!cell) throw new Error(`Cell #${cellId} is not in frame ${frameIndex + 1}.`);
+  return cell;
+};
+
+/**
+ * Picks the track a hand-added cell continues: the nearest track seen within the last few frames
+ * (or starting within the next few) that has no detection in this frame and lies inside the tracker's gate.
+ * Returns null for a new track.
+ */
+const findTrackForNewCell = (frames: FrameData[], frameIndex: number, x: number, y: number): number | null => {
+  const present = new Set(frames[frameIndex].cells.map(c => c.id));
+  let best: { id: number; distance: number } | null = null;
+
+  const consider = (neighbourIndex: number) => {
+    const neighbour = frames[neighbourIndex];
+    if (!neighbour) return;
+    const gate = getGateRadius(Math.abs(frames[frameIndex].timestamp - neighbour.timestamp));
+    neighbour.cells.forEach(cell => {
+      if (present.has(cell.id)) return;
+      const distance = Math.hypot(cell.x - x, cell.y - y);
+      if (distance <= gate && (!best || distance < best.distance)) best = { id: cell.id, distance };
+    });
+  };
+
+  for (let k = 1; k <= ADD_LINK_MAX_GAP + 1 && !best; k++) {
+    consider(frameIndex - k);
+    consider(frameIndex + k);
+  }
+  return best ? (best as { id: number }).id : null;
+};
+
+/**
+ * Brings derived fields back in line after a manual edit: cell counts, gaps, generations,
+ * then trails, track boundaries and tracker events. Track IDs and parent links are kept as edited.
+ */
+const refreshTracks = (frames: FrameData[]) => {
+  const parentOf = new Map<number, number>();
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    if (cell.parentId !== undefined) parentOf.set(cell.id, cell.parentId);
+  }));
+  const generationOf = (id: number, depth = 0): number => {
+    const parentId = parentOf.get(id);
+    return parentId === undefined || depth > 100 ? 0 : generationOf(parentId, depth + 1) + 1;
+  };
+
+  const lastFrameOf = new Map<number, number>();
+  frames.forEach((frame, index) => {
+    frame.cellCount = frame.cells.length;
+    frame.cells.forEach(cell => {
+      const last = lastFrameOf.get(cell.id);
+      cell.gap = last === undefined ? 0 : index - last - 1;
+      lastFrameOf.set(cell.id, index);
+      const parentId = parentOf.get(cell.id);
+      if (parentId !== undefined) cell.parentId = parentId;
+      else delete cell.parentId;
+      cell.generation = generationOf(cell.id);
+    });
+  });
+
+  annotateExistingTracks(frames);
+};
+
+// Helper: Whether track `ancestorId` is the mother, grandmother, ... of track `id`
+const isAncestor = (frames: FrameData[], ancestorId: number, id: number): boolean => {
+  const parentOf = new Map<number, number>();
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    if (cell.parentId !== undefined) parentOf.set(cell.id, cell.parentId);
+  }));
+  const seen = new Set<number>();
+  for (let current = parentOf.get(id); current !== undefined && !seen.has(current); current = parentOf.get(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+  }
+  return false;
+};
+
+// Helper: Renames a track everywhere, including as the parent of daughter tracks
+const renameTrack = (frames: FrameData[], fromId: number, toId: number, fromFrame = 0) => {
+  frames.forEach((frame, index) => frame.cells.forEach(cell => {
+    if (index >= fromFrame && cell.id === fromId) cell.id = toId;
+    if (cell.parentId === fromId) cell.parentId = toId;
+  }));
+};
+
+/**
+ * Applies one edit to the frames in place. Throws a readable error if the edit is not possible,
+ * e.g. merging two tracks that are both present in the same frame or that descend from each other.
+ */
+export const applyCurationEdit = (frames: FrameData[], edit: CurationEdit): FrameData[] => {
+  switch (edit.type) {
+    case 'add': {
+      const frame = frames[edit.frameIndex];
+      if (!frame) throw new Error(`Frame ${edit.frameIndex + 1} does not exist.`);
+      if (!isUsableFrame(frame)) throw new Error(`Frame ${edit.frameIndex + 1} was not analysed; retry the failed frames first.`);
+      const linkedId = findTrackForNewCell(frames, edit.frameIndex, edit.x, edit.y);
+      const id = linkedId ?? getMaxTrackId(frames) + 1;
+      const sibling = frames.flatMap(f => f.cells).find(c => c.id === id);
+      frame.cells.push({
+        id, x: edit.x, y: edit.y, r: edit.r, status: 'Normal',
+        ...(sibling?.parentId !== undefined ? { parentId: sibling.parentId } : {})
+      });
+      break;
+    }
+    case 'delete': {
+      const cell = findCell(frames, edit.frameIndex, edit.cellId);
+      frames[edit.frameIndex].cells = frames[edit.frameIndex].cells.filter(c => c !== cell);
+      break;
+    }
+    case 'move': {
+      const cell = findCell(frames, edit.frameIndex, edit.cellId);
+      cell.x = Math.min(100, Math.max(0, edit.x));
+      cell.y = Math.min(100, Math.max(0, edit.y));
+      cell.r = Math.max(0.1, edit.r);
+      break;
+    }
+    case 'status': {
+      findCell(frames, edit.frameIndex, edit.cellId).status = edit.status.trim() || 'Normal';
+      break;
+    }
+    case 'relabel': {
+      if (edit.newId === edit.trackId) return frames;
+      if (!Number.isInteger(edit.newId) || edit.newId < 1) throw new Error("Track IDs must be positive whole numbers.");
+      const clash = frames.findIndex(f => f.cells.some(c => c.id === edit.trackId) && f.cells.some(c => c.id === edit.newId));
+      if (clash >= 0) {
+        throw new Error(`Tracks #${edit.trackId} and #${edit.newId} are both present in frame ${clash + 1} and cannot be merged.`);
+      }
+      // Merging a cell into its own lineage would make it its own parent, or orphan the daughters
+      if (isAncestor(frames, edit.trackId, edit.newId) || isAncestor(frames, edit.newId, edit.trackId)) {
+        throw new Error(`Tracks #${edit.trackId} and #${edit.newId} are mother and daughter (or further apart in one lineage) and cannot be merged.`);
+      }
+      // A merged track keeps the target's mother if it has one
+      const targetParent = frames.flatMap(f => f.cells).find(c => c.id === edit.newId)?.parentId;
+      renameTrack(frames, edit.trackId, edit.newId);
+      if (targetParent !== undefined) {
+        frames.forEach(f => f.cells.forEach(c => { if (c.id === edit.newId) c.parentId = targetParent; }));
+      }
+      break;
+    }
+    case 'split': {
+      const hasBefore = frames.slice(0, edit.frameIndex).some(f => f.cells.some(c => c.id === edit.trackId));
+      if (!hasBefore) throw new Error(`Track #${edit.trackId} starts in frame ${edit.frameIndex + 1}; there is nothing to split off.`);
+      const newId = getMaxTrackId(frames) + 1;
+      frames.forEach((frame, index) => frame.cells.forEach(cell => {
+        if (index >= edit.frameIndex && cell.id === edit.trackId) {
+          cell.id = newId;
+          delete cell.parentId;
+        }
+        // Daughters born after the split belong to the new track
+        if (cell.parentId === edit.trackId && index >= edit.frameIndex) cell.parentId = newId;
+      }));
+      break;
+    }
+    case 'relink':
+      return linkCellsAcrossFrames(frames);
+  }
+
+  refreshTracks(frames);
+  return frames;
+};
+
+/**
+ * Rebuilds the curated frames from the original analysis by replaying every edit in order.
+ * Used for undo/redo and when reopening a saved project.
+ */
+export const replayCuration = (history: CurationHistory): FrameData[] => {
+  const frames = structuredClone(history.originalFrames);
+  history.edits.forEach(edit => applyCurationEdit(frames, edit));
+  return frames;
+};
+
+// Helper: Short label for the history list and undo/redo tooltips
+export const describeCurationEdit = (edit: CurationEdit): string => {
+  switch (edit.type) {
+    case 'add': return `Add cell in frame ${edit.frameIndex + 1}`;
+    case 'delete': return `Delete #${edit.cellId} in frame ${edit.frameIndex + 1}`;
+    case 'move': return `Move/resize #${edit.cellId} in frame ${edit.frameIndex + 1}`;
+    case 'status': return `Set #${edit.cellId} to "${edit.status}" in frame ${edit.frameIndex + 1}`;
+    case 'relabel': return `Relabel track #${edit.trackId} as #${edit.newId}`;
+    case 'split': return `Split track #${edit.trackId} at frame ${edit.frameIndex + 1}`;
+    case 'relink': return 'Re-link all tracks';
+  }
+};
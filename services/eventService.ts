@@ -0,0 +1,188 @@
+import { Cell, EventType, FrameData, FrameEvent } from "../types";
+import { isUsableFrame } from "./frameStatusService";
+
+// A detector event is linked to the cells whose centre lies within this many radii of its location
+const SUBJECT_REACH_RADII = 1.5;
+// Playback within this distance (s) of an event counts as being at it, when stepping between events
+const EVENT_TIME_TOLERANCE = 0.05;
+
+// Meaning of each event type, for the model's schema, the event log legend and exports
+export const EVENT_TYPE_DESCRIPTIONS: Record<EventType, string> = {
+  [EventType.Mitosis]: 'A mitotic phase: prophase, metaphase plate, chromosome segregation or cytokinesis',
+  [EventType.Division]: 'A mother track split into daughter tracks (traced by the tracker)',
+  [EventType.Apoptosis]: 'Programmed death: shrinkage, membrane blebbing, apoptotic bodies',
+  [EventType.Necrosis]: 'Uncontrolled death: swelling, membrane rupture, lysis',
+  [EventType.Interaction]: 'Cell-cell contact, fusion or aggregation',
+  [EventType.Detachment]: 'A cell rounding up and detaching from the substrate',
+  [EventType.Growth]: 'A new cell inside the field without a traced division (tracker heuristic)',
+  [EventType.Observation]: 'Anything else of note'
+};
+
+export const EVENT_TYPES = Object.values(EventType);
+
+// Types derived from the tracks; rebuilt on every linking run, never asked of the model
+export const TRACKER_EVENT_TYPES: EventType[] = [EventType.Division, EventType.Growth];
+
+// Types the detection model may report
+export const DETECTOR_EVENT_TYPES = EVENT_TYPES.filter(type => !TRACKER_EVENT_TYPES.includes(type));
+
+/**
+ * Guesses the type of a free-text event from keywords, for responses and saved results from
+ * before the structured schema. Anything unrecognised is an observation.
+ */
+export const classifyEventDescription = (description: string): EventType => {
+  const d = description.toLowerCase();
+  if (d.includes('mitosis') || d.includes('mitotic') || d.includes('divid') || d.includes('phase') || d.includes('cytokinesis')) return EventType.Mitosis;
+  if (d.includes('necro') || d.includes('lys') || d.includes('rupture')) return EventType.Necrosis;
+  if (d.includes('apoptosis') || d.includes('apoptotic') || d.includes('death') || d.includes('blebbing')) return EventType.Apoptosis;
+  if (d.includes('fusion') || d.includes('contact') || d.includes('aggregat')) return EventType.Interaction;
+  if (d.includes('detach')) return EventType.Detachment;
+  return EventType.Observation;
+};
+
+// Helper: A type label from the model or an older result, matched case-insensitively against the
+// taxonomy; unknown labels fall back to the description keywords
+export const normalizeEventType = (value: unknown, description: string): EventType => {
+  if (typeof value === 'string') {
+    const match = EVENT_TYPES.find(type => type.toLowerCase() === value.trim().toLowerCase());
+    if (match) return match;
+  }
+  return classifyEventDescription(description);
+};
+
+/**
+ * Whether an event was generated by the tracker. Events saved before the source was recorded
+ * are recognised by their type.
+ */
+export const isTrackerEvent = (event: FrameEvent): boolean =>
+  event.source ? event.source === 'tracker' : TRACKER_EVENT_TYPES.includes(event.type);
+
+// Helper: Moves event locations along with the cells, e.g. from a tile or crop to the full frame
+export const mapEventLocations = (events: FrameEvent[], map: (x: number, y: number) => { x: number; y: number }): FrameEvent[] =>
+  events.map(event => event.x === undefined || event.y === undefined ? event : { ...event, ...map(event.x, event.y) });
+
+// Helper: Centre of a group of cells, as the location of an event involving all of them
+export const getCellsCentroid = (cells: Cell[]): { x: number; y: number } | null => {
+  if (cells.length === 0) return null;
+  return {
+    x: cells.reduce((acc, c) => acc + c.x, 0) / cells.length,
+    y: cells.reduce((acc, c) => acc + c.y, 0) / cells.length
+  };
+};
+
+// Helper: The same event reported twice (by overlapping tiles or consensus passes)
+const isSameEvent = (a: FrameEvent, b: FrameEvent): boolean =>
+  a.type === b.type && (a.description === b.description || (
+    a.x !== undefined && b.x !== undefined && a.y !== undefined && b.y !== undefined &&
+    Math.hypot(a.x - b.x, a.y - b.y) < 1
+  ));
+
+/**
+ * Merges the events of several partial results of one frame. Repeats keep the first report,
+ * with the highest confidence any of them gave.
+ */
+export const mergeEvents = (lists: FrameEvent[][]): FrameEvent[] => {
+  const events: FrameEvent[] = [];
+  lists.flat().forEach(event => {
+    const index = events.findIndex(e => isSameEvent(e, event));
+    if (index < 0) {
+      events.push(event);
+    } else if (event.confidence !== undefined && (events[index].confidence ?? -1) < event.confidence) {
+      events[index] = { ...events[index], confidence: event.confidence };
+    }
+  });
+  return events;
+};
+
+/**
+ * Links located detector events to the tracks at their location, once the tracker has assigned
+ * the final IDs: every cell whose centre lies within SUBJECT_REACH_RADII radii of the event,
+ * or else the nearest cell if it is within twice that. Tracker events carry their IDs already.
+ */
+export const attachEventSubjects = (frames: FrameData[]) => {
+  frames.forEach(frame => {
+    frame.events.forEach(event => {
+      if (isTrackerEvent(event) || event.x === undefined || event.y === undefined) return;
+      const distances = frame.cells.map(cell => ({ cell, reach: Math.hypot(cell.x - event.x!, cell.y - event.y!) / Math.max(cell.r, 1e-6) }));
+      const within = distances.filter(d => d.reach <= SUBJECT_REACH_RADII).sort((a, b) => a.reach - b.reach);
+      const nearest = distances.reduce<typeof distances[number] | null>((best, d) => !best || d.reach < best.reach ? d : best, null);
+      const subjects = within.length > 0 ? within : nearest && nearest.reach <= 2 * SUBJECT_REACH_RADII ? [nearest] : [];
+      if (subjects.length > 0) event.cellIds = subjects.map(d => d.cell.id);
+      else delete event.cellIds;
+    });
+  });
+};
+
+// Number of events of each type over the usable frames
+export const countEventsByType = (frames: FrameData[]): Record<EventType, number> => {
+  const counts = Object.fromEntries(EVENT_TYPES.map(type => [type, 0])) as Record<EventType, number>;
+  frames.filter(isUsableFrame).forEach(frame => frame.events.forEach(event => { counts[event.type] = (counts[event.type] ?? 0) + 1; }));
+  return counts;
+};
+
+// Number of events of each type per track ID, for the events a cell took part in
+export const countEventsByCell = (frames: FrameData[]): Map<number, Partial<Record<EventType, number>>> => {
+  const counts = new Map<number, Partial<Record<EventType, number>>>();
+  frames.filter(isUsableFrame).forEach(frame => frame.events.forEach(event => {
+    new Set(event.cellIds ?? []).forEach(id => {
+      const cell = counts.get(id) ?? {};
+      cell[event.type] = (cell[event.type] ?? 0) + 1;
+      counts.set(id, cell);
+    });
+  }));
+  return counts;
+};
+
+/**
+ * Whether an event concerns a track: listed among its cells or, for events saved before cell
+ * links were recorded, named in the description ("#12").
+ */
+export const involvesCell = (event: FrameEvent, trackId: number): boolean =>
+  event.cellIds ? event.cellIds.includes(trackId) : new RegExp(`#${trackId}(?!\\d)`).test(event.description);
+
+// A frame event placed on the timeline, with where it is stored
+export interface TimelineEvent extends FrameEvent {
+  timestamp: number;
+  frameIndex: number;
+  eventIndex: number; // Position in the frame's event list
+}
+
+// All events in time order
+export const listTimelineEvents = (frames: FrameData[]): TimelineEvent[] =>
+  frames.flatMap((frame, frameIndex) => frame.events.map((event, eventIndex) => ({ ...event, timestamp: frame.timestamp, frameIndex, eventIndex })))
+    .sort((a, b) => a.timestamp - b.timestamp || a.frameIndex - b.frameIndex || a.eventIndex - b.eventIndex);
+
+export const isSameTimelineEvent = (a: TimelineEvent | null | undefined, b: TimelineEvent | null | undefined): boolean =>
+  !!a && !!b && a.frameIndex === b.frameIndex && a.eventIndex === b.eventIndex;
+
+/**
+ * Text search over events: every word of the query must occur in the type or the description,
+ * except "#12", which matches events involving track 12 exactly.
+ */
+export const matchesEventQuery = (event: FrameEvent, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = `${event.type} ${event.description}`.toLowerCase();
+  return terms.every(term => /^#\d+$/.test(term) ? involvesCell(event, Number(term.slice(1))) : text.includes(term));
+};
+
+/**
+ * The event to step to from the current one, or from the playback time when none is selected
+ * (or the selected one is not in the list): the next one after it, or the previous one before.
+ * Events at the same time are stepped through one by one.
+ */
+export const findAdjacentEvent = (events: TimelineEvent[], time: number, direction: 1 | -1, current?: TimelineEvent | null): TimelineEvent | null => {
+  const index = events.findIndex(e => isSameTimelineEvent(e, current));
+  if (index >= 0) return events[index + direction] ?? null;
+  if (direction > 0) return events.find(e => e.timestamp > time + EVENT_TIME_TOLERANCE) ?? null;
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (events[i].timestamp < time - EVENT_TIME_TOLERANCE) return events[i];
+  }
+  return null;
+};
+
+// Index of the latest event at or before the playback time (-1 before the first), for following playback
+export const findLatestEventIndex = (events: TimelineEvent[], time: number): number => {
+  let latest = -1;
+  events.forEach((e, i) => { if (e.timestamp <= time + EVENT_TIME_TOLERANCE) latest = i; });
+  return latest;
+};
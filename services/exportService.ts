@@ -0,0 +1,258 @@
+import { AnalysisResult, Calibration, ExportFile, ExportFormat, FrameData, VideoMetadata } from "../types";
+import { buildLineage } from "./lineageService";
+import { getRealSecondsPerVideoSecond, isSpaceCalibrated, toRealHours } from "./calibrationService";
+
+// Helper: Quote a CSV field when it contains a separator, quote or line break
+const csvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | null | undefined)[][]): string => {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+// Helper: Escape text for XML attributes
+const xmlAttr = (value: string | number): string => {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Helper: Short number formatting that keeps exports compact but lossless enough for analysis
+const num = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+/**
+ * One row per detection. Positions are always given in % of the frame (the app's native unit),
+ * plus pixels when the frame size is known and microns / hours when calibrated.
+ */
+export const buildDetectionsCsv = (frames: FrameData[], calibration?: Calibration, video?: VideoMetadata): string => {
+  const hasPixels = !!video && video.width > 0;
+  const hasMicrons = isSpaceCalibrated(calibration, video);
+  const hasHours = getRealSecondsPerVideoSecond(calibration) !== null;
+
+  const header = [
+    'frame', 'time_s',
+    ...(hasHours ? ['time_h'] : []),
+    'track_id', 'parent_id', 'generation',
+    'x_pct', 'y_pct', 'r_pct',
+    ...(hasPixels ? ['x_px', 'y_px', 'r_px'] : []),
+    ...(hasMicrons ? ['x_um', 'y_um', 'r_um'] : []),
+    'status', 'track_start', 'track_end'
+  ];
+
+  const rows = frames.flatMap((frame, frameIndex) => frame.cells.map(cell => {
+    const px = hasPixels ? [num((cell.x / 100) * video!.width, 2), num((cell.y / 100) * video!.height, 2), num((cell.r / 100) * video!.width, 2)] : [];
+    const um = hasMicrons ? px.map(v => num(v * calibration!.micronsPerPixel!, 2)) : [];
+    return [
+      frameIndex, num(frame.timestamp, 3),
+      ...(hasHours ? [num(toRealHours(frame.timestamp, calibration)!)] : []),
+      cell.id, cell.parentId ?? null, cell.generation ?? 0,
+      num(cell.x, 3), num(cell.y, 3), num(cell.r, 3),
+      ...px,
+      ...um,
+      cell.status ?? '', cell.trackStart ?? '', cell.trackEnd ?? ''
+    ];
+  }));
+
+  return toCsv(header, rows);
+};
+
+// One row per reported event (AI-reported and tracker-derived); track IDs are separated by spaces
+export const buildEventsCsv = (frames: FrameData[], calibration?: Calibration): string => {
+  const hasHours = getRealSecondsPerVideoSecond(calibration) !== null;
+  const header = ['frame', 'time_s', ...(hasHours ? ['time_h'] : []), 'type', 'source', 'track_ids', 'x_pct', 'y_pct', 'confidence', 'description'];
+  const rows = frames.flatMap((frame, frameIndex) => frame.events.map(event => [
+    frameIndex, num(frame.timestamp, 3),
+    ...(hasHours ? [num(toRealHours(frame.timestamp, calibration)!)] : []),
+    event.type, event.source ?? '', (event.cellIds ?? []).join(' '),
+    event.x !== undefined ? num(event.x, 3) : null,
+    event.y !== undefined ? num(event.y, 3) : null,
+    event.confidence !== undefined ? num(event.confidence, 3) : null,
+    event.description
+  ]));
+  return toCsv(header, rows);
+};
+
+export const buildResultJson = (result: AnalysisResult): string => JSON.stringify(result, null, 2);
+
+/**
+ * TrackMate model XML (readable by Fiji's "Load a TrackMate file").
+ * One TrackMate track per lineage: division links are edges from the mother's last spot to each daughter's first spot.
+ * Coordinates are in microns when calibrated, pixels otherwise; time is in the calibrated unit or video seconds.
+ */
+export const buildTrackMateXml = (result: AnalysisResult, sourceName = 'video'): string => {
+  const { frames, calibration, video } = result;
+  const width = video && video.width > 0 ? video.width : 100;
+  const height = video && video.height > 0 ? video.height : 100;
+  const spatial = isSpaceCalibrated(calibration, video);
+  const pixelSize = spatial ? calibration!.micronsPerPixel! : 1;
+  const timeScale = getRealSecondsPerVideoSecond(calibration);
+  const toTime = (t: number) => timeScale !== null ? (t * timeScale) / 60 : t;
+  const spaceUnit = spatial ? 'micron' : 'pixel';
+  const timeUnit = timeScale !== null ? 'min' : 'sec';
+
+  // Spot IDs and per-track spot sequences
+  let nextSpotId = 0;
+  const spotsByFrame: string[][] = frames.map(() => []);
+  const trackSpots = new Map<number, number[]>();
+
+  frames.forEach((frame, frameIndex) => frame.cells.forEach(cell => {
+    const spotId = nextSpotId++;
+    const x = (cell.x / 100) * width * pixelSize;
+    const y = (cell.y / 100) * height * pixelSize;
+    const r = (cell.r / 100) * width * pixelSize;
+    spotsByFrame[frameIndex].push(
+      `        <Spot ID="${spotId}" name="${xmlAttr(`ID${cell.id}`)}" QUALITY="1.0" POSITION_X="${num(x)}" POSITION_Y="${num(y)}" POSITION_Z="0.0" POSITION_T="${num(toTime(frame.timestamp))}" FRAME="${frameIndex}" RADIUS="${num(r)}" VISIBILITY="1" />`
+    );
+    trackSpots.set(cell.id, [...(trackSpots.get(cell.id) || []), spotId]);
+  }));
+
+  // Group tracks into lineages
+  const nodes = buildLineage(frames);
+  const lineages = new Map<number, typeof nodes>();
+  nodes.forEach(node => lineages.set(node.rootId, [...(lineages.get(node.rootId) || []), node]));
+
+  const trackBlocks: string[] = [];
+  const filtered: string[] = [];
+  let trackIndex = 0;
+  lineages.forEach((members, rootId) => {
+    const edges: string[] = [];
+    members.forEach(node => {
+      const spots = trackSpots.get(node.id) || [];
+      for (let i = 1; i < spots.length; i++) {
+        edges.push(`      <Edge SPOT_SOURCE_ID="${spots[i - 1]}" SPOT_TARGET_ID="${spots[i]}" LINK_COST="0.0" />`);
+      }
+      const parentSpots = node.parentId !== undefined ? trackSpots.get(node.parentId) : undefined;
+      if (parentSpots && parentSpots.length > 0 && spots.length > 0) {
+        edges.push(`      <Edge SPOT_SOURCE_ID="${parentSpots[parentSpots.length - 1]}" SPOT_TARGET_ID="${spots[0]}" LINK_COST="0.0" />`);
+      }
+    });
+    const spotCount = members.reduce((acc, n) => acc + (trackSpots.get(n.id)?.length || 0), 0);
+    trackBlocks.push(
+      `    <Track name="Track_${rootId}" TRACK_ID="${trackIndex}" TRACK_INDEX="${trackIndex}" NUMBER_SPOTS="${spotCount}" NUMBER_SPLITS="${members.filter(n => n.childIds.length > 0).length}">\n${edges.join('\n')}${edges.length > 0 ? '\n' : ''}    </Track>`
+    );
+    filtered.push(`    <TrackID TRACK_ID="${trackIndex}" />`);
+    trackIndex++;
+  });
+
+  const frameInterval = frames.length > 1 ? toTime(frames[1].timestamp - frames[0].timestamp) : 1;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrackMate version="7.0.0">',
+    `  <Model spatialunits="${spaceUnit}" timeunits="${timeUnit}">`,
+    '    <FeatureDeclarations>',
+    '      <SpotFeatures>',
+    '        <Feature feature="QUALITY" name="Quality" shortname="Quality" dimension="QUALITY" isint="false" />',
+    '        <Feature feature="POSITION_X" name="X" shortname="X" dimension="POSITION" isint="false" />',
+    '        <Feature feature="POSITION_Y" name="Y" shortname="Y" dimension="POSITION" isint="false" />',
+    '        <Feature feature="POSITION_Z" name="Z" shortname="Z" dimension="POSITION" isint="false" />',
+    '        <Feature feature="POSITION_T" name="T" shortname="T" dimension="TIME" isint="false" />',
+    '        <Feature feature="FRAME" name="Frame" shortname="Frame" dimension="NONE" isint="true" />',
+    '        <Feature feature="RADIUS" name="Radius" shortname="R" dimension="LENGTH" isint="false" />',
+    '        <Feature feature="VISIBILITY" name="Visibility" shortname="Visibility" dimension="NONE" isint="true" />',
+    '      </SpotFeatures>',
+    '      <EdgeFeatures>',
+    '        <Feature feature="SPOT_SOURCE_ID" name="Source spot ID" shortname="Source ID" dimension="NONE" isint="true" />',
+    '        <Feature feature="SPOT_TARGET_ID" name="Target spot ID" shortname="Target ID" dimension="NONE" isint="true" />',
+    '        <Feature feature="LINK_COST" name="Edge cost" shortname="Cost" dimension="NONE" isint="false" />',
+    '      </EdgeFeatures>',
+    '      <TrackFeatures>',
+    '        <Feature feature="TRACK_ID" name="Track ID" shortname="ID" dimension="NONE" isint="true" />',
+    '        <Feature feature="TRACK_INDEX" name="Track index" shortname="Index" dimension="NONE" isint="true" />',
+    '        <Feature feature="NUMBER_SPOTS" name="Number of spots in track" shortname="N spots" dimension="NONE" isint="true" />',
+    '        <Feature feature="NUMBER_SPLITS" name="Number of split events" shortname="N splits" dimension="NONE" isint="true" />',
+    '      </TrackFeatures>',
+    '    </FeatureDeclarations>',
+    `    <AllSpots nspots="${nextSpotId}">`,
+    ...spotsByFrame.map((spots, frameIndex) => spots.length > 0
+      ? `      <SpotsInFrame frame="${frameIndex}">\n${spots.join('\n')}\n      </SpotsInFrame>`
+      : `      <SpotsInFrame frame="${frameIndex}" />`),
+    '    </AllSpots>',
+    '    <AllTracks>',
+    ...trackBlocks,
+    '    </AllTracks>',
+    '    <FilteredTracks>',
+    ...filtered,
+    '    </FilteredTracks>',
+    '  </Model>',
+    '  <Settings>',
+    `    <ImageData filename="${xmlAttr(sourceName)}" folder="" width="${width}" height="${height}" nslices="1" nframes="${frames.length}" pixelwidth="${pixelSize}" pixelheight="${pixelSize}" voxeldepth="1.0" timeinterval="${num(frameInterval)}" />`,
+    '  </Settings>',
+    '</TrackMate>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Cell Tracking Challenge res_track.txt: one "L B E P" line per track segment
+ * (label, first frame, last frame, parent label or 0). Frames are sampled-frame indices.
+ * CTC segments must be contiguous, so tracks bridged by gap closing are split at each gap
+ * and the continuation gets a new label with the previous segment as its parent.
+ */
+export const buildCtcTracks = (frames: FrameData[]): string => {
+  const maxId = frames.reduce((acc, f) => Math.max(acc, ...f.cells.map(c => c.id)), 0);
+  let nextLabel = maxId + 1;
+
+  // Label of the segment that ends each track (division parents link to this one)
+  const lastLabelOfTrack = new Map<number, number>();
+  const segments: { label: number; begin: number; end: number; parent: number; trackId: number }[] = [];
+  const openSegment = new Map<number, (typeof segments)[number]>();
+
+  frames.forEach((frame, frameIndex) => frame.cells.forEach(cell => {
+    const current = openSegment.get(cell.id);
+    if (!current) {
+      const parentLabel = cell.parentId !== undefined ? (lastLabelOfTrack.get(cell.parentId) ?? 0) : 0;
+      const segment = { label: cell.id, begin: frameIndex, end: frameIndex, parent: parentLabel, trackId: cell.id };
+      segments.push(segment);
+      openSegment.set(cell.id, segment);
+    } else if (frameIndex - current.end > 1) {
+      const segment = { label: nextLabel++, begin: frameIndex, end: frameIndex, parent: current.label, trackId: cell.id };
+      segments.push(segment);
+      openSegment.set(cell.id, segment);
+    } else {
+      current.end = frameIndex;
+    }
+    lastLabelOfTrack.set(cell.id, openSegment.get(cell.id)!.label);
+  }));
+
+  return segments.map(s => `${s.label} ${s.begin} ${s.end} ${s.parent}`).join('\n') + '\n';
+};
+
+// Helper: Base file name without extension, used as the export prefix
+const baseName = (sourceName: string): string => sourceName.replace(/\.[^.]+$/, '') || 'celltracker';
+
+export const buildExport = (format: ExportFormat, result: AnalysisResult, sourceName: string): ExportFile => {
+  const base = baseName(sourceName);
+  switch (format) {
+    case 'detections-csv':
+      return { filename: `${base}_detections.csv`, mimeType: 'text/csv', content: buildDetectionsCsv(result.frames, result.calibration, result.video) };
+    case 'events-csv':
+      return { filename: `${base}_events.csv`, mimeType: 'text/csv', content: buildEventsCsv(result.frames, result.calibration) };
+    case 'json':
+      return { filename: `${base}_analysis.json`, mimeType: 'application/json', content: buildResultJson(result) };
+    case 'trackmate-xml':
+      return { filename: `${base}_trackmate.xml`, mimeType: 'application/xml', content: buildTrackMateXml(result, sourceName) };
+    case 'ctc-tracks':
+      return { filename: 'res_track.txt', mimeType: 'text/plain', content: buildCtcTracks(result.frames) };
+  }
+};
+
+// Object URLs of downloads are kept this long (ms): Firefox and Safari read the blob after click() returns
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+// Helper: Trigger a browser download of a text file
+export const downloadFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
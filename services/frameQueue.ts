@@ -0,0 +1,147 @@
+import { QueueSettings } from "../types";
+
+// Cloud detection: a few frames in flight, paced below typical per-minute API quotas
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = { concurrency: 2, requestsPerMinute: 15 };
+// Local detectors run on the main thread: one frame at a time, nothing to throttle
+export const LOCAL_QUEUE_SETTINGS: QueueSettings = { concurrency: 1, requestsPerMinute: null };
+
+// Rate-limited (429) attempts per frame before the run gives up
+const MAX_RATE_LIMIT_RETRIES = 5;
+// Wait after a 429 without a server-provided delay; doubles on each further 429 of the same frame
+const DEFAULT_RETRY_AFTER_MS = 10000;
+const MAX_RETRY_AFTER_MS = 120000;
+
+interface FrameQueueOptions<T, R> {
+  settings: QueueSettings;
+  signal?: AbortSignal;
+  onDone: (item: T, result: R) => void | Promise<void>; // Called as each item completes, for progress and checkpoints
+  onRateLimited?: (waitMs: number) => void;
+  lookup?: (item: T) => Promise<R | null>; // Already known results (e.g. cached), used without a request or rate-limit token
+}
+
+// Same shape as the error fetch throws on abort, so both are recognised alike
+export const createAbortError = (): Error => new DOMException("Analysis cancelled.", "AbortError");
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+// 429 / RESOURCE_EXHAUSTED responses (ApiError carries the HTTP status; wrapped errors only the text)
+export const isRateLimitError = (error: any): boolean =>
+  error?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(String(error?.message ?? error));
+
+/**
+ * Delay requested by the server: a Retry-After value, or the retryDelay of the google.rpc.RetryInfo
+ * detail that Gemini puts in the JSON body of a 429. Null when the response names none.
+ */
+export const getRetryAfterMs = (error: any): number | null => {
+  const text = String(error?.message ?? error);
+  const delay = text.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (delay) return Math.ceil(parseFloat(delay[1]) * 1000);
+  const header = text.match(/retry-after"?\s*:\s*"?(\d+(?:\.\d+)?)/i);
+  if (header) return Math.ceil(parseFloat(header[1]) * 1000);
+  return null;
+};
+
+// Helper: setTimeout as a promise that rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Token bucket shared by all workers: holds up to `capacity` tokens, refilled at the per-minute
+ * rate, one token per request. pause() empties it until a point in time, so a 429 holds back
+ * every worker rather than only the one that received it.
+ */
+const createTokenBucket = (requestsPerMinute: number | null, capacity: number) => {
+  const ratePerMs = requestsPerMinute && requestsPerMinute > 0 ? requestsPerMinute / 60000 : null;
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  let pausedUntil = 0;
+
+  const take = async (signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now, signal);
+        continue;
+      }
+      if (ratePerMs === null) return;
+      tokens = Math.min(capacity, tokens + Math.max(0, now - updatedAt) * ratePerMs);
+      updatedAt = Math.max(updatedAt, now);
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - tokens) / ratePerMs), signal);
+    }
+  };
+
+  const pause = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    tokens = 0;
+    updatedAt = pausedUntil;
+  };
+
+  return { take, pause };
+};
+
+/**
+ * Runs `task` on every item with up to settings.concurrency tasks in flight and at most
+ * settings.requestsPerMinute starts per minute. A rate-limit error pauses the whole queue for
+ * the server's retry delay (exponential backoff without one) and retries the item. Any other
+ * error, or aborting the signal, stops new work; tasks already in flight settle (and still
+ * reach onDone) before the queue rejects with the first error. Items `lookup` resolves are
+ * completed straight away and do not count against the rate limit.
+ */
+export const runFrameQueue = async <T, R>(
+  items: T[],
+  task: (item: T, signal?: AbortSignal) => Promise<R>,
+  { settings, signal, onDone, onRateLimited, lookup }: FrameQueueOptions<T, R>
+): Promise<void> => {
+  const concurrency = Math.max(1, Math.round(settings.concurrency));
+  const bucket = createTokenBucket(settings.requestsPerMinute, concurrency);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const item = items[next++];
+      for (let attempt = 0; ; attempt++) {
+        try {
+          if (signal?.aborted) throw createAbortError();
+          const known = attempt === 0 && lookup ? await lookup(item) : null;
+          if (known !== null) {
+            await onDone(item, known);
+            break;
+          }
+          await bucket.take(signal);
+          if (failure) return;
+          const result = await task(item, signal);
+          await onDone(item, result);
+          break;
+        } catch (error) {
+          const retry = isRateLimitError(error) && attempt < MAX_RATE_LIMIT_RETRIES && !signal?.aborted;
+          if (!retry) {
+            failure = failure ?? { error: signal?.aborted ? createAbortError() : error };
+            return;
+          }
+          const waitMs = getRetryAfterMs(error) ?? Math.min(MAX_RETRY_AFTER_MS, DEFAULT_RETRY_AFTER_MS * Math.pow(2, attempt));
+          console.warn(`Rate limited; retrying in ${(waitMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES}).`);
+          onRateLimited?.(waitMs);
+          bucket.pause(waitMs);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  if (failure) throw (failure as { error: unknown }).error;
+};
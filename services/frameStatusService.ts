@@ -0,0 +1,28 @@
+import { FrameAnalysisStatus, FrameData } from "../types";
+
+/**
+ * Frames whose detection succeeded. Failed frames and frames the model left unanswered carry no
+ * information about the population, so tracking and statistics skip them instead of reading
+ * them as zero cells.
+ */
+export const isUsableFrame = (frame: FrameData): boolean =>
+  !frame.analysisStatus || frame.analysisStatus === 'ok';
+
+// Placeholder for a frame without detections, kept in the timeline so it can be shown and retried
+export const createUnusableFrame = (timestamp: number, status: Exclude<FrameAnalysisStatus, 'ok'>, reason: string): FrameData => ({
+  timestamp,
+  cellCount: 0,
+  cells: [],
+  events: [],
+  analysisStatus: status,
+  analysisError: reason
+});
+
+export const countUnusableFrames = (frames: FrameData[]): number =>
+  frames.reduce((acc, f) => acc + (isUsableFrame(f) ? 0 : 1), 0);
+
+// Helper: Short label for tooltips and the event log
+export const describeFrameFailure = (frame: FrameData): string =>
+  frame.analysisStatus === 'empty'
+    ? `No answer from the detector${frame.analysisError ? `: ${frame.analysisError}` : ''}`
+    : `Analysis failed${frame.analysisError ? `: ${frame.analysisError}` : ''}`;
@@ -1,138 +1,28 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, FrameData, Cell, FrameEvent } from "../types";
+import { DetectionProvider, ExtractedFrame, FrameData } from "../types";
+import { isAbortError, isRateLimitError } from "./frameQueue";
+import { createUnusableFrame } from "./frameStatusService";
+import { validateDetectionResponse } from "./validationService";
+import { DETECTOR_EVENT_TYPES, EVENT_TYPE_DESCRIPTIONS } from "./eventService";
+import { getCachedResponse, getResponseCacheKey, hashText, saveCachedResponse } from "./responseCacheService";
 
 // Upgraded to Gemini 3 Pro Preview for advanced spatial reasoning and scientific analysis
 const GEMINI_MODEL = 'gemini-3-pro-preview';
 
-interface ExtractedFrame {
-  timestamp: number;
-  base64: string;
-}
+// Consensus passes ask with slightly different emphasis, so their mistakes are less correlated.
+// Variant 0 is the plain prompt, variant k adds hint k (wrapping around).
+const PROMPT_VARIANTS = [
+  'Scan the frame systematically from top-left to bottom-right, row by row, so no cell is missed.',
+  'Pay particular attention to faint, out-of-focus and partially visible cells at the frame edges.',
+  'Before listing a cell, check that it has a visible boundary; do not report debris or background texture as cells.',
+  'Where cells touch or overlap, separate them and report each one individually.'
+];
 
-// Helper: Extract frames from video file with robustness
-const extractFrames = async (file: File, intervalSec: number = 1.0): Promise<ExtractedFrame[]> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.muted = true;
-    video.playsInline = true;
-    video.setAttribute('playsinline', ''); // Critical for iOS/WebViews
-    video.setAttribute('webkit-playsinline', '');
-    video.preload = 'auto';
-    
-    // Global safety timeout
-    const timeout = setTimeout(() => {
-      reject(new Error("Video processing timed out. The file might be corrupted, use an unsupported codec, or be too large."));
-    }, 45000); 
-
-    video.onerror = () => {
-      clearTimeout(timeout);
-      const err = video.error;
-      let msg = "Could not load video file.";
-      if (err) {
-        switch (err.code) {
-          case MediaError.MEDIA_ERR_ABORTED: 
-            msg = "Video loading aborted."; 
-            break;
-          case MediaError.MEDIA_ERR_NETWORK: 
-            msg = "Network error loading video."; 
-            break;
-          case MediaError.MEDIA_ERR_DECODE: 
-            // Specific fix for the user's error message
-            msg = "Video decoding failed. This usually means the video uses an unsupported codec (like H.265/HEVC). Please convert it to standard MP4 (H.264)."; 
-            break;
-          case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: 
-            msg = "Video format not supported. Your browser cannot play this file. Please convert to standard MP4 (H.264)."; 
-            break;
-        }
-      }
-      reject(new Error(msg));
-    };
-
-    const frames: ExtractedFrame[] = [];
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-
-    // Use onloadeddata to ensure the first frame is actually ready to decode
-    video.onloadeddata = async () => {
-      try {
-        const duration = video.duration || 30; // Fallback if infinite
-        
-        // DOWNSCALING: Limit max dimension to 1024px to prevent huge payloads causing RPC/XHR 500 Errors
-        const MAX_DIM = 1024;
-        let scale = 1;
-        if (video.videoWidth > MAX_DIM || video.videoHeight > MAX_DIM) {
-            scale = Math.min(MAX_DIM / video.videoWidth, MAX_DIM / video.videoHeight);
-        }
-        
-        canvas.width = video.videoWidth * scale;
-        canvas.height = video.videoHeight * scale;
-        
-        // ADAPTIVE SAMPLING:
-        // Instead of a hard cap at 30 seconds, we distribute ~30 frames across the full video duration.
-        const MAX_FRAMES = 30; 
-        
-        // Calculate dynamic interval. 
-        // e.g., 60s video -> 2s interval. 
-        // e.g., 10s video -> 1s interval (capped by Math.max default of 1.0 or intervalSec)
-        const samplingInterval = Math.max(intervalSec, duration / MAX_FRAMES);
-        
-        // 1. Capture the first frame (t=0) immediately without seeking
-        // This prevents race conditions where seeking to 0 when already at 0 doesn't fire events
-        if (ctx) {
-           ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-           // Reduce quality to 0.6 to further optimize payload size
-           const base64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-           frames.push({ timestamp: 0, base64 });
-        }
-
-        // 2. Loop for subsequent frames using the adaptive interval
-        for (let time = samplingInterval; time < duration; time += samplingInterval) {
-          if (frames.length >= MAX_FRAMES) break;
-
-          // Robust Seek Logic
-          await new Promise<void>((frameResolve, frameReject) => {
-             const seekTimeout = setTimeout(() => {
-                 // Don't fail the whole process for one bad frame, just skip
-                 console.warn(`Seek timeout at ${time}s, skipping frame.`);
-                 frameResolve(); 
-             }, 3000);
-             
-             const onSeek = () => {
-                clearTimeout(seekTimeout);
-                video.removeEventListener('seeked', onSeek);
-                frameResolve();
-             };
-             
-             // CRITICAL: Attach listener BEFORE setting currentTime
-             video.addEventListener('seeked', onSeek);
-             video.currentTime = time;
-          });
+// Helper: First line of an error, short enough for a tooltip
+const summarizeError = (e: any): string => String(e?.message ?? e).split('\n')[0].slice(0, 200);
 
-          if (ctx) {
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-            const base64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-            frames.push({ timestamp: time, base64 });
-          }
-        }
-        
-        clearTimeout(timeout);
-        URL.revokeObjectURL(video.src);
-        resolve(frames);
-      } catch (e) {
-        clearTimeout(timeout);
-        URL.revokeObjectURL(video.src);
-        reject(e);
-      }
-    };
-
-    // Trigger load
-    video.src = URL.createObjectURL(file);
-    video.load(); // Explicitly request load
-  });
-};
-
-// Helper: Analyze single frame with retry logic
-const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, retries = 3): Promise<FrameData> => {
+// Helper: Response schema and prompt of a detection request (variant 0 = the plain prompt)
+const buildDetectionRequest = (promptVariant = 0): { schema: Schema; prompt: string } => {
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
@@ -155,8 +45,23 @@ const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, retries = 3)
       },
       frameEvents: {
         type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "List of significant biological events (Mitosis phases, Cell death, Fusion, Detachment). Empty if none."
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, enum: DETECTOR_EVENT_TYPES, description: "Event category" },
+            description: { type: Type.STRING, description: "What is seen, in one sentence" },
+            cells: {
+              type: Type.ARRAY,
+              items: { type: Type.INTEGER },
+              description: "Numbers of the cells involved: positions in the cells list, counting from 1"
+            },
+            x: { type: Type.NUMBER, description: "X coordinate of where the event happens (Percentage 0-100)" },
+            y: { type: Type.NUMBER, description: "Y coordinate of where the event happens (Percentage 0-100)" },
+            confidence: { type: Type.NUMBER, description: "Confidence that the event is real (0-1)" }
+          },
+          required: ["type", "description"]
+        },
+        description: "Significant biological events in this frame. Empty if none."
       }
     },
     required: ["cellCount", "cells", "frameEvents"]
@@ -187,11 +92,27 @@ const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, retries = 3)
     - Cell shape (round vs elongated).
 
     ## 3. FRAME-LEVEL EVENTS
-    Document significant biological events observable in this frame under 'frameEvents':
-    - **Mitotic events**: early prophase, metaphase plate formation, chromosome segregation, cytokinesis.
-    - **Cell death**: apoptotic bodies, membrane rupture, cellular fragmentation.
-    - **Cell-cell interactions**: contact inhibition, cell fusion, aggregation.
-  `;
+    Document significant biological events observable in this frame under 'frameEvents'. Give each one a 'type' from this list:
+${DETECTOR_EVENT_TYPES.map(type => `    - **${type}**: ${EVENT_TYPE_DESCRIPTIONS[type]}.`).join('\n')}
+    List the cells involved under 'cells' by their position in your 'cells' list (the first cell is 1), and give the event's location as 'x', 'y' (the centre of the cells involved if it is not a single point) and your 'confidence' (0-1).
+  ` + (promptVariant ? `\n    ${PROMPT_VARIANTS[(promptVariant - 1) % PROMPT_VARIANTS.length]}\n` : '');
+
+  return { schema, prompt };
+};
+
+// Helper: Response cache key of a request. The prompt version is a hash of the prompt and schema,
+// so editing either invalidates earlier responses without a manual version bump.
+const getCacheKey = async (frame: ExtractedFrame) => {
+  const { schema, prompt } = buildDetectionRequest(frame.promptVariant);
+  const promptVersion = (await hashText(JSON.stringify({ schema, prompt })))?.slice(0, 12);
+  const key = promptVersion ? await getResponseCacheKey(frame.base64, GEMINI_MODEL, promptVersion) : null;
+  return key && promptVersion ? { key, promptVersion } : null;
+};
+
+// Helper: Analyze single frame with retry logic.
+// Rate limits and cancellation are thrown to the frame queue, which backs off or stops the run.
+const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, signal?: AbortSignal, retries = 3): Promise<FrameData> => {
+  const { schema, prompt } = buildDetectionRequest(frame.promptVariant);
 
   // Retry Loop
   for (let attempt = 0; attempt < retries; attempt++) {
@@ -207,43 +128,31 @@ const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, retries = 3)
         config: {
           responseMimeType: "application/json",
           responseSchema: schema,
+          abortSignal: signal
         }
       });
 
       const text = response.text;
-      if (!text) return { timestamp: frame.timestamp, cellCount: 0, cells: [], events: [] };
-
-      const data = JSON.parse(text);
-      
-      // Transform to internal FrameData format
-      const cells: Cell[] = (data.cells || []).map((c: any, index: number) => ({
-        id: index + 1, // Temporary ID, will be overwritten by tracker
-        x: c.x,
-        y: c.y,
-        r: c.r,
-        status: c.status || 'Normal',
-        history: [] // Initialize empty history
-      }));
+      if (!text) return createUnusableFrame(frame.timestamp, 'empty', "The model returned an empty response.");
 
-      // Convert string events to FrameEvent objects
-      const events: FrameEvent[] = (data.frameEvents || []).map((desc: string) => {
-          let type = "Observation";
-          const d = desc.toLowerCase();
-          if (d.includes('mitosis') || d.includes('divid') || d.includes('phase')) type = "Mitosis";
-          else if (d.includes('apoptosis') || d.includes('death') || d.includes('lysing')) type = "Apoptosis";
-          else if (d.includes('fusion') || d.includes('contact')) type = "Interaction";
-          
-          return { type, description: desc };
-      });
+      // Never trust the model output as-is: check the shape and physical limits, fix what can be fixed
+      const { cellCount, cells, events, warnings } = validateDetectionResponse(JSON.parse(text));
+      if (warnings.length > 0) console.warn(`Frame ${frame.timestamp}s: ${warnings.length} corrections to the model output.`, warnings);
 
-      return {
+      const result: FrameData = {
         timestamp: frame.timestamp,
-        cellCount: data.cellCount || cells.length,
-        cells: cells,
-        events: events 
+        cellCount,
+        cells,
+        events,
+        analysisStatus: 'ok',
+        ...(warnings.length > 0 ? { warnings } : {})
       };
+      const cache = await getCacheKey(frame).catch(() => null);
+      if (cache) await saveCachedResponse(cache.key, GEMINI_MODEL, cache.promptVersion, result);
+      return result;
 
     } catch (e: any) {
+      if (signal?.aborted || isAbortError(e) || isRateLimitError(e)) throw e;
       const isLastAttempt = attempt === retries - 1;
       
       // If it's a 500/503 or XHR error, we can retry
@@ -258,129 +167,46 @@ const analyzeFrame = async (ai: GoogleGenAI, frame: ExtractedFrame, retries = 3)
       
       if (isLastAttempt) {
         console.error(`Error analyzing frame at ${frame.timestamp}s after ${retries} attempts:`, e);
-        // Return empty frame rather than failing whole process
-        return { timestamp: frame.timestamp, cellCount: 0, cells: [], events: [] };
+        // Mark the frame as failed rather than failing the whole process; it can be retried later
+        return createUnusableFrame(frame.timestamp, 'failed', summarizeError(e));
       }
     }
   }
   
-  return { timestamp: frame.timestamp, cellCount: 0, cells: [], events: [] };
-};
-
-// Helper: Heuristic tracker to link IDs, detect growth events, and manage trails
-const linkCellsAcrossFrames = (frames: FrameData[]): FrameData[] => {
-  if (frames.length === 0) return frames;
-
-  let nextId = 1;
-  const HISTORY_LENGTH = 10;
-  
-  // Assign fresh IDs to first frame
-  frames[0].cells.forEach(cell => {
-    cell.id = nextId++;
-    cell.history = []; // First frame has no history
-  });
-
-  for (let i = 1; i < frames.length; i++) {
-    const prevFrame = frames[i - 1];
-    const currFrame = frames[i];
-    const prevCells = prevFrame.cells;
-    const currCells = currFrame.cells;
-    
-    let newCellsFound = 0;
-
-    currCells.forEach(curr => {
-      let minDist = Infinity;
-      let match = null;
-
-      prevCells.forEach(prev => {
-        const dist = Math.sqrt(Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2));
-        
-        // RELAXED TRACKING THRESHOLD for Adaptive Sampling:
-        // Since frames might be 5+ seconds apart, cells move further. 
-        // Increased threshold from 10 to 25 to prevent losing IDs on long intervals.
-        if (dist < 25) { 
-          if (dist < minDist) {
-            minDist = dist;
-            match = prev;
-          }
-        }
-      });
-
-      if (match) {
-        curr.id = match.id;
-        // Motion Trail Logic: Inherit history + add previous point
-        const prevHistory = match.history || [];
-        curr.history = [...prevHistory, { x: match.x, y: match.y }].slice(-HISTORY_LENGTH);
-      } else {
-        // No match found - this is likely a new cell
-        curr.id = nextId++;
-        curr.history = []; // New cell starts with empty history
-        newCellsFound++;
-      }
-    });
-
-    // Heuristic Event Detection: If population grew significantly or new IDs appeared
-    if (newCellsFound > 0 && currCells.length > prevCells.length) {
-       // Only add if not already redundant with AI detection
-       const hasMitosis = currFrame.events.some(e => e.type === 'Mitosis');
-       if (!hasMitosis) {
-         currFrame.events.push({
-           type: 'Growth',
-           description: `New cell detected (Total: ${currCells.length})`
-         });
-       }
-    }
-  }
-
-  return frames;
+  return createUnusableFrame(frame.timestamp, 'failed', `No valid response after ${retries} attempts.`);
 };
 
 // Helper: Generate formal scientific report
-const generateScientificReport = async (ai: GoogleGenAI, frames: FrameData[]): Promise<string> => {
-  if (frames.length === 0) return "No data available for report.";
-
-  const duration = frames[frames.length - 1].timestamp;
-  const initialCount = frames[0].cellCount;
-  const finalCount = frames[frames.length - 1].cellCount;
-  const maxCount = Math.max(...frames.map(f => f.cellCount));
-  
-  const mitosisEvents = frames.flatMap(f => f.events).filter(e => e.type === 'Mitosis').length;
-  const apoptosisEvents = frames.flatMap(f => f.events).filter(e => e.type === 'Apoptosis').length;
-  const growthEvents = frames.flatMap(f => f.events).filter(e => e.type === 'Growth').length;
-
-  const stats = JSON.stringify({
-    videoDurationSeconds: duration,
-    initialPopulation: initialCount,
-    finalPopulation: finalCount,
-    peakPopulation: maxCount,
-    eventsDetected: {
-      mitosis: mitosisEvents,
-      apoptosis: apoptosisEvents,
-      populationGrowth: growthEvents
-    }
-  });
+const generateScientificReport = async (ai: GoogleGenAI, stats: object): Promise<string> => {
+  const statsJson = JSON.stringify(stats);
 
   const prompt = `
     You are a senior computational biologist writing a formal laboratory report based on automated video analysis data.
     
-    Data: ${stats}
+    Data: ${statsJson}
 
     Please write a "Scientific Analysis Report" in Markdown format with the following structure:
     ## Abstract
     (Brief summary of the experiment and findings)
     
     ## Methodology: Computer Vision Analysis
-    (Briefly explain that a Gemini-powered multimodal AI tracked cell centroids and morphology over time)
+    (Briefly explain that a Gemini-powered multimodal AI tracked cell centroids and morphology over time. If failedFrames is above zero, state how many sampled frames were excluded because their analysis failed. If validation.methodsNote is not empty, include it: it describes how the detector output was validated and corrected. If consensus.methodsNote is not empty, include it and report consensus.meanCountSpread as the count uncertainty.)
 
     ## Results: Population Dynamics
     (Discuss the trends in cell count, growth rates, and stability. Use the numbers provided.)
 
+    ## Results: Cell Motility
+    (Discuss speed, path length vs. net displacement, directionality, turning angles and the MSD exponent from the motility data.)
+
     ## Event Analysis
-    (Discuss observed biological events like mitosis or cell death based on the stats.)
+    (Discuss observed biological events like mitosis or cell death based on the stats.
+    Distinguish cells appearing inside the field from cells entering or leaving across its border, and tracks lost by the detector.)
 
     ## Conclusion
     (Final biological interpretation of the sample's health and proliferation status.)
 
+    Units: When the data contains physical values (hours, µm), report those instead of video seconds or frame percentages.
+
     Tone: Academic, objective, professional. 
     Do not use placeholders. Use the data provided to generate realistic text.
   `;
@@ -397,75 +223,19 @@ const generateScientificReport = async (ai: GoogleGenAI, frames: FrameData[]): P
   }
 };
 
-// Helper: Translate technical errors to user friendly messages
-const getFriendlyErrorMessage = (error: any): string => {
-  const msg = error.toString();
-  if (msg.includes("API key")) return "Invalid API Key provided. Please check your key.";
-  if (msg.includes("429")) return "Too many requests. The API quota has been exceeded. Please try again in a few minutes.";
-  if (msg.includes("Network")) return "Network error. Please check your internet connection.";
-  if (msg.includes("timed out")) return "The video processing timed out. Try a shorter video clip.";
-  
-  // Specific Video Errors
-  if (msg.includes("unsupported codec") || msg.includes("H.265")) return "Video format not supported. Your browser cannot play this file (likely H.265/HEVC). Please convert to standard MP4 (H.264).";
-  if (msg.includes("corrupted")) return "The video file appears to be corrupted or cannot be decoded by the browser.";
-  if (msg.includes("video file")) return "Could not parse video file. Ensure it is a valid MP4/WebM that plays in your browser.";
-  
-  return "An unexpected error occurred during analysis. Please try again.";
-};
-
-export const analyzeMicroscopyVideo = async (
-  file: File, 
-  apiKey: string,
-  onProgress: (progress: number, message: string) => void
-): Promise<AnalysisResult> => {
+/**
+ * Detection provider backed by the Gemini multimodal model. Requires a valid API key and network access.
+ */
+export const createGeminiProvider = (apiKey: string): DetectionProvider => {
   const ai = new GoogleGenAI({ apiKey });
-  
-  try {
-    // 1. Extract Frames
-    onProgress(5, "Initializing video processor...");
-    const rawFrames = await extractFrames(file, 1.0);
-    
-    if (rawFrames.length === 0) {
-      throw new Error("No usable frames found in video.");
-    }
-
-    onProgress(15, `Extracted ${rawFrames.length} frames. Preparing AI vision model...`);
-    
-    // 2. Analyze Frames Sequentially 
-    const analyzedFrames: FrameData[] = [];
-    const totalFrames = rawFrames.length;
-
-    for (let i = 0; i < totalFrames; i++) {
-      // Scale progress from 15% to 80%
-      const percentage = 15 + Math.round((i / totalFrames) * 65);
-      onProgress(percentage, `Scanning frame ${i + 1} of ${totalFrames} for biological structures...`);
-      
-      const data = await analyzeFrame(ai, rawFrames[i]);
-      analyzedFrames.push(data);
-    }
-
-    // 3. Post-process to link IDs
-    onProgress(85, "Tracking cell trajectories and calculating vectors...");
-    const linkedFrames = linkCellsAcrossFrames(analyzedFrames);
-
-    // 4. Generate Scientific Report
-    onProgress(90, "Synthesizing final scientific report...");
-    const extendedReport = await generateScientificReport(ai, linkedFrames);
-
-    // 5. Finalize
-    onProgress(98, "Finalizing data visualization...");
-    const avgCount = linkedFrames.reduce((acc, f) => acc + f.cellCount, 0) / (linkedFrames.length || 1);
-    const summary = `Analysis complete. Processed ${linkedFrames.length} frames over ${linkedFrames[linkedFrames.length-1]?.timestamp.toFixed(1) || 0} seconds. Average cell count: ${avgCount.toFixed(1)}.`;
-
-    onProgress(100, "Analysis Complete!");
-
-    return {
-      frames: linkedFrames,
-      summary,
-      extendedReport
-    };
-  } catch (error) {
-    console.error("Deep analysis failed:", error);
-    throw new Error(getFriendlyErrorMessage(error));
-  }
-};
\ No newline at end of file
+  return {
+    id: 'gemini',
+    name: 'Gemini AI vision model',
+    analyzeFrame: (frame, signal) => analyzeFrame(ai, frame, signal),
+    lookupCache: async (frame) => {
+      const cache = await getCacheKey(frame).catch(() => null);
+      return cache ? getCachedResponse(cache.key, frame.timestamp) : null;
+    },
+    generateReport: (stats) => generateScientificReport(ai, stats)
+  };
+};
@@ -0,0 +1,192 @@
+import { ImageSequence, VideoMetadata } from "../types";
+import { decodeTiffPage, isTiffFile, readTiffDirectories, TiffDirectory, TiffRaster } from "./tiffDecoder";
+
+// Preview playback rate of a sequence; frame i sits at i / SEQUENCE_FPS seconds
+export const SEQUENCE_FPS = 10;
+// Contrast normalisation clips this fraction of samples at each end of the intensity range
+const CLIP_FRACTION = 0.001;
+// Pages and samples per page read to estimate the intensity range of a high bit depth stack
+const RANGE_SAMPLE_PAGES = 24;
+const RANGE_SAMPLES_PER_PAGE = 50000;
+// Renderings are stored as high quality JPEGs; analysis re-encodes them anyway
+const FRAME_QUALITY = 0.92;
+
+const BROWSER_IMAGE = /\.(png|jpe?g|bmp|gif|webp)$/i;
+
+interface DisplayRange {
+  min: number;
+  max: number;
+}
+
+// One TIFF page and the buffer it lives in
+interface PageRef {
+  buffer: ArrayBuffer;
+  directory: TiffDirectory;
+}
+
+export const isImageSequence = (source: File | ImageSequence): source is ImageSequence => !(source instanceof File);
+
+export const isSequenceFile = (file: File): boolean => isTiffFile(file) || BROWSER_IMAGE.test(file.name);
+
+export const getSequenceMetadata = (sequence: ImageSequence): VideoMetadata => ({
+  width: sequence.width,
+  height: sequence.height,
+  duration: sequence.frameUrls.length / sequence.fps
+});
+
+// Frame shown at a playback time
+export const getSequenceFrameIndex = (sequence: ImageSequence, time: number): number => {
+  return Math.min(sequence.frameUrls.length - 1, Math.max(0, Math.floor(time * sequence.fps + 1e-6)));
+};
+
+export const releaseImageSequence = (sequence: ImageSequence) => {
+  sequence.frameUrls.forEach(url => URL.revokeObjectURL(url));
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not decode an image of the sequence."));
+    image.src = url;
+  });
+};
+
+// Helper: Path used for ordering; folder picks carry the relative path
+const getPath = (file: File) => file.webkitRelativePath || file.name;
+
+// Helper: "frame2.png" before "frame10.png"
+const naturalCompare = (a: File, b: File) => getPath(a).localeCompare(getPath(b), undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Intensity range for display, shared by all frames so brightness stays comparable over time.
+ * 8-bit data is shown as is; deeper data is stretched between low and high percentiles
+ * estimated from an even sample of pages.
+ */
+const computeDisplayRange = async (pages: PageRef[]): Promise<DisplayRange | null> => {
+  if (pages.every(p => p.directory.bitsPerSample === 8)) return null;
+
+  const pageStep = Math.max(1, Math.floor(pages.length / RANGE_SAMPLE_PAGES));
+  const samples: number[] = [];
+  for (let i = 0; i < pages.length; i += pageStep) {
+    const { data } = await decodeTiffPage(pages[i].buffer, pages[i].directory);
+    const step = Math.max(1, Math.floor(data.length / RANGE_SAMPLES_PER_PAGE));
+    for (let k = 0; k < data.length; k += step) {
+      if (Number.isFinite(data[k])) samples.push(data[k]);
+    }
+  }
+  if (samples.length === 0) return null;
+
+  const sorted = Float64Array.from(samples).sort();
+  const min = sorted[Math.floor(sorted.length * CLIP_FRACTION)];
+  const max = sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * (1 - CLIP_FRACTION)) - 1)];
+  return { min, max: max > min ? max : min + 1 };
+};
+
+// Helper: Writes a raster into RGBA pixels, mapping samples through the display range
+const rasterToRgba = (raster: TiffRaster, range: DisplayRange | null, out: Uint8ClampedArray) => {
+  const { data, samplesPerPixel: spp, photometric } = raster;
+  const scale = range ? 255 / (range.max - range.min) : 1;
+  const offset = range ? range.min : 0;
+  const invert = photometric === 0;
+  const toByte = (value: number) => {
+    const v = (value - offset) * scale; // Clamped by Uint8ClampedArray
+    return invert ? 255 - v : v;
+  };
+
+  const pixels = raster.width * raster.height;
+  for (let i = 0; i < pixels; i++) {
+    const o = i * 4;
+    if (spp >= 3) {
+      out[o] = toByte(data[i * spp]);
+      out[o + 1] = toByte(data[i * spp + 1]);
+      out[o + 2] = toByte(data[i * spp + 2]);
+    } else {
+      const v = toByte(data[i * spp]);
+      out[o] = v;
+      out[o + 1] = v;
+      out[o + 2] = v;
+    }
+    out[o + 3] = 255;
+  }
+};
+
+// Helper: Canvas to object URL
+const canvasToUrl = (canvas: HTMLCanvasElement): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(URL.createObjectURL(blob)) : reject(new Error("Could not render a frame of the sequence.")), 'image/jpeg', FRAME_QUALITY);
+  });
+};
+
+const loadTiffSequence = async (files: File[], onProgress: (progress: number, message: string) => void): Promise<Omit<ImageSequence, 'name' | 'files' | 'fps'>> => {
+  const pages: PageRef[] = [];
+  for (let i = 0; i < files.length; i++) {
+    onProgress(Math.round((i / files.length) * 20), `Reading ${files[i].name}...`);
+    const buffer = await files[i].arrayBuffer();
+    readTiffDirectories(buffer).forEach(directory => pages.push({ buffer, directory }));
+  }
+
+  const { width, height } = pages[0].directory;
+  if (pages.some(p => p.directory.width !== width || p.directory.height !== height)) {
+    throw new Error("All frames of an image sequence must have the same size.");
+  }
+
+  onProgress(20, "Estimating the intensity range...");
+  const range = await computeDisplayRange(pages);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  const imageData = ctx.createImageData(width, height);
+
+  const frameUrls: string[] = [];
+  try {
+    for (let i = 0; i < pages.length; i++) {
+      if (i % 10 === 0) onProgress(25 + Math.round((i / pages.length) * 75), `Decoding frame ${i + 1} of ${pages.length}...`);
+      rasterToRgba(await decodeTiffPage(pages[i].buffer, pages[i].directory), range, imageData.data);
+      ctx.putImageData(imageData, 0, 0);
+      frameUrls.push(await canvasToUrl(canvas));
+    }
+  } catch (e) {
+    frameUrls.forEach(url => URL.revokeObjectURL(url));
+    throw e;
+  }
+  return { frameUrls, width, height };
+};
+
+/**
+ * Turns a multi-page TIFF, several TIFFs, or a folder of PNG/JPEG images into a playable
+ * sequence. Files are ordered by natural sort of their (relative) path, so "t2" comes before "t10".
+ */
+export const loadImageSequence = async (
+  files: File[],
+  onProgress: (progress: number, message: string) => void = () => {}
+): Promise<ImageSequence> => {
+  const sorted = files.filter(isSequenceFile).sort(naturalCompare);
+  if (sorted.length === 0) throw new Error("No TIFF, PNG or JPEG images found.");
+
+  const tiffCount = sorted.filter(isTiffFile).length;
+  if (tiffCount > 0 && tiffCount < sorted.length) {
+    throw new Error("The selection mixes TIFF and other image files. Please use one format per sequence.");
+  }
+
+  const folder = sorted[0].webkitRelativePath.split('/')[0];
+  const name = sorted.length === 1 ? sorted[0].name : folder || `${sorted.length} images`;
+
+  if (tiffCount > 0) {
+    return { name, files: sorted, fps: SEQUENCE_FPS, ...await loadTiffSequence(sorted, onProgress) };
+  }
+
+  // Browser-decodable images are used directly
+  const frameUrls = sorted.map(file => URL.createObjectURL(file));
+  try {
+    const first = await loadImage(frameUrls[0]);
+    onProgress(100, `Loaded ${frameUrls.length} images.`);
+    return { name, files: sorted, frameUrls, width: first.naturalWidth, height: first.naturalHeight, fps: SEQUENCE_FPS };
+  } catch (e) {
+    frameUrls.forEach(url => URL.revokeObjectURL(url));
+    throw e;
+  }
+};
@@ -0,0 +1,90 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from "vitest";
+import { AnalysisResult, Calibration, Cell, FrameData, VideoMetadata } from "../types";
+import { buildTrackMateXml } from "./exportService";
+import { parseTrackMateXml } from "./importService";
+import { linkCellsAcrossFrames } from "./trackingService";
+
+const VIDEO: VideoMetadata = { width: 400, height: 300, duration: 5 };
+
+// Helper: A detected frame; IDs are placeholders until the tracker assigns them
+const frame = (timestamp: number, cells: Partial<Cell>[]): FrameData => ({
+  timestamp,
+  cellCount: cells.length,
+  cells: cells.map(c => ({ id: 0, x: 50, y: 50, r: 3, status: 'Normal', ...c })),
+  events: []
+});
+
+// Five frames, one second apart: a cell that divides, and a wandering cell missed in frame 2
+const linkedFrames = (): FrameData[] => linkCellsAcrossFrames([
+  frame(0, [{ x: 50, y: 50 }, { x: 20, y: 70, r: 2 }]),
+  frame(1, [{ x: 50, y: 50, status: 'Dividing' }, { x: 22, y: 70, r: 2 }]),
+  frame(2, [{ x: 46, y: 50, r: 2 }, { x: 54, y: 50, r: 2 }]),
+  frame(3, [{ x: 45, y: 51, r: 2 }, { x: 55, y: 49, r: 2 }, { x: 26, y: 71, r: 2 }]),
+  frame(4, [{ x: 44, y: 52, r: 2 }, { x: 56, y: 48, r: 2 }, { x: 28, y: 72, r: 2 }])
+]);
+
+// Helper: Exports the frames to TrackMate XML and reads them back
+const roundTrip = (frames: FrameData[], calibration?: Calibration) => {
+  const result: AnalysisResult = { frames, summary: '', extendedReport: '', video: VIDEO, calibration };
+  return parseTrackMateXml(buildTrackMateXml(result, 'movie.tif'), VIDEO, calibration);
+};
+
+// Helper: The imported cell at the position of an original one
+const counterpart = (frames: FrameData[], frameIndex: number, cell: Cell): Cell => {
+  const match = frames[frameIndex].cells.find(c => Math.abs(c.x - cell.x) < 1e-3 && Math.abs(c.y - cell.y) < 1e-3);
+  if (!match) throw new Error(`No imported cell at (${cell.x}, ${cell.y}) in frame ${frameIndex}`);
+  return match;
+};
+
+describe("TrackMate XML round trip", () => {
+  it("restores positions, radii, times, tracks, gaps and lineage", () => {
+    const original = linkedFrames();
+    const { frames, calibration } = roundTrip(original);
+
+    expect(frames).toHaveLength(original.length);
+    expect(calibration).toEqual({}); // Pixel units and 1 s frames declare no calibration
+
+    const idMap = new Map<number, number>();
+    original.forEach((f, i) => {
+      expect(frames[i].timestamp).toBeCloseTo(f.timestamp);
+      expect(frames[i].cellCount).toBe(f.cells.length);
+      f.cells.forEach(cell => {
+        const imported = counterpart(frames, i, cell);
+        expect(imported.r).toBeCloseTo(cell.r, 3);
+        expect(imported.gap ?? 0).toBe(cell.gap ?? 0);
+        expect(imported.generation ?? 0).toBe(cell.generation ?? 0);
+
+        // Track IDs may be renumbered, but must map one-to-one
+        const mapped = idMap.get(cell.id);
+        if (mapped === undefined) idMap.set(cell.id, imported.id);
+        else expect(imported.id).toBe(mapped);
+        if (cell.parentId !== undefined) expect(imported.parentId).toBe(idMap.get(cell.parentId));
+        else expect(imported.parentId).toBeUndefined();
+      });
+    });
+    expect(new Set(idMap.values()).size).toBe(idMap.size);
+
+    // The division and the bridged detection survived
+    expect(frames[2].cells.filter(c => c.parentId !== undefined)).toHaveLength(2);
+    expect(frames[3].cells.some(c => c.gap === 1)).toBe(true);
+  });
+
+  it("restores the physical calibration and calibrated radii", () => {
+    const original = linkedFrames();
+    const input: Calibration = { micronsPerPixel: 0.5, timeMode: 'perFrame', minutesPerVideoSecond: null, frameIntervalMinutes: 10, videoFps: 1 };
+    const { frames, calibration } = roundTrip(original, input);
+
+    expect(calibration.micronsPerPixel).toBe(0.5);
+    expect(calibration.timeMode).toBe('perFrame');
+    expect(calibration.frameIntervalMinutes).toBeCloseTo(10);
+    original.forEach((f, i) => {
+      expect(frames[i].timestamp).toBeCloseTo(f.timestamp);
+      f.cells.forEach(cell => expect(counterpart(frames, i, cell).r).toBeCloseTo(cell.r, 3));
+    });
+  });
+
+  it("rejects a file without a TrackMate model", () => {
+    expect(() => parseTrackMateXml('<?xml version="1.0"?><Other />', VIDEO)).toThrow(/TrackMate/);
+  });
+});
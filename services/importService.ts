@@ -0,0 +1,448 @@
+import { AnalysisResult, Calibration, Cell, FrameData, ImageSequence, VideoMetadata } from "../types";
+import { annotateExistingTracks, linkCellsAcrossFrames } from "./trackingService";
+import { BUILT_IN_LINKING, buildOfflineReport, buildReportStats } from "./reportService";
+import { loadVideoMetadata } from "./analysisService";
+import { describeCalibration, formatLength, formatTime } from "./calibrationService";
+
+// Radius (% of frame width) for detections that come without one
+const DEFAULT_RADIUS_PERCENT = 1.5;
+
+// Column aliases for tracks CSV files: our own export, TrackMate spot tables and CellProfiler object tables
+const CSV_COLUMNS = {
+  frame: ['frame', 'FRAME', 'ImageNumber', 't'],
+  time: ['time_s'],
+  track: ['track_id', 'TRACK_ID', 'track', 'TrackObjects_Label'],
+  parent: ['parent_id', 'PARENT_ID'],
+  xPercent: ['x_pct'],
+  yPercent: ['y_pct'],
+  rPercent: ['r_pct'],
+  xPixels: ['x_px', 'x', 'X', 'Location_Center_X', 'AreaShape_Center_X'],
+  yPixels: ['y_px', 'y', 'Y', 'Location_Center_Y', 'AreaShape_Center_Y'],
+  rPixels: ['r_px', 'r', 'radius'],
+  // TrackMate positions and radii are in the image's calibrated unit
+  xCalibrated: ['x_um', 'POSITION_X'],
+  yCalibrated: ['y_um', 'POSITION_Y'],
+  rCalibrated: ['r_um', 'RADIUS'],
+  status: ['status', 'STATUS']
+};
+
+// A detection in source-frame coordinates, before IDs are assigned
+interface ImportedSpot {
+  key: string;
+  frame: number;
+  x: number; // % of frame width
+  y: number; // % of frame height
+  r: number; // % of frame width
+  status?: string;
+  time?: number; // Acquisition time in the file's time unit (TrackMate POSITION_T)
+}
+
+interface ParsedTracks {
+  frames: FrameData[];
+  calibration: Partial<Calibration>; // Calibration found in the file, merged under the user's
+  linking: string;
+}
+
+// Helper: Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(v => v.trim() !== ''));
+};
+
+// Helper: Maps source frame indices to video seconds
+const createFrameClock = (frameCount: number, video: VideoMetadata, calibration?: Calibration) => {
+  // The calibration's video frame rate is exact; otherwise spread the frames over the video
+  const fps = calibration?.timeMode === 'perFrame' && calibration.videoFps
+    ? calibration.videoFps
+    : frameCount > 0 && video.duration > 0 ? frameCount / video.duration : 1;
+  return (frame: number) => frame / fps;
+};
+
+/**
+ * Builds frames from spots linked by edges (TrackMate's graph model).
+ * A chain of one-to-one links is one track; a spot with several successors is a division,
+ * whose daughters get new IDs with parentId set. Merges start a new track without a parent.
+ */
+const buildFramesFromGraph = (
+  spots: ImportedSpot[],
+  edges: [string, string][],
+  frameCount: number,
+  toTimestamp: (frame: number) => number
+): FrameData[] => {
+  const byKey = new Map(spots.map(s => [s.key, s]));
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  edges.forEach(([a, b]) => {
+    const sa = byKey.get(a);
+    const sb = byKey.get(b);
+    if (!sa || !sb || sa.frame === sb.frame) return;
+    // Edges are not necessarily stored in time order
+    const [from, to] = sa.frame < sb.frame ? [a, b] : [b, a];
+    successors.set(from, [...(successors.get(from) || []), to]);
+    predecessors.set(to, [...(predecessors.get(to) || []), from]);
+  });
+
+  const frames: FrameData[] = Array.from({ length: frameCount }, (_, i) => ({
+    timestamp: toTimestamp(i), cellCount: 0, cells: [], events: []
+  }));
+  const cellOf = new Map<string, Cell>();
+  let nextId = 1;
+
+  [...spots].sort((a, b) => a.frame - b.frame).forEach(spot => {
+    const preds = predecessors.get(spot.key) || [];
+    const pred = preds.length === 1 ? byKey.get(preds[0])! : null;
+    const predCell = pred ? cellOf.get(pred.key) : undefined;
+    const cell: Cell = { id: 0, x: spot.x, y: spot.y, r: spot.r, status: spot.status || 'Normal' };
+
+    if (pred && predCell && (successors.get(pred.key) || []).length === 1) {
+      cell.id = predCell.id;
+      cell.gap = spot.frame - pred.frame - 1;
+      if (predCell.parentId !== undefined) cell.parentId = predCell.parentId;
+      cell.generation = predCell.generation;
+    } else {
+      cell.id = nextId++;
+      cell.gap = 0;
+      if (pred && predCell) {
+        cell.parentId = predCell.id;
+        cell.generation = (predCell.generation ?? 0) + 1;
+      } else {
+        cell.generation = 0;
+      }
+    }
+
+    cellOf.set(spot.key, cell);
+    frames[spot.frame].cells.push(cell);
+  });
+
+  frames.forEach(f => { f.cellCount = f.cells.length; });
+  return frames;
+};
+
+/**
+ * Parses a TrackMate XML file (File > Save in TrackMate). Positions are converted from the image's
+ * calibrated unit to pixels with the stored pixel size; only filtered tracks are kept.
+ */
+export const parseTrackMateXml = (text: string, video: VideoMetadata, calibration?: Calibration): ParsedTracks => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.getElementsByTagName('Model').length === 0) {
+    throw new Error("Not a valid TrackMate XML file (no <Model> element found).");
+  }
+
+  const model = doc.getElementsByTagName('Model')[0];
+  const imageData = doc.getElementsByTagName('ImageData')[0];
+  const attr = (el: Element | undefined, name: string) => el ? parseFloat(el.getAttribute(name) || '') : NaN;
+
+  const pixelWidth = attr(imageData, 'pixelwidth') || 1;
+  const pixelHeight = attr(imageData, 'pixelheight') || pixelWidth;
+  const imageWidth = attr(imageData, 'width') || video.width;
+  const imageHeight = attr(imageData, 'height') || video.height;
+  if (!imageWidth || !imageHeight) throw new Error("Cannot determine the image size for the TrackMate coordinates.");
+
+  const spots: ImportedSpot[] = [];
+  Array.from(doc.getElementsByTagName('Spot')).forEach(el => {
+    const frame = parseInt(el.getAttribute('FRAME') || '', 10);
+    const x = attr(el, 'POSITION_X');
+    const y = attr(el, 'POSITION_Y');
+    if (!Number.isFinite(frame) || !Number.isFinite(x) || !Number.isFinite(y)) return;
+    const radius = attr(el, 'RADIUS');
+    const time = attr(el, 'POSITION_T');
+    spots.push({
+      key: el.getAttribute('ID') || `${spots.length}`,
+      frame,
+      x: (x / pixelWidth / imageWidth) * 100,
+      y: (y / pixelHeight / imageHeight) * 100,
+      r: Number.isFinite(radius) ? (radius / pixelWidth / imageWidth) * 100 : DEFAULT_RADIUS_PERCENT,
+      ...(Number.isFinite(time) ? { time } : {})
+    });
+  });
+  if (spots.length === 0) throw new Error("The TrackMate file contains no spots.");
+
+  // Edges of the tracks that survived TrackMate's track filters
+  const filteredIds = new Set(Array.from(doc.getElementsByTagName('TrackID')).map(el => el.getAttribute('TRACK_ID')));
+  const edges: [string, string][] = [];
+  const trackedSpots = new Set<string>();
+  Array.from(doc.getElementsByTagName('Track')).forEach(track => {
+    if (filteredIds.size > 0 && !filteredIds.has(track.getAttribute('TRACK_ID'))) return;
+    Array.from(track.getElementsByTagName('Edge')).forEach(edge => {
+      const source = edge.getAttribute('SPOT_SOURCE_ID') || '';
+      const target = edge.getAttribute('SPOT_TARGET_ID') || '';
+      edges.push([source, target]);
+      trackedSpots.add(source);
+      trackedSpots.add(target);
+    });
+  });
+
+  // Untracked spots are dropped once the file has tracks, as TrackMate itself does when displaying tracks
+  const keptSpots = trackedSpots.size > 0 ? spots.filter(s => trackedSpots.has(s.key)) : spots;
+  const frameCount = keptSpots.reduce((acc, s) => Math.max(acc, s.frame + 1), attr(imageData, 'nframes') || 0);
+
+  // Physical calibration stored with the TrackMate image. An uncalibrated image is saved with
+  // pixel units, a pixel size of 1 and a 1 "sec" frame interval, which declares no real time.
+  const found: Partial<Calibration> = {};
+  const spaceUnit = (model.getAttribute('spatialunits') || '').toLowerCase();
+  if (pixelWidth !== 1 && /micron|µm|um/.test(spaceUnit)) found.micronsPerPixel = pixelWidth;
+  const interval = attr(imageData, 'timeinterval');
+  const timeUnit = (model.getAttribute('timeunits') || '').toLowerCase();
+  const minutesPerUnit = /^h/.test(timeUnit) ? 60 : /^min/.test(timeUnit) ? 1 : /^s/.test(timeUnit) ? 1 / 60 : null;
+  const uncalibratedDefault = interval === 1 && /^s/.test(timeUnit) && (pixelWidth === 1 || /pixel/.test(spaceUnit));
+  if (Number.isFinite(interval) && interval > 0 && minutesPerUnit !== null && !uncalibratedDefault) {
+    found.timeMode = 'perFrame';
+    found.frameIntervalMinutes = interval * minutesPerUnit;
+  }
+
+  // Frames are timed by their spots' POSITION_T (in frame intervals on the video clock), so
+  // irregular acquisition times survive; frames without it fall back to their index
+  const toTimestamp = createFrameClock(frameCount, video, calibration);
+  const frameInterval = Number.isFinite(interval) && interval > 0 ? interval : 1;
+  const frames = buildFramesFromGraph(keptSpots, edges, frameCount, toTimestamp);
+  const timedFrames = new Set<number>();
+  keptSpots.forEach(spot => {
+    if (spot.time !== undefined && !timedFrames.has(spot.frame)) {
+      timedFrames.add(spot.frame);
+      frames[spot.frame].timestamp = toTimestamp(spot.time / frameInterval);
+    }
+  });
+  return {
+    frames,
+    calibration: found,
+    linking: 'TrackMate (imported spot-to-spot links)'
+  };
+};
+
+/**
+ * Parses a tracks CSV with one row per detection. Recognises this app's detections export,
+ * TrackMate spot tables and CellProfiler object tables (see CSV_COLUMNS).
+ * Without a track column the detections are linked with the built-in tracker.
+ */
+export const parseTracksCsv = (text: string, video: VideoMetadata, calibration?: Calibration): ParsedTracks => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new Error("The CSV file has no data rows.");
+
+  const header = rows[0].map(h => h.trim());
+  const find = (aliases: string[]) => {
+    for (const alias of aliases) {
+      // CellProfiler appends the tracking distance to its label column
+      const index = header.findIndex(h => h === alias || (alias.startsWith('TrackObjects_') && h.startsWith(alias)));
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const col = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([key, aliases]) => [key, find(aliases)])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  if (col.frame < 0 && col.time < 0) throw new Error("The CSV file needs a frame or time_s column.");
+
+  // Position columns in order of preference: % of frame, pixels, calibrated units
+  const micronsPerPixel = calibration?.micronsPerPixel ?? null;
+  let toPercentX: (v: number) => number;
+  let toPercentY: (v: number) => number;
+  let xCol: number;
+  let yCol: number;
+  if (col.xPercent >= 0 && col.yPercent >= 0) {
+    [xCol, yCol] = [col.xPercent, col.yPercent];
+    toPercentX = v => v;
+    toPercentY = v => v;
+  } else {
+    if (!video.width || !video.height) throw new Error("Cannot convert pixel positions without the video frame size.");
+    const usePixels = col.xPixels >= 0 && col.yPixels >= 0;
+    if (!usePixels && (col.xCalibrated < 0 || col.yCalibrated < 0)) {
+      throw new Error("The CSV file needs x/y position columns (e.g. x_px/y_px, POSITION_X/POSITION_Y or Location_Center_X/Y).");
+    }
+    // Calibrated positions without a pixel size are taken as pixels (TrackMate on an uncalibrated image)
+    const scale = usePixels ? 1 : 1 / (micronsPerPixel ?? 1);
+    [xCol, yCol] = usePixels ? [col.xPixels, col.yPixels] : [col.xCalibrated, col.yCalibrated];
+    toPercentX = v => (v * scale / video.width) * 100;
+    toPercentY = v => (v * scale / video.height) * 100;
+  }
+  const toPercentR = (row: string[]): number => {
+    const value = (index: number) => index >= 0 ? parseFloat(row[index]) : NaN;
+    if (Number.isFinite(value(col.rPercent))) return value(col.rPercent);
+    if (video.width && Number.isFinite(value(col.rPixels))) return (value(col.rPixels) / video.width) * 100;
+    // Like positions, calibrated radii without a pixel size are taken as pixels
+    if (video.width && Number.isFinite(value(col.rCalibrated))) {
+      return (value(col.rCalibrated) / (micronsPerPixel ?? 1) / video.width) * 100;
+    }
+    return DEFAULT_RADIUS_PERCENT;
+  };
+
+  // Data rows; TrackMate's extra header rows (names, units) fail the numeric check and are skipped
+  interface CsvDetection { frame: number; time: number | null; track: string | null; parent: string | null; x: number; y: number; r: number; status?: string }
+  const detections: CsvDetection[] = [];
+  rows.slice(1).forEach(row => {
+    const frameValue = col.frame >= 0 ? parseFloat(row[col.frame]) : NaN;
+    const timeValue = col.time >= 0 ? parseFloat(row[col.time]) : NaN;
+    const x = parseFloat(row[xCol]);
+    const y = parseFloat(row[yCol]);
+    if ((!Number.isFinite(frameValue) && !Number.isFinite(timeValue)) || !Number.isFinite(x) || !Number.isFinite(y)) return;
+    const track = col.track >= 0 ? row[col.track]?.trim() : '';
+    const parent = col.parent >= 0 ? row[col.parent]?.trim() : '';
+    detections.push({
+      frame: frameValue,
+      time: Number.isFinite(timeValue) ? timeValue : null,
+      track: track && track !== 'None' ? track : null,
+      parent: parent && parent !== 'None' ? parent : null,
+      x: toPercentX(x),
+      y: toPercentY(y),
+      r: toPercentR(row),
+      status: col.status >= 0 && row[col.status]?.trim() ? row[col.status].trim() : undefined
+    });
+  });
+  if (detections.length === 0) throw new Error("No detection rows with a frame and position were found in the CSV file.");
+
+  // Frame indices start at 0 (CellProfiler's ImageNumber starts at 1); a time-only file gets one frame per distinct time
+  const timeOnly = col.frame < 0;
+  const timeIndex = new Map<number, number>(
+    timeOnly ? [...new Set(detections.map(d => d.time!))].sort((a, b) => a - b).map((t, i) => [t, i]) : []
+  );
+  const firstFrame = timeOnly ? 0 : detections.reduce((acc, d) => Math.min(acc, d.frame), Infinity);
+  const frameIndexOf = (d: CsvDetection) => timeOnly ? timeIndex.get(d.time!)! : Math.round(d.frame - firstFrame);
+  const frameCount = detections.reduce((acc, d) => Math.max(acc, frameIndexOf(d) + 1), 0);
+
+  const clock = createFrameClock(frameCount, video, calibration);
+  const frames: FrameData[] = Array.from({ length: frameCount }, (_, i) => ({
+    timestamp: clock(i), cellCount: 0, cells: [], events: []
+  }));
+  detections.forEach(d => {
+    const index = frameIndexOf(d);
+    if (d.time !== null) frames[index].timestamp = d.time;
+  });
+
+  const hasTracks = col.track >= 0 && detections.some(d => d.track !== null);
+
+  // Keep numeric track IDs (shifted to start at 1), otherwise number tracks in order of appearance
+  const trackKeys = [...new Set(detections.filter(d => d.track !== null).map(d => d.track!))];
+  const numeric = trackKeys.length > 0 && trackKeys.every(k => /^\d+$/.test(k));
+  const offset = numeric && trackKeys.some(k => parseInt(k, 10) === 0) ? 1 : 0;
+  const idOf = new Map<string, number>(trackKeys.map((k, i) => [k, numeric ? parseInt(k, 10) + offset : i + 1]));
+  let nextId = Math.max(0, ...idOf.values()) + 1;
+
+  const seenInFrame = new Set<string>();
+  detections.forEach(d => {
+    const index = frameIndexOf(d);
+    const cell: Cell = { id: 0, x: d.x, y: d.y, r: d.r, status: d.status || 'Normal' };
+    if (hasTracks && d.track !== null) {
+      // TrackMate's spot table labels a whole division tree with one TRACK_ID
+      if (seenInFrame.has(`${index}:${d.track}`)) {
+        throw new Error(`Track ${d.track} has several detections in frame ${index}. Import branching tracks as TrackMate XML instead.`);
+      }
+      seenInFrame.add(`${index}:${d.track}`);
+      cell.id = idOf.get(d.track)!;
+      if (d.parent !== null && idOf.has(d.parent)) cell.parentId = idOf.get(d.parent);
+    } else {
+      cell.id = nextId++;
+    }
+    frames[index].cells.push(cell);
+  });
+
+  frames.forEach(f => { f.cellCount = f.cells.length; });
+
+  if (!hasTracks) {
+    return { frames: linkCellsAcrossFrames(frames), calibration: {}, linking: BUILT_IN_LINKING };
+  }
+
+  // Gaps and generations from the imported IDs
+  const parentOf = new Map<number, number>();
+  frames.forEach(f => f.cells.forEach(c => { if (c.parentId !== undefined) parentOf.set(c.id, c.parentId); }));
+  const generationOf = (id: number, depth = 0): number => {
+    const parentId = parentOf.get(id);
+    // Depth guard against parent cycles in malformed files
+    return parentId === undefined || depth > 100 ? 0 : generationOf(parentId, depth + 1) + 1;
+  };
+  const lastFrameOf = new Map<number, number>();
+  frames.forEach((frame, index) => frame.cells.forEach(cell => {
+    const last = lastFrameOf.get(cell.id);
+    cell.gap = last === undefined ? 0 : index - last - 1;
+    lastFrameOf.set(cell.id, index);
+    cell.generation = generationOf(cell.id);
+  }));
+
+  return { frames, calibration: {}, linking: 'an external tracker (imported track IDs)' };
+};
+
+// Helper: Values the user entered win over those read from the file
+const mergeCalibration = (user: Calibration | undefined, found: Partial<Calibration>, frameCount: number, video: VideoMetadata): Calibration | undefined => {
+  if (Object.keys(found).length === 0) return user;
+  const merged: Calibration = {
+    micronsPerPixel: user?.micronsPerPixel ?? found.micronsPerPixel ?? null,
+    timeMode: user?.timeMode ?? 'perVideoSecond',
+    minutesPerVideoSecond: user?.minutesPerVideoSecond ?? null,
+    frameIntervalMinutes: user?.frameIntervalMinutes ?? null,
+    videoFps: user?.videoFps ?? null
+  };
+  const userHasTime = merged.timeMode === 'perFrame'
+    ? merged.frameIntervalMinutes !== null && merged.videoFps !== null
+    : merged.minutesPerVideoSecond !== null;
+  if (!userHasTime && found.frameIntervalMinutes) {
+    merged.timeMode = 'perFrame';
+    merged.frameIntervalMinutes = found.frameIntervalMinutes;
+    merged.videoFps = merged.videoFps ?? (video.duration > 0 ? frameCount / video.duration : null);
+  }
+  return merged;
+};
+
+/**
+ * Loads tracks produced by another tool for a video and builds the same result an analysis would,
+ * so the dashboard can display and compare tracks from any source.
+ */
+export const importTrackingResults = async (
+  videoFile: File | ImageSequence,
+  tracksFile: File,
+  onProgress: (progress: number, message: string) => void,
+  calibration?: Calibration
+): Promise<AnalysisResult> => {
+  onProgress(10, "Reading video metadata...");
+  const video = await loadVideoMetadata(videoFile);
+
+  onProgress(30, `Parsing ${tracksFile.name}...`);
+  const text = await tracksFile.text();
+  const isXml = tracksFile.name.toLowerCase().endsWith('.xml') || text.trimStart().startsWith('<');
+  const parsed = isXml ? parseTrackMateXml(text, video, calibration) : parseTracksCsv(text, video, calibration);
+  const { frames } = parsed;
+
+  onProgress(70, "Rebuilding trails, track boundaries and lineage events...");
+  if (parsed.linking !== BUILT_IN_LINKING) annotateExistingTracks(frames);
+  const effectiveCalibration = mergeCalibration(calibration, parsed.calibration, frames.length, video);
+
+  onProgress(90, "Summarizing imported tracks...");
+  const source = isXml ? 'TrackMate XML' : 'tracks CSV';
+  const stats = buildReportStats(frames, `${source} import (${tracksFile.name})`, effectiveCalibration, video, parsed.linking);
+  const trackCount = new Set(frames.flatMap(f => f.cells.map(c => c.id))).size;
+  const allCells = frames.flatMap(f => f.cells);
+  const avgRadius = allCells.reduce((acc, c) => acc + c.r, 0) / (allCells.length || 1);
+  const duration = frames[frames.length - 1]?.timestamp || 0;
+  const summary = `Imported ${trackCount} tracks (${allCells.length} detections in ${frames.length} frames) from ${tracksFile.name} over ${formatTime(duration, effectiveCalibration)}. Mean cell radius: ${formatLength(avgRadius, effectiveCalibration, video)}. Calibration: ${describeCalibration(effectiveCalibration, video)}.`;
+
+  onProgress(100, "Import Complete!");
+  return {
+    frames,
+    summary,
+    extendedReport: buildOfflineReport(stats),
+    video,
+    calibration: effectiveCalibration
+  };
+};
@@ -0,0 +1,208 @@
+import { EventType, FrameData, ImageSequence, TrackEndReason, TrackStartReason } from "../types";
+import { isUsableFrame } from "./frameStatusService";
+import { buildLineage } from "./lineageService";
+import { getSequenceFrameIndex, loadImage } from "./imageSequenceService";
+import { involvesCell } from "./eventService";
+
+// Side of a cell crop in the inspector gallery (px)
+export const CROP_SIZE = 96;
+// A crop shows this many radii around the cell centre, so neighbours and context stay visible
+const CROP_RADII = 2.5;
+// Crops are never narrower than this (source px), so tiny or mis-sized cells are still recognisable
+const MIN_CROP_SOURCE_PX = 24;
+// Long tracks get crops from evenly spread detections only
+export const MAX_CROPS = 48;
+// Seeking for crops must finish within this time per frame
+const CROP_SEEK_TIMEOUT_MS = 3000;
+
+// One detection of a track
+export interface TrackPoint {
+  frameIndex: number;
+  timestamp: number;
+  x: number;
+  y: number;
+  r: number;
+  status: string;
+  confidence?: number;
+  gap?: number; // Sampled frames bridged right before this detection
+}
+
+export interface TrackEvent {
+  timestamp: number;
+  type: string; // An EventType, or a track milestone ('Track start', 'Status', 'Gap', 'Track end')
+  description: string;
+}
+
+export interface TrackProfile {
+  id: number;
+  points: TrackPoint[];
+  startReason?: TrackStartReason;
+  endReason?: TrackEndReason;
+  parentId?: number;
+  childIds: number[];
+  generation: number;
+  events: TrackEvent[];
+  eventCounts: Partial<Record<EventType, number>>; // Frame events the cell took part in, by type
+}
+
+const START_DESCRIPTIONS: Record<TrackStartReason, string> = {
+  initial: 'Present in the first sampled frame',
+  entered: 'Entered the field of view',
+  division: 'Born by division',
+  appeared: 'Appeared inside the field'
+};
+
+const END_DESCRIPTIONS: Record<TrackEndReason, string> = {
+  final: 'Present in the last sampled frame',
+  exited: 'Left the field of view',
+  divided: 'Divided',
+  lost: 'Lost inside the field'
+};
+
+/**
+ * Everything known about one track: every detection (not only the trail kept on the cell), its
+ * lineage, and its events. Events are the start and end of the track, status changes, and the
+ * frame events the cell took part in.
+ */
+export const buildTrackProfile = (frames: FrameData[], trackId: number): TrackProfile | null => {
+  const points: TrackPoint[] = [];
+  let startReason: TrackStartReason | undefined;
+  let endReason: TrackEndReason | undefined;
+  const events: TrackEvent[] = [];
+  const eventCounts: Partial<Record<EventType, number>> = {};
+
+  frames.forEach((frame, frameIndex) => {
+    if (!isUsableFrame(frame)) return;
+    const cell = frame.cells.find(c => c.id === trackId);
+    if (cell) {
+      points.push({
+        frameIndex,
+        timestamp: frame.timestamp,
+        x: cell.x,
+        y: cell.y,
+        r: cell.r,
+        status: cell.status || 'Normal',
+        confidence: cell.confidence,
+        gap: cell.gap
+      });
+      if (cell.trackStart) startReason = cell.trackStart;
+      if (cell.trackEnd) endReason = cell.trackEnd;
+    }
+    frame.events
+      .filter(e => involvesCell(e, trackId))
+      .forEach(e => {
+        events.push({ timestamp: frame.timestamp, type: e.type, description: e.description });
+        eventCounts[e.type] = (eventCounts[e.type] ?? 0) + 1;
+      });
+  });
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (startReason) events.push({ timestamp: first.timestamp, type: 'Track start', description: START_DESCRIPTIONS[startReason] });
+  points.forEach((point, i) => {
+    if (i > 0 && point.status !== points[i - 1].status) {
+      events.push({ timestamp: point.timestamp, type: 'Status', description: `${points[i - 1].status} → ${point.status}` });
+    }
+    if (point.gap) {
+      events.push({ timestamp: point.timestamp, type: 'Gap', description: `Missed in ${point.gap} sampled frame${point.gap === 1 ? '' : 's'} before this detection` });
+    }
+  });
+  if (endReason) events.push({ timestamp: last.timestamp, type: 'Track end', description: END_DESCRIPTIONS[endReason] });
+  events.sort((a, b) => a.timestamp - b.timestamp);
+
+  const node = buildLineage(frames).find(n => n.id === trackId);
+  return {
+    id: trackId,
+    points,
+    startReason,
+    endReason,
+    parentId: node?.parentId,
+    childIds: node?.childIds ?? [],
+    generation: node?.generation ?? 0,
+    events,
+    eventCounts
+  };
+};
+
+// Helper: Detections to crop: all of a short track, evenly spread ones of a long track
+export const selectCropPoints = (points: TrackPoint[]): TrackPoint[] => {
+  if (points.length <= MAX_CROPS) return points;
+  return Array.from({ length: MAX_CROPS }, (_, i) => points[Math.round((i * (points.length - 1)) / (MAX_CROPS - 1))]);
+};
+
+// Helper: Draws the square around a detection from a decoded frame and returns it as a data URL
+const drawCrop = (image: CanvasImageSource, width: number, height: number, point: TrackPoint, canvas: HTMLCanvasElement): string => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  const side = Math.max(MIN_CROP_SOURCE_PX, (point.r / 100) * width * CROP_RADII * 2);
+  const sx = (point.x / 100) * width - side / 2;
+  const sy = (point.y / 100) * height - side / 2;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, CROP_SIZE, CROP_SIZE);
+  ctx.drawImage(image, sx, sy, side, side, 0, 0, CROP_SIZE, CROP_SIZE);
+  // Outline of the detection
+  const scale = CROP_SIZE / side;
+  ctx.strokeStyle = 'rgba(52, 211, 153, 0.8)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(CROP_SIZE / 2, CROP_SIZE / 2, Math.max(2, (point.r / 100) * width * scale), 0, 2 * Math.PI);
+  ctx.stroke();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/**
+ * Crops the cell from the footage at each given detection, calling onCrop as each one is ready
+ * so the gallery fills progressively. Stops early when `isCancelled` turns true.
+ */
+export const extractCellCrops = async (
+  source: { videoUrl: string | null; sequence: ImageSequence | null },
+  points: TrackPoint[],
+  onCrop: (point: TrackPoint, url: string) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CROP_SIZE;
+  canvas.height = CROP_SIZE;
+
+  if (source.sequence) {
+    const sequence = source.sequence;
+    for (const point of points) {
+      if (isCancelled()) return;
+      const image = await loadImage(sequence.frameUrls[getSequenceFrameIndex(sequence, point.timestamp)]);
+      onCrop(point, drawCrop(image, image.naturalWidth, image.naturalHeight, point, canvas));
+    }
+    return;
+  }
+  if (!source.videoUrl) return;
+
+  // A private video element, so the player's playback position is left alone
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = source.videoUrl;
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error("Could not load the video for cell crops."));
+  });
+
+  const seekTo = (time: number) => new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`Seeking to ${time.toFixed(2)}s timed out.`)), CROP_SEEK_TIMEOUT_MS);
+    video.onseeked = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    video.currentTime = time;
+  });
+
+  try {
+    for (const point of points) {
+      if (isCancelled()) return;
+      await seekTo(point.timestamp);
+      onCrop(point, drawCrop(video, video.videoWidth, video.videoHeight, point, canvas));
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
@@ -0,0 +1,99 @@
+import { Cell, FrameData } from "../types";
+import { isUsableFrame } from "./frameStatusService";
+
+// Playback within this distance (s) of a sampled frame shows that frame as observed
+export const OBSERVED_TOLERANCE = 0.02;
+
+// A cell as drawn at a playback time between two sampled frames
+export interface DisplayedCell {
+  cell: Cell; // Interpolated position and radius; status and trail of the nearer sampled frame
+  alpha: number; // 1, or fading for cells present in only one of the two frames
+  interpolated: boolean;
+}
+
+export interface DisplayedFrame {
+  cells: DisplayedCell[];
+  observed: boolean; // Playback sits on a sampled frame
+  from: number; // Timestamps of the bracketing sampled frames (equal when observed)
+  to: number;
+}
+
+/**
+ * Index of the last frame at or before `time` (-1 before the first), by binary search.
+ * Frames are in timestamp order, as sampled.
+ */
+export const findFrameBefore = (frames: FrameData[], time: number): number => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].timestamp <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Index of the sampled frame closest to a playback time (-1 without frames), by binary search
+export const findClosestFrameIndex = (frames: FrameData[], time: number): number => {
+  if (frames.length === 0) return -1;
+  const before = findFrameBefore(frames, time);
+  if (before < 0) return 0;
+  if (before === frames.length - 1) return before;
+  return time - frames[before].timestamp <= frames[before + 1].timestamp - time ? before : before + 1;
+};
+
+// Cells of one sampled frame as observed
+export const observedFrame = (frame: FrameData): DisplayedFrame => ({
+  cells: frame.cells.map(cell => ({ cell, alpha: 1, interpolated: false })),
+  observed: true,
+  from: frame.timestamp,
+  to: frame.timestamp
+});
+
+/**
+ * What to draw at a playback time. Between two usable sampled frames, cells of the same track
+ * are moved and resized linearly; cells only in the earlier frame fade out and cells only in the
+ * later one fade in. Near a sampled frame, before the first or after the last, and next to a
+ * failed frame (nothing to interpolate towards) the nearest sampled frame is shown as observed.
+ */
+export const interpolateFrame = (frames: FrameData[], time: number): DisplayedFrame | null => {
+  const closest = findClosestFrameIndex(frames, time);
+  if (closest < 0) return null;
+  if (Math.abs(frames[closest].timestamp - time) <= OBSERVED_TOLERANCE) return observedFrame(frames[closest]);
+
+  const before = findFrameBefore(frames, time);
+  const a = frames[before];
+  const b = frames[before + 1];
+  if (!a || !b || !isUsableFrame(a) || !isUsableFrame(b) || b.timestamp <= a.timestamp) return observedFrame(frames[closest]);
+
+  const f = (time - a.timestamp) / (b.timestamp - a.timestamp);
+  const next = new Map(b.cells.map(cell => [cell.id, cell]));
+  const cells: DisplayedCell[] = [];
+  a.cells.forEach(start => {
+    const end = next.get(start.id);
+    if (!end) {
+      cells.push({ cell: start, alpha: 1 - f, interpolated: true });
+      return;
+    }
+    next.delete(start.id);
+    const nearer = f < 0.5 ? start : end;
+    cells.push({
+      cell: {
+        ...nearer,
+        x: start.x + (end.x - start.x) * f,
+        y: start.y + (end.y - start.y) * f,
+        r: start.r + (end.r - start.r) * f
+      },
+      alpha: 1,
+      interpolated: true
+    });
+  });
+  next.forEach(end => cells.push({ cell: end, alpha: f, interpolated: true }));
+
+  return { cells, observed: false, from: a.timestamp, to: b.timestamp };
+};
@@ -0,0 +1,82 @@
+import { FrameData, LineageNode } from "../types";
+
+/**
+ * Collapses the linked frames into one node per track, with parent/child links
+ * and per-cell division timing. Nodes are returned in depth-first tree order
+ * (founders by start time, daughters directly below their mother).
+ */
+export const buildLineage = (frames: FrameData[]): LineageNode[] => {
+  const nodes = new Map<number, LineageNode>();
+
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    const node = nodes.get(cell.id);
+    if (node) {
+      node.endTime = frame.timestamp;
+      return;
+    }
+    nodes.set(cell.id, {
+      id: cell.id,
+      parentId: cell.parentId,
+      rootId: cell.id,
+      generation: cell.generation || 0,
+      startTime: frame.timestamp,
+      endTime: frame.timestamp,
+      childIds: []
+    });
+  }));
+
+  nodes.forEach(node => {
+    if (node.parentId === undefined) return;
+    const parent = nodes.get(node.parentId);
+    if (!parent) return;
+    parent.childIds.push(node.id);
+    // Division happens when the first daughter is seen
+    parent.divisionTime = Math.min(parent.divisionTime ?? Infinity, node.startTime);
+  });
+
+  // Cell cycle: only measurable between two observed divisions
+  nodes.forEach(node => {
+    if (node.parentId !== undefined && node.divisionTime !== undefined) {
+      node.cycleDuration = node.divisionTime - node.startTime;
+    }
+  });
+
+  const ordered: LineageNode[] = [];
+  const visit = (node: LineageNode, rootId: number) => {
+    node.rootId = rootId;
+    ordered.push(node);
+    node.childIds
+      .map(id => nodes.get(id)!)
+      .sort((a, b) => a.startTime - b.startTime || a.id - b.id)
+      .forEach(child => visit(child, rootId));
+  };
+
+  [...nodes.values()]
+    .filter(node => node.parentId === undefined || !nodes.has(node.parentId))
+    .sort((a, b) => a.startTime - b.startTime || a.id - b.id)
+    .forEach(root => visit(root, root.id));
+
+  return ordered;
+};
+
+/**
+ * Division statistics for reports and the lineage panel.
+ */
+export const summarizeLineage = (nodes: LineageNode[]) => {
+  const dividedNodes = nodes.filter(n => n.childIds.length > 0);
+  const cycleDurations = nodes
+    .filter(n => n.cycleDuration !== undefined)
+    .map(n => n.cycleDuration!);
+
+  const meanCycleDuration = cycleDurations.length > 0
+    ? cycleDurations.reduce((acc, d) => acc + d, 0) / cycleDurations.length
+    : null;
+
+  return {
+    divisions: dividedNodes.length,
+    dividingLineages: new Set(dividedNodes.map(n => n.rootId)).size,
+    maxGeneration: nodes.reduce((acc, n) => Math.max(acc, n.generation), 0),
+    meanCycleDuration,
+    cycleDurations
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { Calibration, Cell, FrameData } from "../types";
+import { computeMotility } from "./motilityService";
+
+// Helper: Frames one second apart with the given cells, all of track 1 unless set
+const framesOf = (cellsPerFrame: Partial<Cell>[][]): FrameData[] => cellsPerFrame.map((cells, t) => ({
+  timestamp: t,
+  cellCount: cells.length,
+  cells: cells.map(c => ({ id: 1, x: 50, y: 50, r: 2, ...c })),
+  events: []
+}));
+
+describe("computeMotility", () => {
+  it("measures a straight, steady track", () => {
+    const motility = computeMotility(framesOf([0, 1, 2, 3, 4].map(t => [{ x: 10 + 2 * t, y: 50 }])));
+
+    expect(motility.units).toEqual({ length: '% frame', time: 's', speed: '%/s' });
+    const [track] = motility.tracks;
+    expect(track.points).toBe(5);
+    expect(track.pathLength).toBeCloseTo(8);
+    expect(track.netDisplacement).toBeCloseTo(8);
+    expect(track.directionality).toBeCloseTo(1);
+    expect(track.meanSpeed).toBeCloseTo(2);
+    expect(track.turningAngles.every(a => Math.abs(a) < 1e-9)).toBe(true);
+    expect(motility.msdExponent).toBeCloseTo(2);
+  });
+
+  it("signs turning angles and lowers directionality for a detour", () => {
+    const motility = computeMotility(framesOf([[{ x: 10, y: 10 }], [{ x: 20, y: 10 }], [{ x: 20, y: 20 }]]));
+
+    const [track] = motility.tracks;
+    expect(track.turningAngles).toHaveLength(1);
+    expect(track.turningAngles[0]).toBeCloseTo(90);
+    expect(track.directionality).toBeCloseTo(Math.SQRT2 / 2);
+  });
+
+  it("bins MSD pairs by their time apart across missed detections", () => {
+    // Missed at t = 2: the pair (1, 3) is two intervals apart, not one
+    const cells = [0, 1, 2, 3, 4, 5].map(t => t === 2 ? [] : [{ x: 10 + t, y: 50 }]);
+    const motility = computeMotility(framesOf(cells));
+
+    motility.msd.forEach(point => {
+      expect(point.lagTime).toBeCloseTo(point.lagSteps);
+      expect(point.msd).toBeCloseTo(point.lagSteps * point.lagSteps);
+    });
+    expect(motility.msd.find(p => p.lagSteps === 1)?.pairs).toBe(3);
+  });
+
+  it("reports µm and minutes when calibrated", () => {
+    const calibration: Calibration = { micronsPerPixel: 2, timeMode: 'perVideoSecond', minutesPerVideoSecond: 10, frameIntervalMinutes: null, videoFps: null };
+    const frames = framesOf([0, 1, 2].map(t => [{ x: 10 + t, y: 50 }]));
+    const motility = computeMotility(frames, calibration, { width: 100, height: 100, duration: 3 });
+
+    expect(motility.units.speed).toBe('µm/min');
+    // 1 % of a 100 px frame = 1 px = 2 µm per 10 min
+    expect(motility.tracks[0].meanSpeed).toBeCloseTo(0.2);
+  });
+
+  it("skips tracks too short to measure", () => {
+    expect(computeMotility(framesOf([[{}], [{}]])).tracks).toEqual([]);
+  });
+});
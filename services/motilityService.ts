@@ -0,0 +1,154 @@
+import { Calibration, FrameData, MotilitySummary, MsdPoint, TrackMotility, VideoMetadata } from "../types";
+import { distanceToMicrons, getRealSecondsPerVideoSecond, isSpaceCalibrated } from "./calibrationService";
+
+// Tracks need at least this many detections to say anything about motion
+const MIN_TRACK_POINTS = 3;
+// MSD lags beyond this many sampling intervals rest on too few pairs to be useful
+const MAX_MSD_LAG = 10;
+// Pairs whose time apart is further than this fraction of an interval from a whole lag are left out
+// of the MSD, so missed detections and uneven sampling never mix different lags in one bin
+const MSD_LAG_TOLERANCE = 0.25;
+// Lags used for the log-log fit of the MSD exponent (the short-lag regime is the most reliable)
+const MSD_FIT_LAGS = 4;
+
+interface TrackPoint {
+  t: number; // Video seconds
+  x: number; // % of frame width
+  y: number; // % of frame height
+}
+
+// Helper: Arithmetic mean, null for empty input
+const mean = (values: number[]): number | null => {
+  return values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+};
+
+// Helper: Median of the gaps between consecutive frames (video seconds), the MSD lag unit
+const getSamplingInterval = (frames: FrameData[]): number | null => {
+  const gaps = frames.slice(1).map((frame, i) => frame.timestamp - frames[i].timestamp).filter(dt => dt > 0).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : null;
+};
+
+// Helper: Least-squares slope of log(msd) against log(lag)
+const fitMsdExponent = (msd: MsdPoint[]): number | null => {
+  const points = msd.filter(p => p.msd > 0 && p.lagTime > 0).slice(0, MSD_FIT_LAGS);
+  if (points.length < 2) return null;
+  const xs = points.map(p => Math.log(p.lagTime));
+  const ys = points.map(p => Math.log(p.msd));
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  const sxx = xs.reduce((acc, x) => acc + (x - mx) * (x - mx), 0);
+  if (sxx === 0) return null;
+  return xs.reduce((acc, x, i) => acc + (x - mx) * (ys[i] - my), 0) / sxx;
+};
+
+/**
+ * Computes per-track and population motility from the linked frames:
+ * speeds, path length, net displacement, directionality ratio, turning angles and MSD vs. lag.
+ * Uses µm and minutes when calibrated, otherwise frame % and video seconds.
+ */
+export const computeMotility = (frames: FrameData[], calibration?: Calibration, video?: VideoMetadata): MotilitySummary => {
+  const spatial = isSpaceCalibrated(calibration, video);
+  const timeScale = getRealSecondsPerVideoSecond(calibration);
+
+  const units = {
+    length: spatial ? 'µm' : '% frame',
+    time: timeScale !== null ? 'min' : 's',
+    speed: `${spatial ? 'µm' : '%'}/${timeScale !== null ? 'min' : 's'}`
+  };
+  const toLength = (dx: number, dy: number) => spatial ? distanceToMicrons(dx, dy, calibration, video)! : Math.hypot(dx, dy);
+  const toTime = (videoSeconds: number) => timeScale !== null ? (videoSeconds * timeScale) / 60 : videoSeconds;
+
+  // Collect centroid series per track (frames are in time order)
+  const series = new Map<number, TrackPoint[]>();
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    const points = series.get(cell.id) || [];
+    points.push({ t: frame.timestamp, x: cell.x, y: cell.y });
+    series.set(cell.id, points);
+  }));
+
+  const tracks: TrackMotility[] = [];
+  const interval = getSamplingInterval(frames);
+  const msdAccumulator = new Map<number, { sumSq: number; sumLag: number; pairs: number }>();
+
+  series.forEach((points, id) => {
+    if (points.length < MIN_TRACK_POINTS) return;
+
+    const speeds: number[] = [];
+    const turningAngles: number[] = [];
+    let pathLength = 0;
+
+    for (let i = 1; i < points.length; i++) {
+      const step = toLength(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+      const dt = toTime(points[i].t - points[i - 1].t);
+      pathLength += step;
+      if (dt > 0) speeds.push(step / dt);
+
+      if (i >= 2) {
+        const a1 = Math.atan2(points[i - 1].y - points[i - 2].y, points[i - 1].x - points[i - 2].x);
+        const a2 = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+        // Wrap into (-180, 180]
+        let turn = ((a2 - a1) * 180) / Math.PI;
+        while (turn > 180) turn -= 360;
+        while (turn <= -180) turn += 360;
+        turningAngles.push(turn);
+      }
+    }
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const netDisplacement = toLength(last.x - first.x, last.y - first.y);
+    const duration = toTime(last.t - first.t);
+
+    tracks.push({
+      id,
+      points: points.length,
+      startTime: first.t,
+      endTime: last.t,
+      duration,
+      pathLength,
+      netDisplacement,
+      directionality: pathLength > 0 ? netDisplacement / pathLength : 0,
+      meanSpeed: duration > 0 ? pathLength / duration : 0,
+      instantaneousSpeeds: speeds,
+      turningAngles
+    });
+
+    // MSD over all pairs within this track, binned by their time apart in sampling intervals
+    if (interval === null) return;
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const steps = (points[j].t - points[i].t) / interval;
+        const lag = Math.round(steps);
+        if (lag > MAX_MSD_LAG) break;
+        if (lag < 1 || Math.abs(steps - lag) > MSD_LAG_TOLERANCE) continue;
+        const acc = msdAccumulator.get(lag) || { sumSq: 0, sumLag: 0, pairs: 0 };
+        const d = toLength(points[j].x - points[i].x, points[j].y - points[i].y);
+        acc.sumSq += d * d;
+        acc.sumLag += toTime(points[j].t - points[i].t);
+        acc.pairs++;
+        msdAccumulator.set(lag, acc);
+      }
+    }
+  });
+
+  const msd: MsdPoint[] = [...msdAccumulator.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([lagSteps, acc]) => ({
+      lagSteps,
+      lagTime: acc.sumLag / acc.pairs,
+      msd: acc.sumSq / acc.pairs,
+      pairs: acc.pairs
+    }));
+
+  return {
+    units,
+    tracks,
+    meanSpeed: mean(tracks.map(t => t.meanSpeed)),
+    meanPathLength: mean(tracks.map(t => t.pathLength)),
+    meanNetDisplacement: mean(tracks.map(t => t.netDisplacement)),
+    meanDirectionality: mean(tracks.map(t => t.directionality)),
+    meanAbsTurningAngle: mean(tracks.flatMap(t => t.turningAngles.map(a => Math.abs(a)))),
+    msd,
+    msdExponent: fitMsdExponent(msd)
+  };
+};
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnalysisResult, AnalysisSettings } from "../types";
+import { createProject, getVideoReference, parseProject, serializeProject } from "./projectService";
+
+const RESULT: AnalysisResult = { frames: [], summary: 'Nothing to see', extendedReport: '' };
+const SETTINGS: AnalysisSettings = {
+  source: 'simulated',
+  calibration: { micronsPerPixel: null, timeMode: 'perVideoSecond', minutesPerVideoSecond: null, frameIntervalMinutes: null, videoFps: null }
+};
+
+describe("getVideoReference", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("fingerprints the footage", async () => {
+    const video = new File([new Uint8Array([1, 2, 3])], 'culture.mp4', { lastModified: 1000 });
+    const reference = await getVideoReference(video);
+
+    expect(reference).toMatchObject({ name: 'culture.mp4', size: 3, lastModified: 1000 });
+    expect(reference.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("leaves the fingerprint out where Web Crypto is unavailable", async () => {
+    vi.stubGlobal('crypto', {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const video = new File([new Uint8Array([1, 2, 3])], 'culture.mp4', { lastModified: 1000 });
+
+    expect(await getVideoReference(video)).toEqual({ name: 'culture.mp4', size: 3, lastModified: 1000, fingerprint: null });
+  });
+});
+
+describe("parseProject", () => {
+  it("reads back a project without a video fingerprint", () => {
+    const project = createProject(RESULT, SETTINGS, { name: 'culture.mp4', size: 3, lastModified: 1000, fingerprint: null });
+
+    expect(parseProject(serializeProject(project))).toEqual(project);
+  });
+
+  it("rejects a project without a video reference", () => {
+    const { video: _video, ...incomplete } = createProject(RESULT, SETTINGS, { name: 'culture.mp4', size: 3, lastModified: 1000, fingerprint: 'ab' });
+
+    expect(() => parseProject(JSON.stringify(incomplete))).toThrow(/incomplete/);
+  });
+});
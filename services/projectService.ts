@@ -0,0 +1,210 @@
+import { AnalysisResult, AnalysisSettings, FrameData, ImageSequence, LibraryEntry, ProjectFile, VideoReference } from "../types";
+import { buildLineage, summarizeLineage } from "./lineageService";
+import { deleteRecord, getAllRecords, getRecord, putRecord } from "./storageService";
+import { isImageSequence, loadImage } from "./imageSequenceService";
+import { isUsableFrame } from "./frameStatusService";
+
+const PROJECT_FORMAT = 'celltracker-project';
+const PROJECT_VERSION = 1;
+// Bytes hashed from each end of the video for the fingerprint
+const FINGERPRINT_CHUNK = 1024 * 1024;
+// Library thumbnails are small JPEGs stored inline
+const THUMBNAIL_WIDTH = 160;
+
+// Helper: Hex encoding of a digest
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Identifies a video without hashing all of it: SHA-256 over the size and the first and last MiB.
+ * Cheap for multi-GB files and stable across renames. For an image sequence the names and sizes
+ * of all files are hashed, plus the head of the first and the tail of the last file.
+ * Throws where Web Crypto is unavailable (insecure origins such as plain http on a LAN address).
+ */
+export const fingerprintVideo = async (source: File | ImageSequence): Promise<VideoReference> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error("Web Crypto is not available on this origin; the footage cannot be fingerprinted.");
+  }
+  const files = isImageSequence(source) ? source.files : [source];
+  const size = files.reduce((acc, f) => acc + f.size, 0);
+  const listing = isImageSequence(source) ? files.map(f => `${f.name}:${f.size}`).join('|') : `${size}:`;
+  const head = await files[0].slice(0, FINGERPRINT_CHUNK).arrayBuffer();
+  const last = files[files.length - 1];
+  const tail = await last.slice(Math.max(0, last.size - FINGERPRINT_CHUNK)).arrayBuffer();
+  const sizeBytes = new TextEncoder().encode(listing);
+
+  const data = new Uint8Array(sizeBytes.byteLength + head.byteLength + tail.byteLength);
+  data.set(sizeBytes, 0);
+  data.set(new Uint8Array(head), sizeBytes.byteLength);
+  data.set(new Uint8Array(tail), sizeBytes.byteLength + head.byteLength);
+
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const lastModified = files.reduce((acc, f) => Math.max(acc, f.lastModified), 0);
+  return { name: source.name, size, lastModified, fingerprint: toHex(digest) };
+};
+
+/**
+ * Reference to the footage of a new project. Where the footage cannot be fingerprinted the
+ * reference has no fingerprint: the project is still saved, but footage attached to it later
+ * cannot be checked against the analysed one.
+ */
+export const getVideoReference = async (source: File | ImageSequence): Promise<VideoReference> => {
+  try {
+    return await fingerprintVideo(source);
+  } catch (err) {
+    console.warn("Saving the project without a video fingerprint:", err);
+    const files = isImageSequence(source) ? source.files : [source];
+    return {
+      name: source.name,
+      size: files.reduce((acc, f) => acc + f.size, 0),
+      lastModified: files.reduce((acc, f) => Math.max(acc, f.lastModified), 0),
+      fingerprint: null
+    };
+  }
+};
+
+// Helper: Scales a decoded frame down to a thumbnail data URL
+const drawThumbnail = (image: CanvasImageSource, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round((height / (width || 1)) * THUMBNAIL_WIDTH) || THUMBNAIL_WIDTH;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Grabs a small JPEG of the first frame for the library list.
+ * Resolves with null instead of failing: a missing thumbnail must not block saving.
+ */
+export const captureThumbnail = (source: File | ImageSequence): Promise<string | null> => {
+  if (isImageSequence(source)) {
+    return loadImage(source.frameUrls[0])
+      .then(image => drawThumbnail(image, image.naturalWidth, image.naturalHeight))
+      .catch(() => null);
+  }
+  return new Promise(resolve => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(source);
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const finish = (thumbnail: string | null) => {
+      clearTimeout(timeout);
+      URL.revokeObjectURL(url);
+      resolve(thumbnail);
+    };
+    const timeout = setTimeout(() => finish(null), 5000);
+
+    video.onloadeddata = () => {
+      try {
+        finish(drawThumbnail(video, video.videoWidth, video.videoHeight));
+      } catch {
+        finish(null);
+      }
+    };
+    video.onerror = () => finish(null);
+    video.src = url;
+  });
+};
+
+export const createProject = (result: AnalysisResult, settings: AnalysisSettings, video: VideoReference): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  video,
+  settings,
+  result
+});
+
+export const serializeProject = (project: ProjectFile): string => JSON.stringify(project);
+
+/**
+ * Parses and sanity-checks a project file. Throws a readable error for anything that is not
+ * a project written by this app (or by a newer version of it).
+ */
+export const parseProject = (text: string): ProjectFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The project file is not valid JSON.");
+  }
+  if (data?.format !== PROJECT_FORMAT) throw new Error("This file is not a CellTracker AI project.");
+  if (typeof data.version !== 'number' || data.version > PROJECT_VERSION) {
+    throw new Error("This project was saved by a newer version of CellTracker AI.");
+  }
+  if (!Array.isArray(data.result?.frames) || typeof data.result?.summary !== 'string' || data.video?.fingerprint === undefined) {
+    throw new Error("The project file is incomplete (missing result or video reference).");
+  }
+  return data as ProjectFile;
+};
+
+// Helper: Suggested download name, e.g. "culture_2024-05-01.ctproj.json"
+export const getProjectFilename = (project: ProjectFile): string => {
+  const base = project.video.name.replace(/\.[^.]+$/, '') || 'celltracker';
+  return `${base}_${project.savedAt.slice(0, 10)}.ctproj.json`;
+};
+
+// Helper: Library key; one entry per video and analysis time
+const createEntryId = (project: ProjectFile): string => `${project.video.fingerprint?.slice(0, 16) ?? 'unfingerprinted'}-${project.savedAt}`;
+
+// Helper: Summary numbers shown in the library list
+const buildLibraryStats = (frames: FrameData[]): LibraryEntry['stats'] => {
+  const counted = frames.filter(isUsableFrame);
+  return {
+    frames: frames.length,
+    tracks: new Set(frames.flatMap(f => f.cells.map(c => c.id))).size,
+    initialCount: counted[0]?.cellCount ?? 0,
+    finalCount: counted[counted.length - 1]?.cellCount ?? 0,
+    divisions: summarizeLineage(buildLineage(frames)).divisions
+  };
+};
+
+/**
+ * Stores a project in the browser library. The list entry (thumbnail and summary numbers)
+ * is kept apart from the full project so listing stays fast.
+ */
+export const saveToLibrary = async (project: ProjectFile, thumbnail: string | null): Promise<LibraryEntry> => {
+  const entry: LibraryEntry = {
+    id: createEntryId(project),
+    savedAt: project.savedAt,
+    videoName: project.video.name,
+    thumbnail,
+    source: project.settings.source,
+    stats: buildLibraryStats(project.result.frames)
+  };
+  await putRecord('projects', entry.id, project);
+  await putRecord('library', entry.id, entry);
+  return entry;
+};
+
+/**
+ * Replaces the stored project after it changed (e.g. manual curation), keeping its thumbnail.
+ * Projects opened from a file that are not in the library are left alone.
+ */
+export const updateLibraryProject = async (project: ProjectFile): Promise<void> => {
+  const id = createEntryId(project);
+  const entry = await getRecord<LibraryEntry>('library', id);
+  if (!entry) return;
+  await putRecord('projects', id, project);
+  await putRecord('library', id, { ...entry, stats: buildLibraryStats(project.result.frames) });
+};
+
+// Newest first
+export const listLibrary = async (): Promise<LibraryEntry[]> => {
+  const entries = await getAllRecords<LibraryEntry>('library');
+  return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const loadFromLibrary = async (id: string): Promise<ProjectFile> => {
+  const project = await getRecord<ProjectFile>('projects', id);
+  if (!project) throw new Error("This analysis is no longer in the library.");
+  return project;
+};
+
+export const deleteFromLibrary = async (id: string): Promise<void> => {
+  await deleteRecord('projects', id);
+  await deleteRecord('library', id);
+};
@@ -0,0 +1,165 @@
+import { Calibration, ConsensusSettings, EventType, FrameData, VideoMetadata } from "../types";
+import { summarizeTrackBoundaries } from "./trackingService";
+import { isUsableFrame } from "./frameStatusService";
+import { describeValidation, summarizeValidation } from "./validationService";
+import { describeConsensus, getPassCount } from "./consensusService";
+import { buildLineage, summarizeLineage } from "./lineageService";
+import { computeMotility } from "./motilityService";
+import { countEventsByCell, countEventsByType } from "./eventService";
+import { describeCalibration, getRealSecondsPerVideoSecond, toRealHours, widthPercentToMicrons } from "./calibrationService";
+
+export type ReportStats = ReturnType<typeof buildReportStats>;
+
+// How the built-in tracker links detections, quoted in the report methods
+export const BUILT_IN_LINKING = 'globally optimal frame-to-frame assignment with gap closing and division reconstruction';
+
+/**
+ * Aggregates the linked frames into the statistics block handed to the report writer.
+ */
+export const buildReportStats = (
+  frames: FrameData[],
+  detectorName: string,
+  calibration?: Calibration,
+  video?: VideoMetadata,
+  linking: string = BUILT_IN_LINKING,
+  consensus?: ConsensusSettings
+) => {
+  const duration = frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+  // Population counts come from analysed frames only; failed frames are not zero counts
+  const counted = frames.filter(isUsableFrame);
+  const initialCount = counted.length > 0 ? counted[0].cellCount : 0;
+  const finalCount = counted.length > 0 ? counted[counted.length - 1].cellCount : 0;
+  const maxCount = counted.length > 0 ? Math.max(...counted.map(f => f.cellCount)) : 0;
+
+  const eventCounts = countEventsByType(frames);
+  const cellsWithEvents = countEventsByCell(frames).size;
+  const lineage = summarizeLineage(buildLineage(frames));
+
+  const allCells = frames.flatMap(f => f.cells);
+  const meanRadius = allCells.reduce((acc, c) => acc + c.r, 0) / (allCells.length || 1);
+  const meanRadiusMicrons = widthPercentToMicrons(meanRadius, calibration, video);
+  const timeScale = getRealSecondsPerVideoSecond(calibration);
+  const toHours = (seconds: number | null) => seconds === null ? null : toRealHours(seconds, calibration);
+  const motility = computeMotility(frames, calibration, video);
+  const validation = summarizeValidation(frames);
+  // Consensus mode: spread of the per-pass counts, averaged over frames
+  const spreads = counted.filter(f => f.passCounts && f.passCounts.length > 1)
+    .map(f => Math.max(...f.passCounts!) - Math.min(...f.passCounts!));
+
+  return {
+    detector: detectorName,
+    linking,
+    videoDurationSeconds: duration,
+    calibration: describeCalibration(calibration, video),
+    // Physical units, null when the corresponding axis is uncalibrated
+    acquisitionDurationHours: toHours(duration),
+    meanCellRadiusMicrons: meanRadiusMicrons,
+    meanCellRadiusPercentOfWidth: meanRadius,
+    realSecondsPerVideoSecond: timeScale,
+    sampledFrames: frames.length,
+    failedFrames: frames.length - counted.length, // Excluded from counts and tracking
+    validation: { ...validation, methodsNote: describeValidation(validation) },
+    consensus: {
+      passes: getPassCount(consensus),
+      meanCountSpread: spreads.length > 0 ? spreads.reduce((acc, n) => acc + n, 0) / spreads.length : null,
+      methodsNote: describeConsensus(consensus, counted)
+    },
+    initialPopulation: initialCount,
+    finalPopulation: finalCount,
+    peakPopulation: maxCount,
+    eventsDetected: {
+      mitosis: eventCounts[EventType.Mitosis],
+      apoptosis: eventCounts[EventType.Apoptosis],
+      necrosis: eventCounts[EventType.Necrosis],
+      interactions: eventCounts[EventType.Interaction],
+      detachments: eventCounts[EventType.Detachment],
+      populationGrowth: eventCounts[EventType.Growth],
+      byType: eventCounts,
+      cellsWithEvents // Tracks linked to at least one event
+    },
+    tracking: summarizeTrackBoundaries(frames),
+    lineage: {
+      trackedDivisions: lineage.divisions,
+      dividingLineages: lineage.dividingLineages,
+      maxGeneration: lineage.maxGeneration,
+      meanCellCycleSeconds: lineage.meanCycleDuration,
+      cellCycleSeconds: lineage.cycleDurations,
+      meanCellCycleHours: toHours(lineage.meanCycleDuration),
+      cellCycleHours: timeScale === null ? null : lineage.cycleDurations.map(d => toHours(d)!)
+    },
+    motility: {
+      tracksAnalyzed: motility.tracks.length,
+      units: motility.units,
+      meanSpeed: motility.meanSpeed,
+      meanPathLength: motility.meanPathLength,
+      meanNetDisplacement: motility.meanNetDisplacement,
+      meanDirectionality: motility.meanDirectionality,
+      meanAbsTurningAngleDegrees: motility.meanAbsTurningAngle,
+      msdExponent: motility.msdExponent
+    }
+  };
+};
+
+/**
+ * Template report used when the detector has no language model to write one (offline providers).
+ * Follows the same section layout as the AI-written report.
+ */
+export const buildOfflineReport = (stats: ReportStats): string => {
+  const change = stats.initialPopulation > 0
+    ? ((stats.finalPopulation - stats.initialPopulation) / stats.initialPopulation) * 100
+    : 0;
+  const cycle = stats.lineage.meanCellCycleHours !== null
+    ? `${stats.lineage.meanCellCycleHours.toFixed(2)} h`
+    : stats.lineage.meanCellCycleSeconds !== null
+      ? `${stats.lineage.meanCellCycleSeconds.toFixed(1)} s of video`
+      : 'not measurable (no cell divided twice)';
+  const span = stats.acquisitionDurationHours !== null
+    ? `${stats.acquisitionDurationHours.toFixed(2)} h of culture (${stats.videoDurationSeconds.toFixed(1)} s of video)`
+    : `${stats.videoDurationSeconds.toFixed(1)} s`;
+  const fmt = (value: number | null) => value === null ? 'n/a' : value.toFixed(2);
+  const radius = stats.meanCellRadiusMicrons !== null
+    ? `${stats.meanCellRadiusMicrons.toFixed(1)} µm`
+    : `${stats.meanCellRadiusPercentOfWidth.toFixed(1)}% of frame width`;
+
+  return [
+    '## Abstract',
+    `Automated tracking of a microscopy sequence of ${span}. The population changed from ${stats.initialPopulation} to ${stats.finalPopulation} cells (${change >= 0 ? '+' : ''}${change.toFixed(0)}%).`,
+    '',
+    '## Methodology: Computer Vision Analysis',
+    `Cells were detected in sampled frames using the "${stats.detector}" detector and linked into tracks by ${stats.linking}. Calibration: ${stats.calibration}.${stats.failedFrames > 0 ? ` ${stats.failedFrames} of ${stats.sampledFrames} sampled frames could not be analysed and were excluded from counts and tracking.` : ''}${stats.validation.methodsNote ? ` ${stats.validation.methodsNote}` : ''}${stats.consensus.methodsNote ? ` ${stats.consensus.methodsNote}` : ''}`,
+    '',
+    '## Results: Population Dynamics',
+    `- Initial population: ${stats.initialPopulation}`,
+    `- Final population: ${stats.finalPopulation}`,
+    `- Peak population: ${stats.peakPopulation}`,
+    ...(stats.consensus.meanCountSpread !== null
+      ? [`- Count uncertainty: the ${stats.consensus.passes} detection passes differed by ${stats.consensus.meanCountSpread.toFixed(1)} cells per frame on average`]
+      : []),
+    `- Mean cell radius: ${radius}`,
+    `- Tracks: ${stats.tracking.totalTracks} (${stats.tracking.enteredField} entered the field, ${stats.tracking.leftField} left it, ${stats.tracking.lost} lost)`,
+    '',
+    '## Results: Cell Motility',
+    ...(stats.motility.tracksAnalyzed === 0
+      ? ['No track was long enough for motility analysis.']
+      : [
+        `- Tracks analysed: ${stats.motility.tracksAnalyzed}`,
+        `- Mean speed: ${fmt(stats.motility.meanSpeed)} ${stats.motility.units.speed}`,
+        `- Mean path length: ${fmt(stats.motility.meanPathLength)} ${stats.motility.units.length}, mean net displacement: ${fmt(stats.motility.meanNetDisplacement)} ${stats.motility.units.length}`,
+        `- Mean directionality ratio: ${fmt(stats.motility.meanDirectionality)}`,
+        `- Mean absolute turning angle: ${fmt(stats.motility.meanAbsTurningAngleDegrees)}°`,
+        `- MSD exponent α: ${fmt(stats.motility.msdExponent)} (≈1 random walk, ≈2 directed migration)`,
+      ]),
+    '',
+    '## Event Analysis',
+    `- Mitosis events reported by the detector: ${stats.eventsDetected.mitosis}`,
+    `- Divisions traced in the lineage: ${stats.lineage.trackedDivisions} (max generation ${stats.lineage.maxGeneration})`,
+    `- Apoptosis events: ${stats.eventsDetected.apoptosis}, necrosis events: ${stats.eventsDetected.necrosis}`,
+    `- Cell-cell interactions: ${stats.eventsDetected.interactions}, detachments: ${stats.eventsDetected.detachments}`,
+    `- Tracks involved in at least one event: ${stats.eventsDetected.cellsWithEvents}`,
+    `- Unexplained new cells: ${stats.eventsDetected.populationGrowth}`,
+    `- Mean cell cycle duration: ${cycle}`,
+    '',
+    '## Conclusion',
+    'This report was generated without a language model. Interpret the figures above together with the charts and the lineage tree.'
+  ].join('\n');
+};
@@ -0,0 +1,58 @@
+import { CachedResponse, FrameData, ResponseCacheSummary } from "../types";
+import { clearStore, getAllRecords, getRecord, putRecord } from "./storageService";
+import { isUsableFrame } from "./frameStatusService";
+
+/**
+ * SHA-256 of a text as hex. Null where Web Crypto is unavailable (insecure origins), which
+ * turns caching off rather than failing the analysis.
+ */
+export const hashText = async (text: string): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Cache key of one detection request. The image part hashes the encoded payload that would be
+ * sent, so the same pixels at the same crop, size and quality hit the cache and any change to
+ * the sampling misses it. Model and prompt version keep responses of other setups apart.
+ */
+export const getResponseCacheKey = async (base64: string, model: string, promptVersion: string): Promise<string | null> => {
+  const imageHash = await hashText(base64);
+  return imageHash ? `${model}:${promptVersion}:${imageHash}` : null;
+};
+
+// Best effort: a missing or unreadable cache only means the request is sent
+export const getCachedResponse = async (key: string, timestamp: number): Promise<FrameData | null> => {
+  try {
+    const cached = await getRecord<CachedResponse>('responses', key);
+    return cached ? { ...cached.frame, timestamp } : null;
+  } catch (err) {
+    console.warn("Could not read the response cache:", err);
+    return null;
+  }
+};
+
+// Only usable responses are stored; failed and empty ones are attempted again next time
+export const saveCachedResponse = async (key: string, model: string, promptVersion: string, frame: FrameData): Promise<void> => {
+  if (!isUsableFrame(frame)) return;
+  try {
+    await putRecord<CachedResponse>('responses', key, { model, promptVersion, savedAt: new Date().toISOString(), frame });
+  } catch (err) {
+    console.warn("Could not save to the response cache:", err);
+  }
+};
+
+export const summarizeResponseCache = async (): Promise<ResponseCacheSummary> => {
+  const records = await getAllRecords<CachedResponse>('responses');
+  const dates = records.map(r => r.savedAt).sort();
+  return {
+    entries: records.length,
+    approxBytes: records.reduce((acc, r) => acc + JSON.stringify(r).length, 0),
+    models: Array.from(new Set(records.map(r => r.model))),
+    oldest: dates[0] ?? null,
+    newest: dates[dates.length - 1] ?? null
+  };
+};
+
+export const clearResponseCache = (): Promise<void> => clearStore('responses');
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { EventType, FrameData, SamplingPlan } from "../types";
+import { DEFAULT_SAMPLING_PLAN, getSampleGeometry, mapFromRoi, MAX_SAMPLED_FRAMES, planSampleTimes } from "./samplingService";
+
+const plan = (overrides: Partial<SamplingPlan>): SamplingPlan => ({ ...DEFAULT_SAMPLING_PLAN, ...overrides });
+
+describe("planSampleTimes", () => {
+  it("spreads a frame count evenly over the time window", () => {
+    expect(planSampleTimes(plan({ frameCount: 4, startTime: 20, endTime: 60 }), 100)).toEqual([20, 30, 40, 50]);
+  });
+
+  it("keeps counted frames at least the minimum spacing apart on short clips", () => {
+    expect(planSampleTimes(DEFAULT_SAMPLING_PLAN, 5)).toEqual([0, 1, 2, 3, 4]);
+    expect(planSampleTimes(DEFAULT_SAMPLING_PLAN, 5.5)).toHaveLength(6);
+    expect(planSampleTimes(DEFAULT_SAMPLING_PLAN, 300)).toHaveLength(30);
+    expect(planSampleTimes(plan({ intervalSeconds: 0.1 }), 5)).toHaveLength(30);
+  });
+
+  it("steps a fixed interval from the start of the window, end exclusive", () => {
+    expect(planSampleTimes(plan({ mode: 'interval', intervalSeconds: 2.5, startTime: 5, endTime: 15 }), 100)).toEqual([5, 7.5, 10, 12.5]);
+  });
+
+  it("clamps the window to the video and yields nothing for an empty one", () => {
+    expect(planSampleTimes(plan({ mode: 'interval', intervalSeconds: 4, endTime: 500 }), 10)).toEqual([0, 4, 8]);
+    expect(planSampleTimes(plan({ startTime: 30 }), 10)).toEqual([]);
+  });
+
+  it("caps the number of frames", () => {
+    expect(planSampleTimes(plan({ mode: 'interval', intervalSeconds: 0.001 }), 3600)).toHaveLength(MAX_SAMPLED_FRAMES);
+  });
+
+  it("snaps image sequence times to whole frames without duplicates", () => {
+    expect(planSampleTimes(plan({ mode: 'interval', intervalSeconds: 0.25 }), 1, 2)).toEqual([0, 0.5]);
+  });
+});
+
+describe("getSampleGeometry", () => {
+  it("crops to the region of interest and downscales its longest side", () => {
+    const geometry = getSampleGeometry(plan({ maxDimension: 500, roi: { x: 25, y: 50, width: 50, height: 50 } }), 4000, 2000);
+
+    expect(geometry).toMatchObject({ sx: 1000, sy: 1000, sw: 2000, sh: 1000, outWidth: 500, outHeight: 250, tiles: null });
+  });
+
+  it("keeps native resolution and plans tiles in tiled mode", () => {
+    const geometry = getSampleGeometry(plan({ tileSize: 1024, tileOverlap: 128 }), 2048, 1024);
+
+    expect(geometry.outWidth).toBe(2048);
+    expect(geometry.tiles?.length).toBeGreaterThan(1);
+  });
+});
+
+describe("mapFromRoi", () => {
+  it("maps detections and events from the crop back to the full frame", () => {
+    const frame: FrameData = {
+      timestamp: 0,
+      cellCount: 1,
+      cells: [{ id: 1, x: 50, y: 50, r: 10 }],
+      events: [{ type: EventType.Mitosis, description: 'Metaphase', x: 0, y: 100 }]
+    };
+    const mapped = mapFromRoi(frame, { x: 20, y: 40, width: 40, height: 20 });
+
+    expect(mapped.cells[0]).toMatchObject({ x: 40, y: 50, r: 4 });
+    expect(mapped.events[0]).toMatchObject({ x: 20, y: 60 });
+    expect(mapFromRoi(frame, null)).toBe(frame);
+  });
+});
@@ -0,0 +1,202 @@
+import { ChangeSample, FrameData, RegionOfInterest, SamplingPlan } from "../types";
+import { planTiles } from "./tilingService";
+import { mapEventLocations } from "./eventService";
+
+// Up to 30 frames evenly over the whole video but never closer than 1 s (a 5 s clip gives 5),
+// at up to 1024 px and JPEG quality 0.6
+export const DEFAULT_SAMPLING_PLAN: SamplingPlan = {
+  mode: 'count',
+  frameCount: 30,
+  coverage: 0.3,
+  intervalSeconds: 1,
+  startTime: 0,
+  endTime: null,
+  maxDimension: 1024,
+  jpegQuality: 0.6,
+  roi: null,
+  tileSize: null,
+  tileOverlap: 128
+};
+
+// Upper bound on sampled frames whatever the plan says; every frame is held in memory as JPEG
+export const MAX_SAMPLED_FRAMES = 2000;
+// Smallest region of interest side (% of the frame) accepted when drawing
+export const MIN_ROI_PERCENT = 2;
+// Adaptive pre-scan: scan points per budgeted frame, their cap, and the scan image size (px, longest side)
+const SCAN_POINTS_PER_FRAME = 8;
+const MAX_SCAN_POINTS = 600;
+export const SCAN_SIZE = 64;
+
+// Helper: Time window of the plan, clamped to the video
+const getWindow = (plan: SamplingPlan, duration: number) => {
+  const start = Math.min(Math.max(0, plan.startTime), duration);
+  const end = Math.min(duration, plan.endTime ?? duration);
+  return { start, end: Math.max(start, end) };
+};
+
+/**
+ * Video times (seconds) of the frames to sample. Frame counts spread evenly over the window
+ * starting at its beginning, at least intervalSeconds apart, so short clips get fewer frames;
+ * intervals step from the start until the end (exclusive).
+ * An empty window (e.g. a start past the end of the video) yields no frames.
+ * With a frame rate (image sequences) times snap to whole frames and duplicates are dropped.
+ */
+export const planSampleTimes = (plan: SamplingPlan, duration: number, frameRate?: number): number[] => {
+  const { start, end } = getWindow(plan, duration);
+  const span = end - start;
+  const times: number[] = [];
+  if (span <= 0) return times;
+
+  if (plan.mode === 'interval') {
+    const step = Math.max(plan.intervalSeconds, 1e-3);
+    for (let t = start; t < end && times.length < MAX_SAMPLED_FRAMES; t += step) times.push(t);
+  } else {
+    // 'adaptive' plans spend the same budget; the times are only final after the pre-scan
+    const count = Math.min(Math.max(1, Math.round(plan.frameCount)), MAX_SAMPLED_FRAMES);
+    const step = Math.max(span / count, plan.mode === 'count' ? plan.intervalSeconds : 0);
+    for (let i = 0; i < count && start + step * i < end; i++) times.push(start + step * i);
+  }
+
+  if (!frameRate) return times;
+  const lastIndex = Math.max(0, Math.ceil(duration * frameRate) - 1);
+  const indices = new Set(times.map(t => Math.min(lastIndex, Math.round(t * frameRate))));
+  return Array.from(indices).sort((a, b) => a - b).map(i => i / frameRate);
+};
+
+/**
+ * Source rectangle (pixels) read from each frame and the encoded output size: the region
+ * of interest, or the whole frame, scaled so its longest side fits maxDimension.
+ * Tiled plans keep native resolution and add the tile grid over the source rectangle.
+ */
+export const getSampleGeometry = (plan: SamplingPlan, width: number, height: number) => {
+  const roi = plan.roi ?? { x: 0, y: 0, width: 100, height: 100 };
+  const sx = Math.round((roi.x / 100) * width);
+  const sy = Math.round((roi.y / 100) * height);
+  const sw = Math.max(1, Math.round((roi.width / 100) * width));
+  const sh = Math.max(1, Math.round((roi.height / 100) * height));
+  const tiles = plan.tileSize ? planTiles(sw, sh, plan.tileSize, plan.tileOverlap) : null;
+  const scale = tiles ? 1 : Math.min(1, plan.maxDimension / Math.max(sw, sh));
+  return { sx, sy, sw, sh, outWidth: Math.max(1, Math.round(sw * scale)), outHeight: Math.max(1, Math.round(sh * scale)), tiles };
+};
+
+/**
+ * Converts detections made on a cropped frame back to % of the full frame, so overlays,
+ * calibration and exports keep working in the usual coordinates. Radii are % of the width.
+ */
+export const mapFromRoi = (frame: FrameData, roi: RegionOfInterest | null): FrameData => {
+  if (!roi) return frame;
+  return {
+    ...frame,
+    cells: frame.cells.map(cell => ({
+      ...cell,
+      x: roi.x + (cell.x / 100) * roi.width,
+      y: roi.y + (cell.y / 100) * roi.height,
+      r: (cell.r / 100) * roi.width
+    })),
+    events: mapEventLocations(frame.events, (x, y) => ({ x: roi.x + (x / 100) * roi.width, y: roi.y + (y / 100) * roi.height }))
+  };
+};
+
+// Pre-scan times of an adaptive plan: a dense even grid over the window (every frame of short sequences)
+export const planScanTimes = (plan: SamplingPlan, duration: number, frameRate?: number): number[] => {
+  const points = Math.min(MAX_SCAN_POINTS, Math.max(plan.frameCount * SCAN_POINTS_PER_FRAME, plan.frameCount + 1));
+  return planSampleTimes({ ...plan, mode: 'count', frameCount: points }, duration, frameRate);
+};
+
+// Mean absolute grey-level difference of two RGBA images of the same size, in % of the intensity range
+export const computeChangeScore = (previous: Uint8ClampedArray, next: Uint8ClampedArray): number => {
+  let sum = 0;
+  for (let i = 0; i < next.length; i += 4) {
+    const a = previous[i] * 0.299 + previous[i + 1] * 0.587 + previous[i + 2] * 0.114;
+    const b = next[i] * 0.299 + next[i + 1] * 0.587 + next[i + 2] * 0.114;
+    sum += Math.abs(a - b);
+  }
+  return (sum / (next.length / 4) / 255) * 100;
+};
+
+/**
+ * Picks the frames of an adaptive plan from the pre-scan. Each scan interval gets a weight mixing
+ * its share of the total change and (by plan.coverage) its share of the time window; frames are
+ * placed at even quantiles of the cumulative weight, so busy stretches get dense sampling while no
+ * gap exceeds window / (coverage × budget). Sequences snap to whole frames and spend the budget
+ * lost to duplicates on splitting the largest remaining gaps.
+ */
+export const selectAdaptiveTimes = (profile: ChangeSample[], plan: SamplingPlan, duration: number, frameRate?: number): number[] => {
+  const { end } = getWindow(plan, duration);
+  const budget = Math.min(Math.max(1, Math.round(plan.frameCount)), MAX_SAMPLED_FRAMES);
+  if (profile.length === 0) return [];
+
+  // Segments between scan points; the change measured at point i happened during segment i - 1
+  const segments = profile.map((point, i) => ({
+    start: point.time,
+    end: i + 1 < profile.length ? profile[i + 1].time : end,
+    change: i + 1 < profile.length ? profile[i + 1].score : 0
+  })).filter(segment => segment.end > segment.start);
+  const span = segments.reduce((acc, seg) => acc + (seg.end - seg.start), 0);
+  const totalChange = segments.reduce((acc, seg) => acc + seg.change, 0);
+  if (span <= 0) return [profile[0].time];
+
+  const coverage = totalChange > 0 ? Math.min(1, Math.max(0, plan.coverage)) : 1;
+  const weights = segments.map(seg => coverage * ((seg.end - seg.start) / span) + (1 - coverage) * (totalChange > 0 ? seg.change / totalChange : 0));
+
+  const times: number[] = [];
+  let segmentIndex = 0;
+  let cumulative = 0;
+  for (let k = 0; k < budget; k++) {
+    const quantile = k / budget;
+    while (segmentIndex < segments.length - 1 && cumulative + weights[segmentIndex] <= quantile) {
+      cumulative += weights[segmentIndex];
+      segmentIndex++;
+    }
+    const seg = segments[segmentIndex];
+    const within = weights[segmentIndex] > 0 ? (quantile - cumulative) / weights[segmentIndex] : 0;
+    times.push(seg.start + Math.min(1, Math.max(0, within)) * (seg.end - seg.start));
+  }
+  if (!frameRate) return times;
+
+  const lastIndex = Math.max(0, Math.ceil(duration * frameRate) - 1);
+  const toIndex = (t: number) => Math.min(lastIndex, Math.max(0, Math.round(t * frameRate)));
+  const indices = Array.from(new Set(times.map(toIndex))).sort((a, b) => a - b);
+  const lastInWindow = Math.min(lastIndex, Math.ceil(end * frameRate) - 1);
+  while (indices.length < budget) {
+    // Largest gap, including the one after the last selected frame
+    let bestAt = -1;
+    let bestGap = 1;
+    for (let i = 0; i < indices.length; i++) {
+      const gap = (i + 1 < indices.length ? indices[i + 1] : lastInWindow + 1) - indices[i];
+      if (gap > bestGap) {
+        bestGap = gap;
+        bestAt = i;
+      }
+    }
+    if (bestAt < 0) break;
+    indices.splice(bestAt + 1, 0, indices[bestAt] + Math.floor(bestGap / 2));
+  }
+  return indices.map(i => i / frameRate);
+};
+
+// Change score of the scan interval containing a time (for marking sampled frames on the timeline)
+export const getChangeScoreAt = (profile: ChangeSample[], time: number): number => {
+  const next = profile.findIndex(point => point.time >= time - 1e-9);
+  if (next < 0) return 0;
+  return profile[next].score;
+};
+
+// Helper: One-line description for the analysis summary
+export const describeSamplingPlan = (plan: SamplingPlan, sampledFrames: number): string => {
+  const window = plan.endTime !== null || plan.startTime > 0
+    ? ` from ${plan.startTime.toFixed(1)} s to ${plan.endTime !== null ? `${plan.endTime.toFixed(1)} s` : 'the end'}`
+    : '';
+  const spacing = plan.mode === 'interval'
+    ? `every ${plan.intervalSeconds} s`
+    : plan.mode === 'adaptive'
+      ? `${plan.frameCount} change-driven, ${Math.round(plan.coverage * 100)}% evenly spread`
+      : `${plan.frameCount} evenly spaced, at least ${plan.intervalSeconds} s apart`;
+  const roi = plan.roi
+    ? `, region ${plan.roi.width.toFixed(0)}×${plan.roi.height.toFixed(0)}% at (${plan.roi.x.toFixed(0)}%, ${plan.roi.y.toFixed(0)}%)`
+    : '';
+  const size = plan.tileSize
+    ? `native resolution in ${plan.tileSize} px tiles with ${plan.tileOverlap} px overlap`
+    : `max ${plan.maxDimension} px`;
+  return `${sampledFrames} frames (${spacing}${window}), ${size}, JPEG quality ${plan.jpegQuality}${roi}`;
+};
@@ -0,0 +1,145 @@
+import { Cell, DetectionProvider, EventType, ExtractedFrame, FrameData, FrameEvent } from "../types";
+
+interface SimulatedProviderOptions {
+  seed?: number;
+  cellCount?: number;
+  durationHint?: number; // Seconds over which divisions/deaths are scheduled
+  dropRate?: number; // Probability that a cell is missed in a frame (exercises gap closing)
+  latencyMs?: number; // Artificial delay per frame, to mimic a remote model
+  fixtures?: FrameData[]; // If given, replayed instead of simulating (closest timestamp wins)
+}
+
+// One simulated founder cell. Positions are pure functions of time so every frame is reproducible.
+interface SimulatedCell {
+  x0: number;
+  y0: number;
+  r: number;
+  vx: number; // % of frame per second
+  vy: number;
+  angle: number; // Division axis
+  divideAt?: number;
+  dieAt?: number;
+}
+
+const DIVIDING_WINDOW = 2; // Seconds a mother shows as 'Dividing' before cytokinesis
+const DEATH_VISIBLE_FOR = 5; // Seconds an apoptotic cell stays visible before it is gone
+
+// Helper: Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Helper: Stable pseudo-random value in [0, 1) for a (cell, time) pair
+const hashUnit = (seed: number, cellIndex: number, timestamp: number): number => {
+  return createRandom(seed ^ Math.imul(cellIndex + 1, 2654435761) ^ Math.round(timestamp * 1000))();
+};
+
+// Helper: Bounce a coordinate between walls so cells stay in the field (triangle wave)
+const reflect = (value: number, min: number, max: number): number => {
+  const span = max - min;
+  const m = ((value - min) % (2 * span) + 2 * span) % (2 * span);
+  return min + (m <= span ? m : 2 * span - m);
+};
+
+const createPopulation = (options: Required<Omit<SimulatedProviderOptions, 'fixtures'>>): SimulatedCell[] => {
+  const random = createRandom(options.seed);
+  return Array.from({ length: options.cellCount }, () => {
+    const speed = 0.3 + random() * 1.2;
+    const heading = random() * 2 * Math.PI;
+    const fate = random();
+    return {
+      x0: 10 + random() * 80,
+      y0: 10 + random() * 80,
+      r: 2.5 + random() * 2,
+      vx: Math.cos(heading) * speed,
+      vy: Math.sin(heading) * speed,
+      angle: random() * Math.PI,
+      // Roughly a third of the cells divide and one in ten dies during the recording
+      divideAt: fate < 0.35 ? options.durationHint * (0.2 + random() * 0.6) : undefined,
+      dieAt: fate > 0.9 ? options.durationHint * (0.3 + random() * 0.6) : undefined,
+    };
+  });
+};
+
+// Helper: Cells and events of the simulated population at one timestamp
+const simulateFrame = (
+  population: SimulatedCell[],
+  options: Required<Omit<SimulatedProviderOptions, 'fixtures'>>,
+  timestamp: number
+): FrameData => {
+  const cells: Cell[] = [];
+  const events: FrameEvent[] = [];
+
+  population.forEach((sim, i) => {
+    const x = reflect(sim.x0 + sim.vx * timestamp, 3, 97);
+    const y = reflect(sim.y0 + sim.vy * timestamp, 3, 97);
+    const detected = (salt: number) => hashUnit(options.seed, i * 3 + salt, timestamp) >= options.dropRate;
+
+    if (sim.dieAt !== undefined && timestamp >= sim.dieAt) {
+      if (timestamp < sim.dieAt + DEATH_VISIBLE_FOR && detected(0)) {
+        cells.push({ id: 0, x, y, r: sim.r * 0.8, status: 'Apoptotic', history: [] });
+      }
+      if (Math.abs(timestamp - sim.dieAt) < 1) events.push({ type: EventType.Apoptosis, description: 'Membrane blebbing and cell shrinkage (apoptosis)', x, y, confidence: 0.9, source: 'detector' });
+      return;
+    }
+
+    if (sim.divideAt !== undefined && timestamp >= sim.divideAt) {
+      // Daughters drift apart along the division axis
+      const spread = Math.min(sim.r * 1.5, 0.5 * sim.r + (timestamp - sim.divideAt) * 0.5);
+      const dx = Math.cos(sim.angle) * spread;
+      const dy = Math.sin(sim.angle) * spread;
+      if (detected(1)) cells.push({ id: 0, x: x + dx, y: y + dy, r: sim.r * 0.75, status: 'Normal', history: [] });
+      if (detected(2)) cells.push({ id: 0, x: x - dx, y: y - dy, r: sim.r * 0.75, status: 'Normal', history: [] });
+      return;
+    }
+
+    const isDividing = sim.divideAt !== undefined && timestamp >= sim.divideAt - DIVIDING_WINDOW;
+    if (isDividing) {
+      events.push({ type: EventType.Mitosis, description: 'Cell rounding with metaphase plate (mitosis)', x, y, confidence: 0.8, source: 'detector' });
+    }
+    if (detected(0)) cells.push({ id: 0, x, y, r: sim.r, status: isDividing ? 'Dividing' : 'Normal', history: [] });
+  });
+
+  return { timestamp, cellCount: cells.length, cells, events };
+};
+
+/**
+ * Deterministic offline detection provider. Simulates a moving, dividing population
+ * (or replays fixture frames) so the pipeline, tracker, stats and UI run without a key or network.
+ */
+export const createSimulatedProvider = (options: SimulatedProviderOptions = {}): DetectionProvider => {
+  const resolved = {
+    seed: options.seed ?? 42,
+    cellCount: options.cellCount ?? 12,
+    durationHint: options.durationHint ?? 30,
+    dropRate: options.dropRate ?? 0.05,
+    latencyMs: options.latencyMs ?? 150,
+  };
+  const population = createPopulation(resolved);
+  const fixtures = options.fixtures;
+
+  return {
+    id: fixtures ? 'fixtures' : 'simulated',
+    name: fixtures ? 'fixture replay' : 'simulated detector (offline demo)',
+    analyzeFrame: async (frame: ExtractedFrame) => {
+      if (resolved.latencyMs > 0) await new Promise(r => setTimeout(r, resolved.latencyMs));
+
+      if (fixtures && fixtures.length > 0) {
+        const fixture = fixtures.reduce((prev, curr) =>
+          Math.abs(curr.timestamp - frame.timestamp) < Math.abs(prev.timestamp - frame.timestamp) ? curr : prev
+        );
+        // Deep copy: the tracker mutates cells in place
+        return { ...structuredClone(fixture), timestamp: frame.timestamp };
+      }
+
+      return simulateFrame(population, resolved, frame.timestamp);
+    }
+  };
+};
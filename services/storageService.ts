@@ -0,0 +1,62 @@
+// Browser-local persistence (IndexedDB). One database, one object store per kind of record.
+const DB_NAME = "celltracker-ai";
+// Bump when adding a store to OBJECT_STORES
+const DB_VERSION = 3;
+const OBJECT_STORES = ["library", "projects", "checkpoints", "responses"] as const;
+
+export type StoreName = typeof OBJECT_STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Helper: Opens (and on first use creates/upgrades) the database, shared by all callers
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Local storage (IndexedDB) is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OBJECT_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Could not open local storage."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Helper: Runs one request in its own transaction and resolves with its result
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getRecord = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const putRecord = async <T>(store: StoreName, key: string, value: T): Promise<void> => {
+  await run(store, 'readwrite', s => s.put(value, key));
+};
+
+export const deleteRecord = async (store: StoreName, key: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(key));
+};
+
+export const clearStore = async (store: StoreName): Promise<void> => {
+  await run(store, 'readwrite', s => s.clear());
+};
@@ -0,0 +1,347 @@
+// Minimal baseline TIFF reader for microscopy stacks: multi-page files, 8/16/32-bit grayscale or RGB,
+// strips or tiles, uncompressed / LZW / PackBits / Deflate, horizontal predictor, and ImageJ
+// "virtual" stacks whose pages follow the first one without their own directory.
+
+const TAG = {
+  WIDTH: 256,
+  HEIGHT: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  IMAGE_DESCRIPTION: 270,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PLANAR_CONFIGURATION: 284,
+  PREDICTOR: 317,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  SAMPLE_FORMAT: 339
+};
+
+const COMPRESSION = { NONE: 1, LZW: 5, DEFLATE: 8, ADOBE_DEFLATE: 32946, PACKBITS: 32773 };
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Guard against corrupt files with cyclic or absurd directory chains
+const MAX_PAGES = 100000;
+
+// One image directory (page), with its pixel data location
+export interface TiffDirectory {
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  sampleFormat: number; // 1 unsigned, 2 signed, 3 float
+  photometric: number; // 0 WhiteIsZero, 1 BlackIsZero, 2 RGB
+  compression: number;
+  predictor: number;
+  planar: number;
+  // Strips, or tiles when tileWidth is set
+  offsets: number[];
+  byteCounts: number[];
+  rowsPerStrip: number;
+  tileWidth?: number;
+  tileLength?: number;
+}
+
+// Decoded pixels, samples interleaved per pixel
+export interface TiffRaster {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  bitsPerSample: number;
+  photometric: number;
+  data: Uint8Array | Uint16Array | Int16Array | Float32Array;
+}
+
+// Helper: Reads tag values of one directory entry as numbers (or a string for ASCII)
+const readEntry = (view: DataView, entryOffset: number, little: boolean): { tag: number; values: number[]; text?: string } => {
+  const tag = view.getUint16(entryOffset, little);
+  const type = view.getUint16(entryOffset + 2, little);
+  const count = view.getUint32(entryOffset + 4, little);
+  const size = (TYPE_SIZES[type] || 1) * count;
+  const dataOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, little);
+  if (dataOffset + size > view.byteLength) return { tag, values: [] };
+
+  if (type === 2) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + dataOffset, count);
+    return { tag, values: [], text: new TextDecoder('latin1').decode(bytes).replace(/\0+$/, '') };
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const o = dataOffset + i * (TYPE_SIZES[type] || 1);
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(o)); break;
+      case 6: values.push(view.getInt8(o)); break;
+      case 3: values.push(view.getUint16(o, little)); break;
+      case 8: values.push(view.getInt16(o, little)); break;
+      case 4: values.push(view.getUint32(o, little)); break;
+      case 9: values.push(view.getInt32(o, little)); break;
+      case 5: values.push(view.getUint32(o, little) / (view.getUint32(o + 4, little) || 1)); break;
+      case 10: values.push(view.getInt32(o, little) / (view.getInt32(o + 4, little) || 1)); break;
+      case 11: values.push(view.getFloat32(o, little)); break;
+      case 12: values.push(view.getFloat64(o, little)); break;
+    }
+  }
+  return { tag, values };
+};
+
+// Helper: Byte order of the file, validated
+const readByteOrder = (view: DataView): boolean => {
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file.");
+  const little = order === 0x4949;
+  const magic = view.getUint16(2, little);
+  if (magic === 43) throw new Error("BigTIFF files are not supported. Please save the stack as a standard TIFF.");
+  if (magic !== 42) throw new Error("Not a TIFF file.");
+  return little;
+};
+
+/**
+ * Lists the pages of a TIFF file. ImageJ writes large stacks with a single directory and
+ * "images=N" in the description; those pages are synthesised from the first one.
+ */
+export const readTiffDirectories = (buffer: ArrayBuffer): TiffDirectory[] => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 8) throw new Error("Not a TIFF file.");
+  const little = readByteOrder(view);
+
+  const directories: TiffDirectory[] = [];
+  let description = '';
+  let ifdOffset = view.getUint32(4, little);
+  const visited = new Set<number>();
+
+  while (ifdOffset !== 0 && !visited.has(ifdOffset) && ifdOffset + 2 <= view.byteLength && directories.length < MAX_PAGES) {
+    visited.add(ifdOffset);
+    const count = view.getUint16(ifdOffset, little);
+    const tags = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const entryOffset = ifdOffset + 2 + i * 12;
+      if (entryOffset + 12 > view.byteLength) break;
+      const entry = readEntry(view, entryOffset, little);
+      if (entry.text !== undefined && entry.tag === TAG.IMAGE_DESCRIPTION && directories.length === 0) description = entry.text;
+      tags.set(entry.tag, entry.values);
+    }
+
+    const first = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+    const width = first(TAG.WIDTH, 0);
+    const height = first(TAG.HEIGHT, 0);
+    const tiled = tags.has(TAG.TILE_OFFSETS);
+    directories.push({
+      width,
+      height,
+      bitsPerSample: first(TAG.BITS_PER_SAMPLE, 1),
+      samplesPerPixel: first(TAG.SAMPLES_PER_PIXEL, 1),
+      sampleFormat: first(TAG.SAMPLE_FORMAT, 1),
+      photometric: first(TAG.PHOTOMETRIC, 1),
+      compression: first(TAG.COMPRESSION, COMPRESSION.NONE),
+      predictor: first(TAG.PREDICTOR, 1),
+      planar: first(TAG.PLANAR_CONFIGURATION, 1),
+      offsets: tags.get(tiled ? TAG.TILE_OFFSETS : TAG.STRIP_OFFSETS) || [],
+      byteCounts: tags.get(tiled ? TAG.TILE_BYTE_COUNTS : TAG.STRIP_BYTE_COUNTS) || [],
+      rowsPerStrip: first(TAG.ROWS_PER_STRIP, height),
+      tileWidth: tiled ? first(TAG.TILE_WIDTH, width) : undefined,
+      tileLength: tiled ? first(TAG.TILE_LENGTH, height) : undefined
+    });
+
+    const next = ifdOffset + 2 + count * 12;
+    ifdOffset = next + 4 <= view.byteLength ? view.getUint32(next, little) : 0;
+  }
+
+  // ImageJ virtual stack: contiguous uncompressed pages after the first
+  const images = parseInt(/(?:^|\n)images=(\d+)/.exec(description)?.[1] || '', 10);
+  const base = directories[0];
+  if (base && description.startsWith('ImageJ=') && images > directories.length && base.compression === COMPRESSION.NONE && base.offsets.length > 0) {
+    const pageBytes = base.width * base.height * base.samplesPerPixel * (base.bitsPerSample / 8);
+    const start = base.offsets[0];
+    directories.length = 0;
+    for (let i = 0; i < images && start + (i + 1) * pageBytes <= view.byteLength; i++) {
+      directories.push({ ...base, offsets: [start + i * pageBytes], byteCounts: [pageBytes], rowsPerStrip: base.height, tileWidth: undefined, tileLength: undefined });
+    }
+  }
+
+  if (directories.length === 0) throw new Error("The TIFF file contains no images.");
+  return directories;
+};
+
+// Helper: TIFF LZW (MSB-first codes, early change)
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  let output = new Uint8Array(Math.max(expected, 1));
+  let outPos = 0;
+  const write = (bytes: Uint8Array) => {
+    if (outPos + bytes.length > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outPos + bytes.length));
+      grown.set(output);
+      output = grown;
+    }
+    output.set(bytes, outPos);
+    outPos += bytes.length;
+  };
+
+  let table: Uint8Array[] = [];
+  const resetTable = () => {
+    table = [];
+    for (let i = 0; i < 256; i++) table.push(Uint8Array.of(i));
+    table.push(new Uint8Array(0), new Uint8Array(0)); // 256 Clear, 257 EOI
+  };
+  resetTable();
+
+  let codeLength = 9;
+  let bitPos = 0;
+  const readCode = (): number => {
+    let code = 0;
+    for (let i = 0; i < codeLength; i++) {
+      const byte = input[bitPos >> 3];
+      if (byte === undefined) return 257;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+  const concat = (a: Uint8Array, b: number) => {
+    const joined = new Uint8Array(a.length + 1);
+    joined.set(a);
+    joined[a.length] = b;
+    return joined;
+  };
+
+  let previous: Uint8Array | null = null;
+  for (;;) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      resetTable();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push(concat(previous, entry[0]));
+    } else if (previous) {
+      entry = concat(previous, previous[0]);
+      table.push(entry);
+    } else {
+      break; // Corrupt stream
+    }
+    write(entry);
+    previous = entry;
+    if (table.length + 1 >= (1 << codeLength) && codeLength < 12) codeLength++;
+  }
+  return output.subarray(0, outPos);
+};
+
+// Helper: Apple PackBits run-length decoding
+const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const output = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let k = 0; k <= n && o < expected; k++) output[o++] = input[i++];
+    } else if (n !== -128) {
+      const value = input[i++];
+      for (let k = 0; k < 1 - n && o < expected; k++) output[o++] = value;
+    }
+  }
+  return output;
+};
+
+// Helper: zlib inflate through the browser's streams API
+const decodeDeflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (dir: TiffDirectory, chunk: Uint8Array, expected: number): Promise<Uint8Array> => {
+  switch (dir.compression) {
+    case COMPRESSION.NONE: return chunk;
+    case COMPRESSION.LZW: return decodeLzw(chunk, expected);
+    case COMPRESSION.PACKBITS: return decodePackBits(chunk, expected);
+    case COMPRESSION.DEFLATE:
+    case COMPRESSION.ADOBE_DEFLATE: return decodeDeflate(chunk);
+    default: throw new Error(`TIFF compression ${dir.compression} is not supported. Please save the stack uncompressed or with LZW.`);
+  }
+};
+
+/**
+ * Decodes one page into interleaved samples. 16-bit and float data keep their full range;
+ * mapping to 8-bit for display is left to the caller.
+ */
+export const decodeTiffPage = async (buffer: ArrayBuffer, dir: TiffDirectory): Promise<TiffRaster> => {
+  const { width, height, samplesPerPixel: spp, bitsPerSample: bits } = dir;
+  if (![8, 16, 32].includes(bits)) throw new Error(`${bits}-bit TIFF images are not supported.`);
+  if (bits === 32 && dir.sampleFormat !== 3) throw new Error("32-bit integer TIFF images are not supported.");
+  if (dir.planar === 2 && spp > 1) throw new Error("Planar (channel-separated) TIFF images are not supported.");
+
+  const bytesPerSample = bits / 8;
+  const rowBytes = width * spp * bytesPerSample;
+  const raw = new Uint8Array(rowBytes * height);
+  const view = new DataView(buffer);
+  const little = readByteOrder(view);
+
+  // Chunk layout: full-width strips, or tiles placed into the raster
+  const tileWidth = dir.tileWidth ?? width;
+  const tileLength = dir.tileLength ?? dir.rowsPerStrip;
+  const tilesAcross = Math.ceil(width / tileWidth);
+  const tileRowBytes = tileWidth * spp * bytesPerSample;
+
+  for (let i = 0; i < dir.offsets.length; i++) {
+    const offset = dir.offsets[i];
+    const count = Math.min(dir.byteCounts[i] ?? (buffer.byteLength - offset), buffer.byteLength - offset);
+    if (offset >= buffer.byteLength || count <= 0) continue;
+    const chunk = await decompress(dir, new Uint8Array(buffer, offset, count), tileRowBytes * tileLength);
+
+    const tileX = (i % tilesAcross) * tileWidth;
+    const tileY = Math.floor(i / tilesAcross) * tileLength;
+    for (let row = 0; row < tileLength && tileY + row < height; row++) {
+      const srcStart = row * tileRowBytes;
+      if (srcStart >= chunk.length) break;
+      const copyBytes = Math.min(tileRowBytes, (width - tileX) * spp * bytesPerSample, chunk.length - srcStart);
+      raw.set(chunk.subarray(srcStart, srcStart + copyBytes), (tileY + row) * rowBytes + tileX * spp * bytesPerSample);
+    }
+  }
+
+  // Bytes -> samples in the file's byte order
+  let data: TiffRaster['data'];
+  const samples = width * height * spp;
+  const rawView = new DataView(raw.buffer);
+  if (bits === 8) {
+    data = raw;
+  } else if (bits === 16) {
+    data = dir.sampleFormat === 2 ? new Int16Array(samples) : new Uint16Array(samples);
+    for (let i = 0; i < samples; i++) {
+      data[i] = dir.sampleFormat === 2 ? rawView.getInt16(i * 2, little) : rawView.getUint16(i * 2, little);
+    }
+  } else {
+    data = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) data[i] = rawView.getFloat32(i * 4, little);
+  }
+
+  // Horizontal differencing predictor (integer samples only)
+  if (dir.predictor === 2 && bits !== 32) {
+    const mask = bits === 8 ? 0xff : 0xffff;
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * width * spp;
+      for (let x = spp; x < width * spp; x++) {
+        data[rowStart + x] = (data[rowStart + x] + data[rowStart + x - spp]) & mask;
+      }
+    }
+    if (data instanceof Int16Array) {
+      // Re-wrap sums into the signed range
+      for (let i = 0; i < data.length; i++) data[i] = (data[i] << 16) >> 16;
+    }
+  }
+
+  return { width, height, samplesPerPixel: spp, bitsPerSample: bits, photometric: dir.photometric, data };
+};
+
+export const isTiffFile = (file: File): boolean => /\.tiff?$/i.test(file.name) || file.type === 'image/tiff';
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Cell, EventType, FrameData, TileRect } from "../types";
+import { combineTileResults, planTiles } from "./tilingService";
+
+// Helper: A tile's detections, in % of the tile
+const tileFrame = (cells: Partial<Cell>[], extra: Partial<FrameData> = {}): FrameData => ({
+  timestamp: 0,
+  cellCount: cells.length,
+  cells: cells.map((c, i) => ({ id: i + 1, x: 50, y: 50, r: 3, status: 'Normal', ...c })),
+  events: [],
+  ...extra
+});
+
+// Two tiles of 120 × 100 px over a 200 × 100 px area, overlapping by 40 px
+const TILES: TileRect[] = [
+  { x: 0, y: 0, width: 120, height: 100 },
+  { x: 80, y: 0, width: 120, height: 100 }
+];
+
+describe("planTiles", () => {
+  it("covers the area with tiles that end at its border", () => {
+    const tiles = planTiles(2500, 1000, 1024, 100);
+    expect(tiles.every(t => t.width === 1024 && t.height === 1000)).toBe(true);
+    expect(tiles[0].x).toBe(0);
+    expect(tiles[tiles.length - 1].x + 1024).toBe(2500);
+    tiles.slice(1).forEach((t, i) => expect(tiles[i].x + 1024 - t.x).toBeGreaterThanOrEqual(100));
+  });
+});
+
+describe("combineTileResults", () => {
+  it("maps detections to the whole area and merges a cell seen by both tiles", () => {
+    // The shared cell sits at (105, 50) px: 15 px from tile 1's inner border, 25 px from tile 2's
+    const results = [
+      tileFrame([{ x: (20 / 120) * 100, y: 30 }, { x: (105 / 120) * 100, y: 50, r: (5 / 120) * 100, status: 'Normal' }]),
+      tileFrame([{ x: (25 / 120) * 100, y: 50, r: (5 / 120) * 100, status: 'Rounding' }])
+    ];
+    const combined = combineTileResults(results, TILES, 200, 100, 4);
+
+    expect(combined.timestamp).toBe(4);
+    expect(combined.analysisStatus).toBe('ok');
+    expect(combined.cellCount).toBe(2);
+
+    const shared = combined.cells.find(c => c.x > 50)!;
+    expect(shared.status).toBe('Rounding'); // Kept from the tile where it lies farther from the border
+    expect(shared.x).toBeCloseTo(52.5);
+    expect(shared.y).toBeCloseTo(50);
+    expect(shared.r).toBeCloseTo(2.5);
+
+    const single = combined.cells.find(c => c.x < 50)!;
+    expect(single.x).toBeCloseTo(10);
+    expect(single.y).toBeCloseTo(30);
+    expect(new Set(combined.cells.map(c => c.id)).size).toBe(2);
+  });
+
+  it("moves event locations to the whole area and drops repeats", () => {
+    const event = { type: EventType.Mitosis, description: 'Metaphase plate', x: (25 / 120) * 100, y: 50 };
+    const results = [
+      tileFrame([], { events: [{ ...event, x: (105 / 120) * 100, confidence: 0.6 }] }),
+      tileFrame([], { events: [{ ...event, confidence: 0.9 }] })
+    ];
+    const combined = combineTileResults(results, TILES, 200, 100, 0);
+
+    expect(combined.events).toHaveLength(1);
+    expect(combined.events[0].x).toBeCloseTo(52.5);
+    expect(combined.events[0].confidence).toBe(0.9);
+  });
+
+  it("fails the frame when any tile failed", () => {
+    const results = [tileFrame([{}]), tileFrame([], { analysisStatus: 'failed', analysisError: 'quota exceeded' })];
+    const combined = combineTileResults(results, TILES, 200, 100, 2);
+
+    expect(combined.analysisStatus).toBe('failed');
+    expect(combined.timestamp).toBe(2);
+    expect(combined.analysisError).toBe('Tile 2/2: quota exceeded');
+  });
+});
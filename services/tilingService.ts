@@ -0,0 +1,113 @@
+import { Cell, FrameData, FrameWarning, TileRect } from "../types";
+import { isUsableFrame } from "./frameStatusService";
+import { mapEventLocations, mergeEvents } from "./eventService";
+
+// Tile side offered when tiling is switched on (px)
+export const DEFAULT_TILE_SIZE = 1024;
+// Smallest tile side accepted (px); smaller tiles cost many requests for little gain
+export const MIN_TILE_SIZE = 256;
+// Detections from different tiles whose centres are closer than this fraction of the larger radius are one cell
+const MERGE_DISTANCE_FACTOR = 1;
+
+// Helper: Tile starts along one axis. Tiles are spread evenly so the last one ends at the border,
+// with at least the requested overlap between neighbours.
+const planAxis = (length: number, size: number, overlap: number): { start: number; size: number }[] => {
+  const tile = Math.min(size, length);
+  if (tile >= length) return [{ start: 0, size: length }];
+  const step = Math.max(1, tile - overlap);
+  const count = Math.ceil((length - tile) / step) + 1;
+  return Array.from({ length: count }, (_, i) => ({ start: Math.round((i * (length - tile)) / (count - 1)), size: tile }));
+};
+
+/**
+ * Grid of overlapping tiles covering an area of width × height native pixels, row by row.
+ * The overlap is capped at half a tile, so the grid always advances.
+ */
+export const planTiles = (width: number, height: number, tileSize: number, overlap: number): TileRect[] => {
+  const size = Math.max(MIN_TILE_SIZE, Math.round(tileSize));
+  const clampedOverlap = Math.min(Math.max(0, Math.round(overlap)), Math.floor(size / 2));
+  const columns = planAxis(width, size, clampedOverlap);
+  const rows = planAxis(height, size, clampedOverlap);
+  return rows.flatMap(row => columns.map(col => ({ x: col.start, y: row.start, width: col.size, height: row.size })));
+};
+
+/**
+ * Joins the per-tile results of one frame into a frame over the whole area (% of the area, radii
+ * % of its width). A cell cut by a tile border is seen by two tiles; of detections from different
+ * tiles that lie within one radius of each other, the one farthest from an inner tile border is
+ * kept. A failed or unanswered tile fails the whole frame, as part of the field would be missing.
+ */
+export const combineTileResults = (
+  results: FrameData[],
+  tiles: TileRect[],
+  areaWidth: number,
+  areaHeight: number,
+  timestamp: number
+): FrameData => {
+  const unusable = results.findIndex(r => !isUsableFrame(r));
+  if (unusable >= 0) {
+    const failed = results[unusable];
+    return {
+      ...failed,
+      timestamp,
+      analysisStatus: 'failed',
+      analysisError: `Tile ${unusable + 1}/${tiles.length}: ${failed.analysisError ?? 'no detections returned'}`
+    };
+  }
+
+  // Detections in area pixels, with their distance to the nearest border shared with another tile
+  const candidates = results.flatMap((result, t) => {
+    const tile = tiles[t];
+    return result.cells.map(cell => {
+      const x = tile.x + (cell.x / 100) * tile.width;
+      const y = tile.y + (cell.y / 100) * tile.height;
+      const r = (cell.r / 100) * tile.width;
+      const margins = [
+        tile.x > 0 ? x - tile.x : Infinity,
+        tile.x + tile.width < areaWidth ? tile.x + tile.width - x : Infinity,
+        tile.y > 0 ? y - tile.y : Infinity,
+        tile.y + tile.height < areaHeight ? tile.y + tile.height - y : Infinity
+      ];
+      return { cell, tileIndex: t, x, y, r, margin: Math.min(...margins) };
+    });
+  }).sort((a, b) => b.margin - a.margin);
+
+  const kept: typeof candidates = [];
+  let merged = 0;
+  candidates.forEach(candidate => {
+    const duplicate = kept.some(other =>
+      other.tileIndex !== candidate.tileIndex &&
+      Math.hypot(other.x - candidate.x, other.y - candidate.y) < MERGE_DISTANCE_FACTOR * Math.max(other.r, candidate.r)
+    );
+    if (duplicate) merged++;
+    else kept.push(candidate);
+  });
+
+  const cells: Cell[] = kept.map((c, i) => ({
+    ...c.cell,
+    id: i + 1, // Placeholder, the tracker assigns the real IDs
+    x: (c.x / areaWidth) * 100,
+    y: (c.y / areaHeight) * 100,
+    r: (c.r / areaWidth) * 100
+  }));
+
+  // The same event is often reported by neighbouring tiles
+  const events = mergeEvents(results.map((r, t) => mapEventLocations(r.events, (x, y) => ({
+    x: ((tiles[t].x + (x / 100) * tiles[t].width) / areaWidth) * 100,
+    y: ((tiles[t].y + (y / 100) * tiles[t].height) / areaHeight) * 100
+  }))));
+
+  const warnings: FrameWarning[] = results.flatMap((r, t) =>
+    (r.warnings ?? []).map(w => ({ ...w, message: `Tile ${t + 1}: ${w.message}` }))
+  );
+  if (merged > 0) console.info(`Frame ${timestamp}s: merged ${merged} detections shared by overlapping tiles.`);
+
+  return {
+    timestamp,
+    cellCount: cells.length,
+    cells,
+    events,
+    analysisStatus: 'ok',
+    ...(warnings.length > 0 ? { warnings } : {})
+  };
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { Cell, EventType, FrameData } from "../types";
+import { linkCellsAcrossFrames, solveAssignment } from "./trackingService";
+
+// Helper: A detected frame; IDs are placeholders until the tracker assigns them
+const frame = (timestamp: number, cells: Partial<Cell>[]): FrameData => ({
+  timestamp,
+  cellCount: cells.length,
+  cells: cells.map(c => ({ id: 0, x: 50, y: 50, r: 3, status: 'Normal', ...c })),
+  events: []
+});
+
+// Helper: Track ID of the cell nearest to a position
+const idAt = (f: FrameData, x: number, y: number): number =>
+  f.cells.reduce((best, c) => Math.hypot(c.x - x, c.y - y) < Math.hypot(best.x - x, best.y - y) ? c : best).id;
+
+describe("solveAssignment", () => {
+  it("finds the cheapest assignment rather than the greedy one", () => {
+    // Greedy would take row 0 -> col 0 (1) and then pay 10 for row 1
+    const cost = [
+      [1, 2],
+      [2, 10]
+    ];
+    expect(solveAssignment(cost)).toEqual([1, 0]);
+  });
+
+  it("assigns every row of a rectangular problem to a distinct column", () => {
+    const cost = [
+      [4, 1, 3, 9],
+      [2, 0, 5, 9],
+      [3, 2, 2, 9]
+    ];
+    const assignment = solveAssignment(cost);
+    expect(new Set(assignment).size).toBe(3);
+    expect(assignment.reduce((acc, col, row) => acc + cost[row][col], 0)).toBe(5);
+  });
+});
+
+describe("linkCellsAcrossFrames", () => {
+  it("keeps the identity of cells moving through the field", () => {
+    const frames = [
+      frame(0, [{ x: 20, y: 20 }, { x: 70, y: 70 }]),
+      frame(1, [{ x: 72, y: 71 }, { x: 22, y: 21 }]),
+      frame(2, [{ x: 24, y: 22 }, { x: 74, y: 72 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    const left = idAt(frames[0], 20, 20);
+    const right = idAt(frames[0], 70, 70);
+    expect(left).not.toBe(right);
+    expect(idAt(frames[1], 22, 21)).toBe(left);
+    expect(idAt(frames[2], 74, 72)).toBe(right);
+  });
+
+  it("links competing cells jointly instead of nearest-first", () => {
+    // Nearest-first would give the cell at 46 to the track at 50 and leave the one at 56 unlinked
+    const frames = [
+      frame(0, [{ x: 40, y: 50 }, { x: 50, y: 50 }]),
+      frame(1, [{ x: 46, y: 50 }, { x: 56, y: 50 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    expect(idAt(frames[1], 46, 50)).toBe(idAt(frames[0], 40, 50));
+    expect(idAt(frames[1], 56, 50)).toBe(idAt(frames[0], 50, 50));
+  });
+
+  it("bridges a missed detection and records the gap", () => {
+    const frames = [
+      frame(0, [{ x: 40, y: 40 }]),
+      frame(1, [{ x: 41, y: 40 }]),
+      frame(2, []),
+      frame(3, [{ x: 43, y: 40 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    const id = frames[0].cells[0].id;
+    expect(frames[3].cells[0].id).toBe(id);
+    expect(frames[3].cells[0].gap).toBe(1);
+    expect(frames[2].bridgedTrackIds).toEqual([id]);
+    expect(frames[0].cells[0].trackStart).toBe('initial');
+    expect(frames[3].cells[0].trackEnd).toBe('final');
+  });
+
+  it("keeps a gated bridging link over the longest gap even when it is costly", () => {
+    // Far off, much smaller and dying: costs more than twice the plain non-link cost with the gap penalty
+    const frames = [
+      frame(0, [{ x: 30, y: 50, r: 5 }]),
+      frame(1, [{ x: 30, y: 50, r: 5 }]),
+      frame(2, []),
+      frame(3, []),
+      frame(4, []),
+      frame(5, [{ x: 63, y: 50, r: 1, status: 'Apoptotic' }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    expect(frames[5].cells[0].id).toBe(frames[0].cells[0].id);
+    expect(frames[5].cells[0].gap).toBe(3);
+  });
+
+  it("prefers a direct link over a bridged one for the same cell", () => {
+    const frames = [
+      frame(0, [{ x: 30, y: 50 }, { x: 36, y: 50 }]),
+      frame(1, [{ x: 30, y: 50 }]),
+      frame(2, [{ x: 33, y: 50 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    expect(frames[2].cells[0].id).toBe(frames[1].cells[0].id);
+    expect(frames[2].cells[0].gap).toBe(0);
+  });
+
+  it("starts a new track for a cell beyond the gate", () => {
+    const frames = [
+      frame(0, [{ x: 20, y: 50 }]),
+      frame(1, [{ x: 80, y: 50 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    expect(frames[1].cells[0].id).not.toBe(frames[0].cells[0].id);
+    expect(frames[0].cells[0].trackEnd).toBe('lost');
+    expect(frames[1].cells[0].trackStart).toBe('appeared');
+  });
+
+  it("traces a division from a mitotic mother to two daughters", () => {
+    const frames = [
+      frame(0, [{ x: 50, y: 50 }]),
+      frame(1, [{ x: 50, y: 50, status: 'Dividing' }]),
+      frame(2, [{ x: 46, y: 50, r: 2 }, { x: 54, y: 50, r: 2 }])
+    ];
+    linkCellsAcrossFrames(frames);
+
+    const mother = frames[0].cells[0].id;
+    const daughters = frames[2].cells;
+    expect(frames[1].cells[0].id).toBe(mother);
+    expect(frames[1].cells[0].trackEnd).toBe('divided');
+    expect(new Set(daughters.map(d => d.id)).size).toBe(2);
+    daughters.forEach(daughter => {
+      expect(daughter.id).not.toBe(mother);
+      expect(daughter.parentId).toBe(mother);
+      expect(daughter.generation).toBe(1);
+      expect(daughter.trackStart).toBe('division');
+    });
+
+    const division = frames[2].events.find(e => e.type === EventType.Division);
+    expect(division?.source).toBe('tracker');
+    expect(division?.cellIds?.sort()).toEqual([mother, ...daughters.map(d => d.id)].sort());
+  });
+
+  it("skips failed frames and returns them in place", () => {
+    const failed: FrameData = { timestamp: 1, cellCount: 0, cells: [], events: [], analysisStatus: 'failed', analysisError: 'timeout' };
+    const frames = [frame(0, [{ x: 40, y: 40 }]), failed, frame(2, [{ x: 42, y: 40 }])];
+    const linked = linkCellsAcrossFrames(frames);
+
+    expect(linked[1]).toBe(failed);
+    expect(frames[2].cells[0].id).toBe(frames[0].cells[0].id);
+    expect(frames[2].cells[0].gap).toBe(0);
+  });
+});
@@ -0,0 +1,545 @@
+import { Cell, EventType, FrameData } from "../types";
+import { isUsableFrame } from "./frameStatusService";
+import { attachEventSubjects, getCellsCentroid, isTrackerEvent } from "./eventService";
+
+// Number of past positions kept per cell for drawing motion trails
+const HISTORY_LENGTH = 10;
+
+// GATING: How far a cell may plausibly travel between two sampled frames.
+// Expressed in % of frame per second of video, so the gate widens with the actual sampling gap
+// instead of using one fixed radius for both 1s and 5s intervals.
+const MAX_SPEED_PER_SEC = 10;
+const MIN_GATE = 5;  // Floor for closely spaced frames (detection jitter alone can be a few %)
+const MAX_GATE = 35; // Ceiling for sparse sampling, beyond this links are guesswork
+
+// COST WEIGHTS: Each term is normalised to 0-1 before weighting
+const DISTANCE_WEIGHT = 1.0;
+const RADIUS_WEIGHT = 0.5;
+const STATUS_WEIGHT = 0.3;
+
+// GAP CLOSING: A track missed by the detector may be re-linked up to MAX_GAP_FRAMES sampled frames later.
+// Bridged links are matched against the constant-velocity prediction and pay a small penalty
+// per missed frame so that direct links always win when both are possible.
+const MAX_GAP_FRAMES = 3;
+const GAP_PENALTY = 0.15;
+const VELOCITY_SMOOTHING = 0.5; // Weight of the newest displacement in the velocity estimate
+
+// Border band (% of frame) where appearing/disappearing tracks count as entering/leaving the field
+const EDGE_MARGIN = 5;
+
+// LINEAGE: A division links a mother seen mitotic within DIVISION_LOOKBACK_FRAMES sampled frames
+// to new tracks appearing within DIVISION_RADIUS_FACTOR mother radii (at least MIN_DIVISION_DISTANCE %)
+const DIVISION_LOOKBACK_FRAMES = 2;
+const DIVISION_RADIUS_FACTOR = 3;
+const MIN_DIVISION_DISTANCE = 5;
+
+// Cost of leaving a cell unlinked (track ends, or a new track starts).
+// Set so that any gated pair is cheaper to link than to leave both sides unlinked: a direct link
+// costs at most 1.8 (+ GAP_PENALTY for one missed frame), and the end of a track missed for longer
+// also carries the penalty of the frames beyond the first (see getEndCost).
+const NON_LINK_COST = 1.0;
+
+// Finite stand-in for "impossible" so the solver arithmetic never produces NaN
+const BLOCKED = 1e6;
+
+// A track end that is still open for linking into the current frame
+interface LinkCandidate {
+  cell: Cell;   // Last detection of the track
+  x: number;    // Expected position in the current frame
+  y: number;
+  gate: number; // Maximum distance from the expected position
+  gap: number;  // Sampled frames missed since the last detection
+}
+
+// Internal tracker state for one track
+interface TrackState {
+  last: Cell;
+  frameIndex: number;
+  timestamp: number;
+  vx: number; // Velocity estimate, % of frame per second
+  vy: number;
+  detections: number;
+}
+
+const MITOTIC_KEYWORDS = ['divid', 'mitosis', 'prophase', 'metaphase', 'anaphase', 'telophase', 'cytokinesis'];
+const DYING_KEYWORDS = ['apopto', 'lysing', 'blebbing', 'necro', 'dead', 'death'];
+
+// Helper: Coarse biological state used to compare status labels between frames
+const getStatusGroup = (status?: string): 'mitotic' | 'dying' | 'interphase' => {
+  const s = (status || 'Normal').toLowerCase();
+  if (MITOTIC_KEYWORDS.some(k => s.includes(k))) return 'mitotic';
+  if (DYING_KEYWORDS.some(k => s.includes(k))) return 'dying';
+  return 'interphase';
+};
+
+// Helper: 0 for identical labels, 0.5 for the same state group, 1 otherwise
+const getStatusDissimilarity = (a?: string, b?: string): number => {
+  if ((a || 'Normal').toLowerCase() === (b || 'Normal').toLowerCase()) return 0;
+  return getStatusGroup(a) === getStatusGroup(b) ? 0.5 : 1;
+};
+
+// Helper: Maximum linking distance for a given time gap between frames
+export const getGateRadius = (dtSeconds: number): number => {
+  return Math.min(MAX_GATE, Math.max(MIN_GATE, MAX_SPEED_PER_SEC * dtSeconds));
+};
+
+// Helper: Cost of linking a track candidate -> curr, or BLOCKED if outside the gate
+const getLinkCost = (candidate: LinkCandidate, curr: Cell): number => {
+  const prev = candidate.cell;
+  const dist = Math.hypot(curr.x - candidate.x, curr.y - candidate.y);
+  if (dist > candidate.gate) return BLOCKED;
+
+  const distanceTerm = Math.pow(dist / candidate.gate, 2);
+  const radiusTerm = Math.min(1, Math.abs(curr.r - prev.r) / Math.max(curr.r, prev.r, 0.01));
+  const statusTerm = getStatusDissimilarity(prev.status, curr.status);
+
+  return DISTANCE_WEIGHT * distanceTerm
+    + RADIUS_WEIGHT * radiusTerm
+    + STATUS_WEIGHT * statusTerm
+    + GAP_PENALTY * candidate.gap;
+};
+
+// Helper: Cost of leaving a track candidate unlinked in this frame. Offsets all but one frame of
+// its gap penalty, so bridging stays cheaper than ending while a direct link still wins a conflict.
+const getEndCost = (candidate: LinkCandidate): number => NON_LINK_COST + GAP_PENALTY * Math.max(0, candidate.gap - 1);
+
+// Helper: True if a cell touches the border band of the field of view
+const isNearEdge = (x: number, y: number, r: number): boolean => {
+  return x - r < EDGE_MARGIN || y - r < EDGE_MARGIN || x + r > 100 - EDGE_MARGIN || y + r > 100 - EDGE_MARGIN;
+};
+
+/**
+ * Solves the rectangular assignment problem (Hungarian algorithm with potentials, O(n²m)).
+ * Requires rows <= columns. Returns the assigned column for every row.
+ */
+export const solveAssignment = (cost: number[][]): number[] => {
+  const n = cost.length;
+  if (n === 0) return [];
+  const m = cost[0].length;
+
+  // 1-indexed potentials and matching, index 0 is the virtual start column
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    // Augment along the alternating path
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const rowToCol = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j] !== 0) rowToCol[p[j] - 1] = j - 1;
+  }
+  return rowToCol;
+};
+
+/**
+ * Finds the globally cheapest one-to-one linking between open tracks and the cells of a frame.
+ * Uses the augmented LAP formulation: every cell may also be left unlinked at NON_LINK_COST
+ * (plus the gap penalty for tracks already missing),
+ * so conflicting candidates are resolved jointly instead of first-come-first-served.
+ * Returns, for each current cell, the index of its linked candidate or -1.
+ */
+const solveFrameLinking = (candidates: LinkCandidate[], currCells: Cell[]): number[] => {
+  const n = candidates.length;
+  const m = currCells.length;
+  if (n === 0 || m === 0) return new Array(m).fill(-1);
+
+  const size = n + m;
+  const cost: number[][] = [];
+
+  for (let row = 0; row < size; row++) {
+    const line = new Array(size).fill(BLOCKED);
+    for (let col = 0; col < size; col++) {
+      if (row < n && col < m) {
+        // Link block: track candidate -> current cell
+        line[col] = getLinkCost(candidates[row], currCells[col]);
+      } else if (row < n && col >= m) {
+        // Track-end block: previous cell left unlinked (diagonal only)
+        if (col - m === row) line[col] = getEndCost(candidates[row]);
+      } else if (row >= n && col < m) {
+        // Track-start block: current cell left unlinked (diagonal only)
+        if (row - n === col) line[col] = NON_LINK_COST;
+      } else {
+        // Auxiliary block: free, lets unused start/end slots pair with each other
+        line[col] = 0;
+      }
+    }
+    cost.push(line);
+  }
+
+  const assignment = solveAssignment(cost);
+  const currToPrev = new Array(m).fill(-1);
+  for (let row = 0; row < n; row++) {
+    const col = assignment[row];
+    if (col >= 0 && col < m && cost[row][col] < BLOCKED) {
+      currToPrev[col] = row;
+    }
+  }
+  return currToPrev;
+};
+
+/**
+ * Reconstructs divisions: a mitotic mother is linked to the two new tracks that appear near it.
+ * If the tracker already continued the mother into one daughter, that continuation is split off
+ * under a new ID so mother and daughters are separate tracks. Sets parentId/generation on every detection.
+ */
+const reconstructLineage = (frames: FrameData[], firstFreeId: number) => {
+  let nextId = firstFreeId;
+  const firstSeen = new Set<number>();
+  const lastSeen = new Map<number, { frameIndex: number; cell: Cell }>();
+  const lastMitotic = new Map<number, number>(); // track id -> frame index of last mitotic detection
+  const parentOf = new Map<number, number>();
+  const divided = new Set<number>();
+
+  frames.forEach((frame, i) => {
+    if (i > 0) {
+      const newCells = frame.cells.filter(c => !firstSeen.has(c.id) && !isNearEdge(c.x, c.y, c.r));
+      const used = new Set<Cell>();
+
+      // Candidate mothers, seen mitotic recently and not divided yet
+      const mothers = [...lastMitotic.entries()]
+        .filter(([id, frameIndex]) => !divided.has(id) && i - frameIndex <= DIVISION_LOOKBACK_FRAMES)
+        .map(([id]) => lastSeen.get(id)!.cell);
+
+      const distanceTo = (mother: Cell) => (c: Cell) => Math.hypot(c.x - mother.x, c.y - mother.y);
+      const nearbyNewCells = (mother: Cell) => {
+        const radius = Math.max(MIN_DIVISION_DISTANCE, DIVISION_RADIUS_FACTOR * mother.r);
+        const dist = distanceTo(mother);
+        return newCells.filter(c => !used.has(c) && dist(c) <= radius).sort((a, b) => dist(a) - dist(b));
+      };
+
+      // Resolve mothers with the closest daughters first
+      mothers
+        .map(mother => ({ mother, nearby: nearbyNewCells(mother) }))
+        .filter(m => m.nearby.length > 0)
+        .sort((a, b) => distanceTo(a.mother)(a.nearby[0]) - distanceTo(b.mother)(b.nearby[0]))
+        .forEach(({ mother }) => {
+          const nearby = nearbyNewCells(mother);
+          const continuation = frame.cells.find(c => c.id === mother.id);
+
+          let daughters: Cell[];
+          if (nearby.length >= 2) daughters = nearby.slice(0, 2);
+          else if (nearby.length === 1 && continuation) daughters = [continuation, nearby[0]];
+          else return;
+
+          daughters.forEach(daughter => {
+            if (daughter === continuation) {
+              // Split the continued track off the mother from this frame on
+              const newId = nextId++;
+              for (let k = i; k < frames.length; k++) {
+                frames[k].cells.forEach(c => { if (c.id === mother.id) c.id = newId; });
+              }
+            }
+            used.add(daughter);
+            parentOf.set(daughter.id, mother.id);
+          });
+          divided.add(mother.id);
+        });
+    }
+
+    frame.cells.forEach(cell => {
+      firstSeen.add(cell.id);
+      lastSeen.set(cell.id, { frameIndex: i, cell });
+      if (getStatusGroup(cell.status) === 'mitotic') lastMitotic.set(cell.id, i);
+    });
+  });
+
+  const generationOf = (id: number): number => {
+    const parentId = parentOf.get(id);
+    return parentId === undefined ? 0 : generationOf(parentId) + 1;
+  };
+
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    const parentId = parentOf.get(cell.id);
+    if (parentId !== undefined) cell.parentId = parentId;
+    else delete cell.parentId;
+    cell.generation = generationOf(cell.id);
+  }));
+};
+
+// Helper: Rebuilds motion trails from the final track IDs
+const rebuildHistories = (frames: FrameData[]) => {
+  const lastSeen = new Map<number, Cell>();
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    const previous = lastSeen.get(cell.id);
+    // Motion Trail Logic: Inherit history + add previous point
+    cell.history = previous
+      ? [...(previous.history || []), { x: previous.x, y: previous.y }].slice(-HISTORY_LENGTH)
+      : [];
+    lastSeen.set(cell.id, cell);
+  }));
+};
+
+/**
+ * Marks where each track starts and ends, and whether it entered/left the field of view,
+ * was born/ended by division, or simply appeared/was lost in the interior.
+ * Also lists tracks bridged through each frame.
+ */
+const annotateTrackBoundaries = (frames: FrameData[]) => {
+  const firstSeen = new Map<number, { frameIndex: number; cell: Cell }>();
+  const lastSeen = new Map<number, { frameIndex: number; cell: Cell; vx: number; vy: number }>();
+  const mothers = new Set<number>();
+
+  frames.forEach((frame, frameIndex) => {
+    frame.bridgedTrackIds = [];
+    frame.cells.forEach(cell => {
+      delete cell.trackStart;
+      delete cell.trackEnd;
+      if (!firstSeen.has(cell.id)) firstSeen.set(cell.id, { frameIndex, cell });
+      if (cell.parentId !== undefined) mothers.add(cell.parentId);
+
+      const previous = lastSeen.get(cell.id);
+      let vx = 0;
+      let vy = 0;
+      if (previous) {
+        const dt = frame.timestamp - frames[previous.frameIndex].timestamp;
+        if (dt > 0) {
+          vx = (cell.x - previous.cell.x) / dt;
+          vy = (cell.y - previous.cell.y) / dt;
+        }
+        // Record the frames this track was bridged through
+        for (let k = previous.frameIndex + 1; k < frameIndex; k++) {
+          frames[k].bridgedTrackIds!.push(cell.id);
+        }
+      }
+      lastSeen.set(cell.id, { frameIndex, cell, vx, vy });
+    });
+  });
+
+  const lastIndex = frames.length - 1;
+
+  firstSeen.forEach(({ frameIndex, cell }) => {
+    if (cell.parentId !== undefined) cell.trackStart = 'division';
+    else if (frameIndex === 0) cell.trackStart = 'initial';
+    else cell.trackStart = isNearEdge(cell.x, cell.y, cell.r) ? 'entered' : 'appeared';
+  });
+
+  lastSeen.forEach(({ frameIndex, cell, vx, vy }) => {
+    if (mothers.has(cell.id)) {
+      cell.trackEnd = 'divided';
+      return;
+    }
+    if (frameIndex === lastIndex) {
+      cell.trackEnd = 'final';
+      return;
+    }
+    // Project to the next sampled frame: a track heading out of the field counts as exited
+    const dt = frames[frameIndex + 1].timestamp - frames[frameIndex].timestamp;
+    const px = cell.x + vx * dt;
+    const py = cell.y + vy * dt;
+    const leaving = isNearEdge(cell.x, cell.y, cell.r) || px < 0 || px > 100 || py < 0 || py > 100;
+    cell.trackEnd = leaving ? 'exited' : 'lost';
+  });
+};
+
+// Helper: Heuristic event detection from the final tracks (divisions and unexplained growth)
+const addTrackerEvents = (frames: FrameData[]) => {
+  const reported = new Set<number>();
+
+  frames.forEach((frame, i) => {
+    // Division: announce each mother once, in the frame its daughters first appear
+    frame.cells.forEach(cell => {
+      if (cell.trackStart !== 'division' || reported.has(cell.parentId!)) return;
+      reported.add(cell.parentId!);
+      const daughters = frame.cells.filter(c => c.trackStart === 'division' && c.parentId === cell.parentId);
+      frame.events.push({
+        type: EventType.Division,
+        description: `Cell #${cell.parentId} divided into ${daughters.map(d => `#${d.id}`).join(' and ')}`,
+        cellIds: [cell.parentId!, ...daughters.map(d => d.id)],
+        ...getCellsCentroid(daughters),
+        source: 'tracker'
+      });
+    });
+
+    // Growth: population grew and new IDs appeared inside the field without a traced division
+    if (i === 0) return;
+    const appeared = frame.cells.filter(c => c.trackStart === 'appeared');
+    if (appeared.length > 0 && frame.cells.length > frames[i - 1].cells.length) {
+      // Only add if not already redundant with AI detection
+      const hasMitosis = frame.events.some(e => e.type === EventType.Mitosis);
+      if (!hasMitosis) {
+        appeared.forEach(cell => frame.events.push({
+          type: EventType.Growth,
+          description: `New cell #${cell.id} appeared inside the field (Total: ${frame.cells.length})`,
+          cellIds: [cell.id],
+          x: cell.x,
+          y: cell.y,
+          source: 'tracker'
+        }));
+      }
+    }
+  });
+};
+
+// Helper: Tracker to link IDs with one-to-one global assignment and gap closing, reconstruct lineage,
+// detect growth events, and manage trails. Failed frames are skipped (tracks continue across them)
+// and returned unchanged in their place.
+export const linkCellsAcrossFrames = (allFrames: FrameData[]): FrameData[] => {
+  const frames = allFrames.filter(isUsableFrame);
+  if (frames.length === 0) return allFrames;
+
+  // Tracker events are derived data, rebuilt on every run
+  frames.forEach(frame => {
+    frame.events = frame.events.filter(e => !isTrackerEvent(e));
+  });
+
+  let nextId = 1;
+  const tracks = new Map<number, TrackState>();
+
+  const startTrack = (cell: Cell, frameIndex: number, timestamp: number) => {
+    cell.id = nextId++;
+    cell.gap = 0;
+    tracks.set(cell.id, { last: cell, frameIndex, timestamp, vx: 0, vy: 0, detections: 1 });
+  };
+
+  // Assign fresh IDs to first frame
+  frames[0].cells.forEach(cell => startTrack(cell, 0, frames[0].timestamp));
+
+  for (let i = 1; i < frames.length; i++) {
+    const currFrame = frames[i];
+    const currCells = currFrame.cells;
+
+    // Open tracks: seen in the previous frame, or missed for at most MAX_GAP_FRAMES frames
+    const candidates: LinkCandidate[] = [];
+    tracks.forEach(track => {
+      const gap = i - track.frameIndex - 1;
+      if (gap > MAX_GAP_FRAMES) return;
+
+      // Gate scales with the real time since this track was last seen
+      const dt = currFrame.timestamp - track.timestamp;
+      const predict = gap > 0 && track.detections > 1;
+      candidates.push({
+        cell: track.last,
+        x: predict ? track.last.x + track.vx * dt : track.last.x,
+        y: predict ? track.last.y + track.vy * dt : track.last.y,
+        gate: getGateRadius(dt),
+        gap
+      });
+    });
+
+    const currToCandidate = solveFrameLinking(candidates, currCells);
+
+    currCells.forEach((curr, j) => {
+      const candidate = currToCandidate[j] >= 0 ? candidates[currToCandidate[j]] : null;
+
+      if (candidate) {
+        const match = candidate.cell;
+        const track = tracks.get(match.id)!;
+        const dt = currFrame.timestamp - track.timestamp;
+
+        curr.id = match.id;
+        curr.gap = candidate.gap;
+
+        if (dt > 0) {
+          const vx = (curr.x - match.x) / dt;
+          const vy = (curr.y - match.y) / dt;
+          const alpha = track.detections > 1 ? VELOCITY_SMOOTHING : 1;
+          track.vx = alpha * vx + (1 - alpha) * track.vx;
+          track.vy = alpha * vy + (1 - alpha) * track.vy;
+        }
+        track.last = curr;
+        track.frameIndex = i;
+        track.timestamp = currFrame.timestamp;
+        track.detections++;
+      } else {
+        // No match found - this is likely a new cell
+        startTrack(curr, i, currFrame.timestamp);
+      }
+    });
+  }
+
+  reconstructLineage(frames, nextId);
+  rebuildHistories(frames);
+  annotateTrackBoundaries(frames);
+  attachEventSubjects(frames);
+  addTrackerEvents(frames);
+
+  return allFrames;
+};
+
+/**
+ * Runs the post-linking passes (trails, track boundaries, event subjects, tracker events) on frames whose
+ * IDs and parent links were assigned elsewhere, e.g. tracks imported from TrackMate.
+ */
+export const annotateExistingTracks = (allFrames: FrameData[]): FrameData[] => {
+  const frames = allFrames.filter(isUsableFrame);
+  frames.forEach(frame => {
+    frame.events = frame.events.filter(e => !isTrackerEvent(e));
+  });
+  rebuildHistories(frames);
+  annotateTrackBoundaries(frames);
+  attachEventSubjects(frames);
+  addTrackerEvents(frames);
+  return allFrames;
+};
+
+/**
+ * Counts track starts/ends by reason and gap-closed links, for reports.
+ */
+export const summarizeTrackBoundaries = (frames: FrameData[]) => {
+  const summary = {
+    totalTracks: 0,
+    startedInitially: 0,
+    bornByDivision: 0,
+    enteredField: 0,
+    appearedInField: 0,
+    leftField: 0,
+    lost: 0,
+    gapsClosed: 0
+  };
+
+  frames.forEach(frame => frame.cells.forEach(cell => {
+    if (cell.trackStart) summary.totalTracks++;
+    if (cell.trackStart === 'initial') summary.startedInitially++;
+    if (cell.trackStart === 'division') summary.bornByDivision++;
+    if (cell.trackStart === 'entered') summary.enteredField++;
+    if (cell.trackStart === 'appeared') summary.appearedInField++;
+    if (cell.trackEnd === 'exited') summary.leftField++;
+    if (cell.trackEnd === 'lost') summary.lost++;
+    if (cell.gap && cell.gap > 0) summary.gapsClosed++;
+  }));
+
+  return summary;
+};
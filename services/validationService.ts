@@ -0,0 +1,210 @@
+import { Cell, FrameData, FrameEvent, FrameWarning, ValidationIssue } from "../types";
+import { getCellsCentroid, normalizeEventType } from "./eventService";
+
+// Coordinates this far outside 0-100 % are taken as edge cells and clamped; further out they are dropped
+const COORDINATE_TOLERANCE = 5;
+// Radii (% of frame width) above this cannot be a single cell in a field of view
+const MAX_RADIUS = 50;
+// Two detections whose centres are closer than this fraction of the smaller radius are one cell
+const DUPLICATE_DISTANCE_FACTOR = 0.5;
+// Longer status labels are cut (the overlay shows them above the cell)
+const MAX_STATUS_LENGTH = 40;
+// Longer event descriptions are cut (the event log shows them on one line)
+const MAX_EVENT_DESCRIPTION_LENGTH = 300;
+
+export interface ValidatedResponse {
+  cellCount: number;
+  cells: Cell[]; // IDs are placeholders; the tracker assigns the real ones
+  events: FrameEvent[]; // Located but not yet linked to tracks (see attachEventSubjects)
+  warnings: FrameWarning[];
+}
+
+// Helper: Finite number or null (numeric strings are accepted, the schema asks for numbers)
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+/**
+ * One entry of frameEvents: a structured event or, from older prompts, a plain description.
+ * The type is matched against the taxonomy (unknown types are classified by keywords), cell
+ * numbers refer to the listed cells (1-based), and the location is the given point or else the
+ * centre of the referenced cells. Out-of-range confidences and locations are ignored.
+ */
+const validateEvent = (
+  raw: unknown,
+  keptCells: (Cell | undefined)[],
+  label: string,
+  warn: (issue: ValidationIssue, message: string) => void
+): FrameEvent | null => {
+  if (typeof raw === 'string') {
+    const description = raw.trim().slice(0, MAX_EVENT_DESCRIPTION_LENGTH);
+    if (!description) {
+      warn('malformed', `${label} is empty; ignored.`);
+      return null;
+    }
+    return { type: normalizeEventType(undefined, description), description, source: 'detector' };
+  }
+  if (typeof raw !== 'object' || raw === null) {
+    warn('malformed', `${label} is not an object; ignored.`);
+    return null;
+  }
+  const entry = raw as Record<string, unknown>;
+  const description = typeof entry.description === 'string' ? entry.description.trim().slice(0, MAX_EVENT_DESCRIPTION_LENGTH) : '';
+  if (!description) {
+    warn('malformed', `${label} has no description; ignored.`);
+    return null;
+  }
+  const event: FrameEvent = { type: normalizeEventType(entry.type, description), description, source: 'detector' };
+
+  const subjects: Cell[] = [];
+  if (Array.isArray(entry.cells)) {
+    entry.cells.forEach(value => {
+      const n = toNumber(value);
+      const cell = n !== null && Number.isInteger(n) ? keptCells[n - 1] : undefined;
+      if (!cell) warn('malformed', `${label} refers to cell ${String(value)}, which is not among the kept detections; reference ignored.`);
+      else if (!subjects.includes(cell)) subjects.push(cell);
+    });
+  }
+
+  const x = toNumber(entry.x);
+  const y = toNumber(entry.y);
+  const point = x !== null && y !== null && x >= 0 && x <= 100 && y >= 0 && y <= 100 ? { x, y } : null;
+  if (!point && (entry.x !== undefined || entry.y !== undefined)) {
+    warn('out-of-range', `${label} location is incomplete or outside the frame; ${subjects.length > 0 ? 'using the centre of its cells' : 'ignored'}.`);
+  }
+  const location = point ?? getCellsCentroid(subjects);
+  if (location) Object.assign(event, location);
+
+  const confidence = toNumber(entry.confidence);
+  if (confidence !== null && confidence >= 0 && confidence <= 1) event.confidence = confidence;
+  else if (entry.confidence !== undefined) warn('out-of-range', `${label} confidence is not between 0 and 1; ignored.`);
+
+  return event;
+};
+
+/**
+ * Checks a parsed detector response against the expected shape and physical constraints.
+ * A response that is not an object with a cells array is rejected (throws) so the caller can
+ * retry. Otherwise bad values are corrected rather than trusted: cells with missing or
+ * non-numeric fields and non-positive or oversized radii are dropped, centres slightly
+ * outside the frame are clamped (far outside are dropped), heavily overlapping detections are
+ * merged, and the cell count is taken from the kept cells. Every correction becomes a warning.
+ */
+export const validateDetectionResponse = (data: unknown): ValidatedResponse => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error("Model response is not a JSON object.");
+  }
+  const response = data as Record<string, unknown>;
+  if (!Array.isArray(response.cells)) {
+    throw new Error("Model response has no cells array.");
+  }
+
+  const warnings: FrameWarning[] = [];
+  const warn = (issue: ValidationIssue, message: string) => warnings.push({ issue, message });
+
+  const cells: Cell[] = [];
+  // Kept cell for each listed cell (merged duplicates point to the cell they were merged into),
+  // so events can refer to cells by their position in the response
+  const keptCells: (Cell | undefined)[] = [];
+  response.cells.forEach((raw, index) => {
+    const label = `Cell ${index + 1}`;
+    if (typeof raw !== 'object' || raw === null) {
+      warn('invalid-cell', `${label} is not an object; dropped.`);
+      return;
+    }
+    const entry = raw as Record<string, unknown>;
+    let x = toNumber(entry.x);
+    let y = toNumber(entry.y);
+    const r = toNumber(entry.r);
+    if (x === null || y === null || r === null) {
+      warn('invalid-cell', `${label} has a missing or non-numeric x, y or r; dropped.`);
+      return;
+    }
+    if (r <= 0 || r > MAX_RADIUS) {
+      warn('out-of-range', `${label} has radius ${r.toFixed(1)}% (allowed 0-${MAX_RADIUS}%); dropped.`);
+      return;
+    }
+    const outside = Math.max(-x, x - 100, -y, y - 100);
+    if (outside > COORDINATE_TOLERANCE) {
+      warn('out-of-range', `${label} centre (${x.toFixed(1)}, ${y.toFixed(1)}) is outside the frame; dropped.`);
+      return;
+    }
+    if (outside > 0) {
+      warn('out-of-range', `${label} centre (${x.toFixed(1)}, ${y.toFixed(1)}) clamped to the frame edge.`);
+      x = Math.min(100, Math.max(0, x));
+      y = Math.min(100, Math.max(0, y));
+    }
+
+    const status = typeof entry.status === 'string' && entry.status.trim()
+      ? entry.status.trim().slice(0, MAX_STATUS_LENGTH)
+      : 'Normal';
+
+    // Heavily overlapping detections: keep the first, which the model usually lists with more confidence
+    const duplicateOf = cells.findIndex(kept =>
+      Math.hypot(kept.x - x!, kept.y - y!) < DUPLICATE_DISTANCE_FACTOR * Math.min(kept.r, r)
+    );
+    if (duplicateOf >= 0) {
+      warn('duplicate', `${label} overlaps an earlier detection at (${cells[duplicateOf].x.toFixed(1)}, ${cells[duplicateOf].y.toFixed(1)}); merged.`);
+      keptCells[index] = cells[duplicateOf];
+      return;
+    }
+
+    const cell: Cell = { id: cells.length + 1, x, y, r, status, history: [] };
+    cells.push(cell);
+    keptCells[index] = cell;
+  });
+
+  const reportedCount = toNumber(response.cellCount);
+  if (reportedCount === null) {
+    warn('malformed', "cellCount is missing or not a number; using the number of cells.");
+  } else if (reportedCount !== response.cells.length) {
+    warn('count-mismatch', `cellCount ${reportedCount} disagrees with the ${response.cells.length} cells listed; using ${cells.length}.`);
+  }
+
+  const events: FrameEvent[] = [];
+  if (Array.isArray(response.frameEvents)) {
+    response.frameEvents.forEach((raw, index) => {
+      const event = validateEvent(raw, keptCells, `Event ${index + 1}`, warn);
+      if (event) events.push(event);
+    });
+  } else if (response.frameEvents !== undefined) {
+    warn('malformed', "frameEvents is not a list; ignored.");
+  }
+
+  return { cellCount: cells.length, cells, events, warnings };
+};
+
+/**
+ * Totals of the validation warnings over a run, for the report methods and the dashboard.
+ */
+export const summarizeValidation = (frames: FrameData[]) => {
+  const byIssue: Record<ValidationIssue, number> = {
+    'malformed': 0,
+    'invalid-cell': 0,
+    'out-of-range': 0,
+    'duplicate': 0,
+    'count-mismatch': 0
+  };
+  let framesWithWarnings = 0;
+  frames.forEach(frame => {
+    if (!frame.warnings || frame.warnings.length === 0) return;
+    framesWithWarnings++;
+    frame.warnings.forEach(w => { byIssue[w.issue]++; });
+  });
+  const totalWarnings = Object.values(byIssue).reduce((acc, n) => acc + n, 0);
+  return { framesWithWarnings, totalWarnings, byIssue };
+};
+
+// Helper: One sentence for the report methods, empty when nothing had to be corrected
+export const describeValidation = (summary: ReturnType<typeof summarizeValidation>): string => {
+  if (summary.totalWarnings === 0) return '';
+  const parts = [
+    summary.byIssue['out-of-range'] > 0 ? `${summary.byIssue['out-of-range']} out-of-range positions or radii clamped or dropped` : '',
+    summary.byIssue['invalid-cell'] > 0 ? `${summary.byIssue['invalid-cell']} incomplete detections dropped` : '',
+    summary.byIssue['duplicate'] > 0 ? `${summary.byIssue['duplicate']} overlapping duplicates merged` : '',
+    summary.byIssue['count-mismatch'] > 0 ? `${summary.byIssue['count-mismatch']} reported cell counts replaced by the number of detections` : '',
+    summary.byIssue['malformed'] > 0 ? `${summary.byIssue['malformed']} malformed fields ignored` : ''
+  ].filter(Boolean);
+  return `Detector output was validated against the response schema and physical constraints; in ${summary.framesWithWarnings} frames, ${parts.join(', ')}.`;
+};
@@ -0,0 +1,94 @@
+// Overlay geometry of the player: where the frame is drawn inside its element, and the zoomed
+// window onto it. Cell coordinates stay in % of the frame (x of width, y of height, r of width).
+
+// Largest zoom factor of the player viewport
+export const MAX_ZOOM = 8;
+// Zoom change per wheel notch
+export const WHEEL_ZOOM_STEP = 1.2;
+
+// Rectangle in CSS pixels
+export interface ScreenRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Visible window onto the frame: zoom factor and top-left corner in % of the frame
+export interface Viewport {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { zoom: 1, x: 0, y: 0 };
+
+/**
+ * Rectangle the frame actually occupies inside an `object-contain` element of the given size:
+ * the element minus its letterbox or pillarbox bars. Falls back to the whole element until the
+ * intrinsic size is known.
+ */
+export const getContentRect = (elementWidth: number, elementHeight: number, intrinsicWidth: number, intrinsicHeight: number): ScreenRect => {
+  if (intrinsicWidth <= 0 || intrinsicHeight <= 0 || elementWidth <= 0 || elementHeight <= 0) {
+    return { x: 0, y: 0, width: elementWidth, height: elementHeight };
+  }
+  const scale = Math.min(elementWidth / intrinsicWidth, elementHeight / intrinsicHeight);
+  const width = intrinsicWidth * scale;
+  const height = intrinsicHeight * scale;
+  return { x: (elementWidth - width) / 2, y: (elementHeight - height) / 2, width, height };
+};
+
+// Keeps the zoom within 1-MAX_ZOOM and the window inside the frame
+export const clampViewport = (viewport: Viewport): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, viewport.zoom));
+  const span = 100 / zoom;
+  return {
+    zoom,
+    x: Math.min(100 - span, Math.max(0, viewport.x)),
+    y: Math.min(100 - span, Math.max(0, viewport.y))
+  };
+};
+
+// Zooms by `factor` keeping the frame point (fx, fy) (in %) under the same screen position
+export const zoomAt = (viewport: Viewport, fx: number, fy: number, factor: number): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, viewport.zoom * factor));
+  const ratio = viewport.zoom / zoom;
+  return clampViewport({ zoom, x: fx - (fx - viewport.x) * ratio, y: fy - (fy - viewport.y) * ratio });
+};
+
+// Centres the window on the frame point (fx, fy), as when clicking the minimap
+export const centerOn = (viewport: Viewport, fx: number, fy: number): Viewport => {
+  const span = 100 / viewport.zoom;
+  return clampViewport({ ...viewport, x: fx - span / 2, y: fy - span / 2 });
+};
+
+/**
+ * Maps between frame % and screen pixels for a content rectangle seen through a viewport.
+ * Radii are % of the frame width; `radiusX`/`radiusY` give the on-screen semi-axes, which only
+ * differ when the frame is displayed with a different aspect ratio than its pixels.
+ */
+export const createFrameMapping = (rect: ScreenRect, viewport: Viewport, intrinsicWidth: number, intrinsicHeight: number) => {
+  const scaleX = (rect.width / 100) * viewport.zoom; // px per % of width
+  const scaleY = (rect.height / 100) * viewport.zoom; // px per % of height
+  // Frame width as a share of its height, so a radius in % of width can be measured along y
+  const aspect = intrinsicWidth > 0 && intrinsicHeight > 0 ? intrinsicWidth / intrinsicHeight : rect.width / (rect.height || 1);
+  return {
+    toScreenX: (x: number) => rect.x + (x - viewport.x) * scaleX,
+    toScreenY: (y: number) => rect.y + (y - viewport.y) * scaleY,
+    toFrameX: (px: number) => viewport.x + (px - rect.x) / scaleX,
+    toFrameY: (py: number) => viewport.y + (py - rect.y) / scaleY,
+    radiusX: (r: number) => r * scaleX,
+    radiusY: (r: number) => r * aspect * scaleY,
+    // Inverse of radiusX, for resizing by dragging
+    toFrameRadius: (px: number) => px / scaleX
+  };
+};
+
+export type FrameMapping = ReturnType<typeof createFrameMapping>;
+
+// CSS transform that shows the same window of the media element as the mapping (origin top left)
+export const getMediaTransform = (rect: ScreenRect, viewport: Viewport): string => {
+  const tx = rect.x * (1 - viewport.zoom) - (viewport.x / 100) * rect.width * viewport.zoom;
+  const ty = rect.y * (1 - viewport.zoom) - (viewport.y / 100) * rect.height * viewport.zoom;
+  return `translate(${tx}px, ${ty}px) scale(${viewport.zoom})`;
+};
@@ -1,3 +1,8 @@
+// How a track begins: in the first sampled frame, crossing the field border, by division of its parent, or inside the field
+export type TrackStartReason = 'initial' | 'entered' | 'division' | 'appeared';
+// How a track ends: in the last sampled frame, crossing the field border, by dividing, or lost inside the field
+export type TrackEndReason = 'final' | 'exited' | 'divided' | 'lost';
+
 export interface Cell {
   id: number;
   x: number; // Percentage 0-100
@@ -5,11 +10,48 @@ export interface Cell {
   r: number; // Radius percentage
   status?: string; // Short doctor's note (e.g., "Dividing")
   history?: { x: number; y: number }[]; // Trajectory history for motion trails
+  gap?: number; // Sampled frames bridged by gap closing right before this detection
+  trackStart?: TrackStartReason; // Set on the first detection of a track
+  trackEnd?: TrackEndReason; // Set on the last detection of a track
+  parentId?: number; // Mother track ID if this track was born by division
+  generation?: number; // Divisions since the lineage root (0 = founder cell)
+  confidence?: number; // Consensus mode: share of detection passes that found this cell (0-1)
+}
+
+// Fixed event taxonomy. Values equal the labels of earlier free-text events, so saved results load unchanged.
+export enum EventType {
+  Mitosis = 'Mitosis', // Mitotic phase seen by the detector (prophase to cytokinesis)
+  Division = 'Division', // Completed division traced by the tracker (mother → daughters)
+  Apoptosis = 'Apoptosis',
+  Necrosis = 'Necrosis',
+  Interaction = 'Interaction', // Contact, fusion, aggregation
+  Detachment = 'Detachment',
+  Growth = 'Growth', // New cell inside the field without a traced division
+  Observation = 'Observation' // Anything else worth noting
 }
 
+// Who reported an event: the detection model or the tracker's heuristics
+export type EventSource = 'detector' | 'tracker';
+
 export interface FrameEvent {
-  type: string;
+  type: EventType;
   description: string;
+  cellIds?: number[]; // Track IDs of the cells involved
+  x?: number; // Where it happened, % of frame (like cell centres)
+  y?: number;
+  confidence?: number; // Detector's confidence (0-1)
+  source?: EventSource; // Missing on results saved before the taxonomy; see isTrackerEvent
+}
+
+// Outcome of detection on one frame: detections, an error, or no answer from the model
+export type FrameAnalysisStatus = 'ok' | 'failed' | 'empty';
+
+// Problems found in a detector response and corrected (clamped, dropped or recounted) before use
+export type ValidationIssue = 'malformed' | 'invalid-cell' | 'out-of-range' | 'duplicate' | 'count-mismatch';
+
+export interface FrameWarning {
+  issue: ValidationIssue;
+  message: string;
 }
 
 export interface FrameData {
@@ -17,12 +59,292 @@ export interface FrameData {
   cellCount: number;
   cells: Cell[];
   events: FrameEvent[];
+  bridgedTrackIds?: number[]; // Tracks missed in this frame but bridged by gap closing
+  analysisStatus?: FrameAnalysisStatus; // Absent = 'ok' (local detectors, imported tracks, older results)
+  analysisError?: string; // Why a 'failed' or 'empty' frame has no detections
+  warnings?: FrameWarning[]; // Corrections made when validating the detector response
+  passCounts?: number[]; // Consensus mode: cell count of each successful detection pass
+}
+
+// One track in the lineage forest, derived from the linked frames
+export interface LineageNode {
+  id: number;
+  parentId?: number;
+  rootId: number; // Founder track of this lineage
+  generation: number;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  childIds: number[];
+  divisionTime?: number; // When the daughters first appear (Seconds)
+  cycleDuration?: number; // Birth-to-division time, only for cells both born by and ending in division
+}
+
+// Motility metrics of one track. Lengths/times are in the units of the owning MotilitySummary.
+export interface TrackMotility {
+  id: number;
+  points: number; // Detections used
+  startTime: number; // Video seconds
+  endTime: number; // Video seconds
+  duration: number;
+  pathLength: number; // Sum of step lengths
+  netDisplacement: number; // First-to-last distance
+  directionality: number; // netDisplacement / pathLength (1 = straight line)
+  meanSpeed: number; // pathLength / duration
+  instantaneousSpeeds: number[]; // One per step
+  turningAngles: number[]; // Degrees, signed, one per pair of consecutive steps
+}
+
+// Mean squared displacement at one lag (in multiples of the median sampling interval)
+export interface MsdPoint {
+  lagSteps: number;
+  lagTime: number; // Mean time lag of the averaged pairs
+  msd: number;
+  pairs: number;
+}
+
+export interface MotilitySummary {
+  units: { length: string; time: string; speed: string };
+  tracks: TrackMotility[];
+  meanSpeed: number | null;
+  meanPathLength: number | null;
+  meanNetDisplacement: number | null;
+  meanDirectionality: number | null;
+  meanAbsTurningAngle: number | null; // Degrees
+  msd: MsdPoint[];
+  msdExponent: number | null; // alpha in MSD ~ t^alpha (≈1 random walk, ≈2 directed)
+}
+
+// Native size of the analysed video, needed to turn % coordinates into pixels/microns
+export interface VideoMetadata {
+  width: number; // Pixels
+  height: number; // Pixels
+  duration: number; // Seconds of video
+}
+
+// Still frames (multi-page TIFF or an image folder) used in place of a video.
+// Frame i plays at i / fps seconds, so timestamps and calibration work as for a video.
+export interface ImageSequence {
+  name: string; // TIFF file or folder name
+  files: File[]; // Source files in frame order
+  frameUrls: string[]; // Object URLs of the 8-bit renderings, one per frame
+  width: number; // Pixels
+  height: number; // Pixels
+  fps: number; // Preview playback rate
+}
+
+// Physical calibration entered at upload. Unset values leave that axis in frame % / video seconds.
+export interface Calibration {
+  micronsPerPixel: number | null; // Pixel size of the original video frame
+  timeMode: 'perVideoSecond' | 'perFrame';
+  minutesPerVideoSecond: number | null; // Real culture time per second of video ('perVideoSecond')
+  frameIntervalMinutes: number | null; // Acquisition interval between video frames ('perFrame')
+  videoFps: number | null; // Playback frame rate of the video file ('perFrame')
+}
+
+// Rectangle of the frame to analyse, in % of the frame width/height
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Which frames are sent to the detector, and how they are prepared
+export interface SamplingPlan {
+  mode: 'count' | 'interval' | 'adaptive';
+  frameCount: number; // 'count': frames spread evenly over the time window; 'adaptive': frame budget
+  coverage: number; // 'adaptive': share of the budget (0-1) spread evenly regardless of change
+  intervalSeconds: number; // 'interval': fixed spacing in video seconds; 'count': smallest spacing
+  startTime: number; // Video seconds
+  endTime: number | null; // Video seconds, null = end of the video
+  maxDimension: number; // Longest side of the encoded frame (px), ignored when tiled
+  tileSize: number | null; // Tiled mode: tile side in native pixels; null = whole frame, downscaled
+  tileOverlap: number; // Tiled mode: overlap between neighbouring tiles (native px)
+  jpegQuality: number; // 0-1
+  roi: RegionOfInterest | null; // Frames are cropped to this region; detections are mapped back to the full frame
+}
+
+// One point of the cheap pre-scan used by adaptive sampling
+export interface ChangeSample {
+  time: number; // Video seconds
+  score: number; // Mean absolute pixel change since the previous scan point, % of the intensity range
+}
+
+// How sampled frames are dispatched to the detector
+export interface QueueSettings {
+  concurrency: number; // Frames analysed at the same time
+  requestsPerMinute: number | null; // Token-bucket limit on detector calls, null = unlimited
+}
+
+// Consensus detection: every frame is analysed several times and the detections are clustered
+export interface ConsensusSettings {
+  passes: number; // Detection passes per frame, 1 = off
+  variation: 'prompt' | 'augment' | 'both'; // What differs between passes: prompt wording, image flips, or both
+}
+
+// Where a run saves its progress, so an interrupted run resumes instead of starting over
+export interface CheckpointTarget {
+  key: string; // Footage fingerprint and detector; one checkpoint per pair
+  signature: string; // Settings that change detections; a checkpoint saved under others is discarded
+}
+
+// Detections of an unfinished run, saved after every frame (IndexedDB 'checkpoints')
+export interface AnalysisCheckpoint {
+  key: string;
+  signature: string;
+  savedAt: string; // ISO date
+  timestamps: number[]; // Sampled frame times; frames are only reused if these match the new run
+  frames: (FrameData | null)[]; // Detections by sampled-frame index, null = not analysed yet
+}
+
+// Options for one analysis run
+export interface AnalysisOptions {
+  calibration?: Calibration;
+  samplingPlan?: SamplingPlan;
+  queue?: QueueSettings; // Default: one frame at a time, no rate limit
+  signal?: AbortSignal; // Cancels the run; completed frames stay in the checkpoint
+  checkpoint?: CheckpointTarget;
+  consensus?: ConsensusSettings; // Default: a single pass
 }
 
 export interface AnalysisResult {
   frames: FrameData[];
   summary: string;
   extendedReport: string;
+  video?: VideoMetadata;
+  calibration?: Calibration;
+  samplingPlan?: SamplingPlan; // How the frames were sampled (absent for imported tracks)
+  changeProfile?: ChangeSample[]; // Pre-scan of adaptive sampling
+  consensus?: ConsensusSettings; // Present when frames were detected by several passes
+  curation?: CurationHistory; // Present once the result has been edited by hand
+}
+
+// One manual correction. Cells are addressed by sampled-frame index and track ID,
+// which stay stable because edits are always replayed in order on the same original frames.
+export type CurationEdit =
+  | { type: 'add'; frameIndex: number; x: number; y: number; r: number }
+  | { type: 'delete'; frameIndex: number; cellId: number }
+  | { type: 'move'; frameIndex: number; cellId: number; x: number; y: number; r: number }
+  | { type: 'status'; frameIndex: number; cellId: number; status: string }
+  | { type: 'relabel'; trackId: number; newId: number } // Merges into newId if that track exists
+  | { type: 'split'; frameIndex: number; trackId: number } // Detections from frameIndex on get a new ID
+  | { type: 'relink' }; // Re-run the automatic tracker on the edited detections
+
+export interface CurationHistory {
+  originalFrames: FrameData[]; // Frames as produced by the analysis, before any edit
+  edits: CurationEdit[];
+}
+
+// A detection picked on the overlay
+export interface CellSelection {
+  frameIndex: number;
+  cellId: number;
+}
+
+// Download formats offered by the dashboard export menu
+export type ExportFormat = 'detections-csv' | 'events-csv' | 'json' | 'trackmate-xml' | 'ctc-tracks';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// Piece of the sampled area analysed on its own in tiled mode (native pixels of the area)
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A sampled video frame, ready to send to a detector
+export interface ExtractedFrame {
+  timestamp: number; // Seconds
+  base64: string; // JPEG payload without the data URL prefix (empty for tiled frames)
+  tiles?: string[]; // Tiled mode: JPEG payloads of the tiles, in the order of the plan's tile grid
+  promptVariant?: number; // Consensus passes: providers with a prompt may word it differently (0 = default)
+}
+
+// A detection backend: turns one sampled frame into cells and events
+export interface DetectionProvider {
+  id: string;
+  name: string; // Human readable, used in progress messages and the report methodology
+  // Rate-limit (429) errors must be thrown, not swallowed, so the queue can back off and retry
+  analyzeFrame: (frame: ExtractedFrame, signal?: AbortSignal) => Promise<FrameData>;
+  // Optional: providers without a language model fall back to a template report
+  generateReport?: (stats: object) => Promise<string>;
+  // Optional: a stored result for this exact request, used without sending it (null = not cached)
+  lookupCache?: (frame: ExtractedFrame) => Promise<FrameData | null>;
+}
+
+// Stored detector response, keyed by request content (see responseCacheService)
+export interface CachedResponse {
+  model: string;
+  promptVersion: string; // Hash of the prompt and response schema the response was made with
+  savedAt: string; // ISO date
+  frame: FrameData;
+}
+
+// Overview of the response cache for the settings panel
+export interface ResponseCacheSummary {
+  entries: number;
+  approxBytes: number; // Size of the stored JSON
+  models: string[];
+  oldest: string | null; // ISO dates
+  newest: string | null;
+}
+
+// Detection backends selectable in the UI
+export type DetectorId = 'gemini' | 'classical' | 'simulated';
+
+// Tunable parameters of the in-browser classical detector
+export interface ClassicalDetectorParams {
+  minRadius: number; // Smallest cell radius, % of frame width
+  maxRadius: number; // Largest cell radius, % of frame width
+  threshold: number | null; // Foreground threshold 0-255 after normalisation, null = automatic (Otsu)
+  polarity: 'auto' | 'bright' | 'dark'; // Cells brighter or darker than the background
+}
+
+// Identifies the video a saved analysis belongs to (the video itself is not stored)
+export interface VideoReference {
+  name: string;
+  size: number; // Bytes
+  lastModified: number; // ms since epoch
+  fingerprint: string | null; // SHA-256 of the size and the first and last MiB, hex; null if it could not be computed
+}
+
+// Settings that produced a result, restored when a project is reopened
+export interface AnalysisSettings {
+  source: DetectorId | 'import';
+  classicalParams?: ClassicalDetectorParams;
+  calibration: Calibration;
+}
+
+// Self-contained saved analysis (.ctproj.json)
+export interface ProjectFile {
+  format: 'celltracker-project';
+  version: number;
+  savedAt: string; // ISO date
+  video: VideoReference;
+  settings: AnalysisSettings;
+  result: AnalysisResult;
+}
+
+// Library list entry; the project itself is stored separately and loaded on demand
+export interface LibraryEntry {
+  id: string;
+  savedAt: string; // ISO date
+  videoName: string;
+  thumbnail: string | null; // JPEG data URL
+  source: AnalysisSettings['source'];
+  stats: {
+    frames: number;
+    tracks: number;
+    initialCount: number;
+    finalCount: number;
+    divisions: number;
+  };
 }
 
 export enum AnalysisStatus {